@@ -0,0 +1,12 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getTokenSource } from '../../../../lib/api/tokenSource';
+
+// GET /api/tokens/:id: a single token
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const token = await getTokenSource().get(id);
+  if (!token) {
+    return NextResponse.json({ error: `Unknown token "${id}"` }, { status: 404 });
+  }
+  return NextResponse.json(token);
+}
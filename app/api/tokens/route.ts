@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { parseTokenQuery, TokenQueryError } from '../../../lib/api/tokenQuery';
+import { getTokenSource } from '../../../lib/api/tokenSource';
+
+// GET /api/tokens: one page of tokens. Query parameters are documented in lib/api/tokenQuery.ts.
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseTokenQuery(request.nextUrl.searchParams);
+    return NextResponse.json(await getTokenSource().list(query));
+  } catch (err) {
+    if (err instanceof TokenQueryError) {
+      return NextResponse.json({ error: err.message, param: err.param }, { status: 400 });
+    }
+    throw err;
+  }
+}
@@ -1,12 +1,21 @@
 import AxiomTradeTable from '../components/AxiomTradeTable';
+import { parseTableState } from '../lib/tableState';
 
-// This is the root page component. It is a Server Component, responsible 
+// This is the root page component. It is a Server Component, responsible
 // only for importing and rendering the Client Component (AxiomTradeTable).
-export default function Home() {
+// It also restores the shareable table state (tab, sort, filters, open token)
+// from the query string, so a shared link renders the right view on first paint.
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const initialState = parseTableState(await searchParams);
+
   return (
     // We use a completely minimal structure to ensure no default Next.js styling interferes.
     <main>
-      <AxiomTradeTable />
+      <AxiomTradeTable initialState={initialState} />
     </main>
   );
 }
@@ -0,0 +1,338 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Bell, BellRing, Trash2, X } from 'lucide-react';
+import {
+  ALERT_CONDITION_KINDS,
+  ALERT_CONDITION_LABELS,
+  CHANGE_WINDOW_LABELS,
+  DEFAULT_COOLDOWN_MS,
+  DEFAULT_DEBOUNCE_MS,
+  MOVE_WINDOWS,
+  createAlertRule,
+  describeCondition,
+  type AlertCondition,
+  type AlertConditionKind,
+  type AlertEvent,
+  type AlertRule,
+} from '../lib/alerts';
+import type { ChangeKey } from '../lib/priceHistory';
+import type { Token } from '../lib/types';
+import type { NotificationPermissionState } from '../hooks/useAlerts';
+import { COLOR } from './ui';
+
+const TOAST_DURATION_MS = 6000;
+
+const inputClass = `w-full ${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500`;
+const labelClass = `block text-xs font-medium mb-1 ${COLOR.TEXT_MUTED}`;
+
+const formatClock = (ts: number) =>
+  new Date(ts).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Placeholder / unit for the threshold input of each condition kind
+const THRESHOLD_HINTS: Record<AlertConditionKind, string> = {
+  price_cross: 'Price (USD)',
+  move: 'Move (%)',
+  score_below: 'Score',
+  new_pair: 'Min. liquidity (USD)',
+};
+
+const buildCondition = (
+  kind: AlertConditionKind,
+  threshold: number,
+  direction: 'above' | 'below',
+  window: ChangeKey
+): AlertCondition => {
+  switch (kind) {
+    case 'price_cross': return { kind, direction, price: threshold };
+    case 'move': return { kind, window, percent: Math.abs(threshold) };
+    case 'score_below': return { kind, score: threshold };
+    case 'new_pair': return { kind, minLiquidity: threshold };
+  }
+};
+
+/**
+ * Rule editor + list of existing rules. Rules persist in localStorage via `useAlerts`.
+ */
+interface AlertManagerProps {
+  rules: AlertRule[];
+  tokens: Token[];
+  onAdd: (rule: AlertRule) => void;
+  onUpdate: (id: string, changes: Partial<AlertRule>) => void;
+  onRemove: (id: string) => void;
+  permission: NotificationPermissionState;
+  onRequestPermission: () => void;
+}
+
+export const AlertManager: React.FC<AlertManagerProps> = ({
+  rules, tokens, onAdd, onUpdate, onRemove, permission, onRequestPermission,
+}) => {
+  const [tokenId, setTokenId] = useState('');
+  const [kind, setKind] = useState<AlertConditionKind>('price_cross');
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [moveWindow, setMoveWindow] = useState<ChangeKey>('change5m');
+  const [threshold, setThreshold] = useState('');
+  const [cooldownSeconds, setCooldownSeconds] = useState(String(DEFAULT_COOLDOWN_MS / 1000));
+  const [notifyBrowser, setNotifyBrowser] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // "New pair" rules are about tokens that don't exist yet, so they are always global
+  const isGlobalOnly = kind === 'new_pair';
+  const symbolById = new Map(tokens.map(token => [token.id, token.symbol]));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Number(threshold);
+    const cooldown = Number(cooldownSeconds);
+    if (threshold.trim() === '' || !Number.isFinite(value)) {
+      setFormError(`Enter a number for "${THRESHOLD_HINTS[kind]}"`);
+      return;
+    }
+    if (!Number.isFinite(cooldown) || cooldown < 0) {
+      setFormError('Cooldown must be zero or more seconds');
+      return;
+    }
+    onAdd(createAlertRule({
+      tokenId: isGlobalOnly || tokenId === '' ? null : tokenId,
+      condition: buildCondition(kind, value, direction, moveWindow),
+      notifyBrowser,
+      debounceMs: DEFAULT_DEBOUNCE_MS,
+      cooldownMs: cooldown * 1000,
+    }));
+    setThreshold('');
+    setFormError(null);
+  };
+
+  return (
+    <div className="space-y-5">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass} htmlFor="alert-kind">Condition</label>
+            <select id="alert-kind" className={inputClass} value={kind} onChange={e => setKind(e.target.value as AlertConditionKind)}>
+              {ALERT_CONDITION_KINDS.map(option => (
+                <option key={option} value={option}>{ALERT_CONDITION_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="alert-token">Token</label>
+            <select
+              id="alert-token"
+              className={inputClass}
+              value={isGlobalOnly ? '' : tokenId}
+              disabled={isGlobalOnly}
+              onChange={e => setTokenId(e.target.value)}
+            >
+              <option value="">All tokens</option>
+              {tokens.map(token => (
+                <option key={token.id} value={token.id}>{token.symbol} ({token.name})</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {kind === 'price_cross' && (
+            <div>
+              <label className={labelClass} htmlFor="alert-direction">Direction</label>
+              <select id="alert-direction" className={inputClass} value={direction} onChange={e => setDirection(e.target.value as 'above' | 'below')}>
+                <option value="above">Crosses above</option>
+                <option value="below">Crosses below</option>
+              </select>
+            </div>
+          )}
+          {kind === 'move' && (
+            <div>
+              <label className={labelClass} htmlFor="alert-window">Window</label>
+              <select id="alert-window" className={inputClass} value={moveWindow} onChange={e => setMoveWindow(e.target.value as ChangeKey)}>
+                {MOVE_WINDOWS.map(option => (
+                  <option key={option} value={option}>{CHANGE_WINDOW_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className={labelClass} htmlFor="alert-threshold">{THRESHOLD_HINTS[kind]}</label>
+            <input
+              id="alert-threshold"
+              type="number"
+              step="any"
+              inputMode="decimal"
+              className={inputClass}
+              value={threshold}
+              onChange={e => setThreshold(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="alert-cooldown">Cooldown (s)</label>
+            <input
+              id="alert-cooldown"
+              type="number"
+              min={0}
+              className={inputClass}
+              value={cooldownSeconds}
+              onChange={e => setCooldownSeconds(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center text-sm text-white cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-2 accent-cyan-500"
+              checked={notifyBrowser}
+              disabled={permission === 'unsupported' || permission === 'denied'}
+              onChange={e => setNotifyBrowser(e.target.checked)}
+            />
+            Browser notification
+          </label>
+          {permission === 'default' && (
+            <button type="button" onClick={onRequestPermission} className={`text-xs ${COLOR.BLUE_ACCENT} hover:underline`}>
+              Allow browser notifications
+            </button>
+          )}
+          {permission === 'denied' && (
+            <span className={`text-xs ${COLOR.TEXT_MUTED}`}>Notifications are blocked in this browser</span>
+          )}
+        </div>
+
+        {formError && <p className={`text-xs ${COLOR.RED_TREND}`} role="alert">{formError}</p>}
+
+        <button type="submit" className="w-full py-2 rounded-lg bg-cyan-600 hover:bg-cyan-700 text-white text-sm font-semibold transition-colors">
+          Add alert
+        </button>
+      </form>
+
+      <div>
+        <h4 className={`text-xs font-semibold uppercase tracking-wide mb-2 ${COLOR.TEXT_MUTED}`}>Active rules ({rules.length})</h4>
+        {rules.length === 0 ? (
+          <p className={`text-sm ${COLOR.TEXT_MUTED}`}>No alerts yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {rules.map(rule => (
+              <li key={rule.id} className={`${COLOR.BORDER} border rounded-lg px-3 py-2 flex items-center gap-3`}>
+                <input
+                  type="checkbox"
+                  className="accent-cyan-500"
+                  checked={rule.enabled}
+                  onChange={e => onUpdate(rule.id, { enabled: e.target.checked })}
+                  aria-label={rule.enabled ? 'Disable alert' : 'Enable alert'}
+                />
+                <div className={`flex-1 min-w-0 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <p className="text-sm text-white truncate">{describeCondition(rule.condition)}</p>
+                  <p className={`text-xs ${COLOR.TEXT_MUTED}`}>
+                    {rule.tokenId === null ? 'All tokens' : symbolById.get(rule.tokenId) ?? rule.tokenId}
+                    {' · '}cooldown {Math.round(rule.cooldownMs / 1000)}s
+                    {rule.notifyBrowser && ' · browser'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRemove(rule.id)}
+                  className="p-1 rounded-full text-gray-500 hover:text-red-400 transition-colors"
+                  aria-label="Delete alert"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Bell button with an unread badge and a dropdown of recently fired alerts.
+ */
+interface NotificationCenterProps {
+  events: AlertEvent[];
+  unread: number;
+  onMarkRead: () => void;
+  onClear: () => void;
+  onManage: () => void;
+}
+
+export const NotificationCenter: React.FC<NotificationCenterProps> = ({ events, unread, onMarkRead, onClear, onManage }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = () => {
+    if (!isOpen) onMarkRead();
+    setIsOpen(open => !open);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="relative px-3 py-2 rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 transition-colors"
+        aria-label={`Notifications${unread > 0 ? ` (${unread} unread)` : ''}`}
+        aria-expanded={isOpen}
+      >
+        {unread > 0 ? <BellRing className="w-4 h-4 text-yellow-400" /> : <Bell className="w-4 h-4" />}
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-[10px] font-bold leading-[1.1rem] text-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto z-30 ${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-xl shadow-2xl`}>
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+            <span className="text-sm font-semibold text-white">Notifications</span>
+            <div className="flex items-center gap-3 text-xs">
+              <button onClick={onManage} className={`${COLOR.BLUE_ACCENT} hover:underline`}>Manage alerts</button>
+              {events.length > 0 && (
+                <button onClick={onClear} className={`${COLOR.TEXT_MUTED} hover:text-white`}>Clear</button>
+              )}
+            </div>
+          </div>
+          {events.length === 0 ? (
+            <p className={`px-4 py-6 text-center text-sm ${COLOR.TEXT_MUTED}`}>No alerts fired yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-800">
+              {events.map(event => (
+                <li key={event.id} className="px-4 py-2">
+                  <p className="text-sm text-white">{event.title}</p>
+                  <p className={`text-xs ${COLOR.TEXT_MUTED}`}>{event.message} · {formatClock(event.ts)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Toast: React.FC<{ event: AlertEvent; onDismiss: (id: string) => void }> = ({ event, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(event.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [event.id, onDismiss]);
+
+  return (
+    <div role="status" className={`${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-lg shadow-2xl px-4 py-3 flex items-start gap-3`}>
+      <BellRing className="w-4 h-4 mt-0.5 text-yellow-400 flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-white">{event.title}</p>
+        <p className={`text-xs ${COLOR.TEXT_MUTED}`}>{event.message}</p>
+      </div>
+      <button onClick={() => onDismiss(event.id)} className="text-gray-500 hover:text-white" aria-label="Dismiss notification">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Most recent alerts as auto-dismissing toasts in the bottom-right corner.
+ */
+export const ToastStack: React.FC<{ toasts: AlertEvent[]; onDismiss: (id: string) => void }> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2" aria-live="polite">
+    {toasts.map(event => <Toast key={event.id} event={event} onDismiss={onDismiss} />)}
+  </div>
+);
@@ -1,215 +1,160 @@
 'use client'; // CRITICAL: Marks this file as a Client Component
 
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useDeferredValue, useRef, useSyncExternalStore } from 'react';
 import {
   ArrowUpDown,
   TrendingUp,
-  Clock,
-  Zap,
-  CheckCircle,
   AlertTriangle,
   Info,
   ChevronDown,
-  ExternalLink,
   Loader2,
   ListFilter,
   X,
-  Plus
+  Plus,
+  RefreshCw,
+  Download,
+  Upload,
+  Columns3,
+  FileDown,
+  Command,
+  Search,
+  LayoutGrid,
+  Rows3,
+  Pause,
+  Play
 } from 'lucide-react';
+import type { PriceState, SortCriterion, SortDirection, SortState, TableTab, TableView, Token, TokenChain } from '../lib/types';
+import {
+  createMockTransport,
+  createWebSocketTransport,
+  type FeedStatus,
+  type FeedTransport,
+} from '../lib/feed/transport';
+import { createTokenStore } from '../lib/tokenStore';
+import { DEFAULT_SCORE_WEIGHTS, type RiskScore, type ScoreWeights } from '../lib/scoring';
+import {
+  DEFAULT_FILTERS,
+  FILTER_CHAINS,
+  clearFilter,
+  getActiveFilterKeys,
+  hasActiveFilters,
+  matchesFilters,
+  type FilterKey,
+  type NumericRange,
+  type RangeField,
+  type TokenFilters,
+} from '../lib/filters';
+import { DEFAULT_TABLE_STATE, MAX_SORT_KEYS, serializeTableState, type TableUrlState } from '../lib/tableState';
+import { formatCompactNumber } from '../lib/format';
+import { COLOR, Dialog } from './ui';
+import { TokenDetailPanel } from './TokenDetailPanel';
+import { AlertManager, NotificationCenter, ToastStack } from './AlertCenter';
+import { ALIGN_CLASS, type CellContext, type ColumnId } from './columns';
+import { ColumnSettings } from './ColumnSettings';
+import { ExportPanel } from './ExportPanel';
+import { CommandPalette, ShortcutHelp } from './CommandPalette';
+import { PulseBoard } from './PulseBoard';
+import { TradePanel } from './TradePanel';
+import { PortfolioSummary } from './PortfolioSummary';
+import { SavedViewSwitcher, SavedViewsManager } from './SavedViews';
+import { FeedRecordControls, ReplayControls } from './FeedReplay';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { useTableUrlState } from '../hooks/useTableUrlState';
+import { useNow } from '../hooks/useNow';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { useAlerts } from '../hooks/useAlerts';
+import { useColumnLayout, type LayoutColumn } from '../hooks/useColumnLayout';
+import { useBreakpoint } from '../hooks/useBreakpoint';
+import { useGridNavigation } from '../hooks/useGridNavigation';
+import { usePriceAnnouncements } from '../hooks/usePriceAnnouncements';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { usePaletteCommands, type PaletteDialog } from '../hooks/usePaletteCommands';
+import { useTokenSearch } from '../hooks/useTokenSearch';
+import { useLivePause, type PauseReason } from '../hooks/useLivePause';
+import { useSavedViews } from '../hooks/useSavedViews';
+import { useTrading } from '../hooks/useTrading';
+import { useFeedReplay } from '../hooks/useFeedReplay';
+import { isRecentlyMigrated } from '../lib/lifecycle';
+import { sortTokens } from '../lib/sorting';
+import type { TokenFieldMatch } from '../lib/search';
+import { gridTemplate, totalWidth, type Breakpoint, type ColumnLayout } from '../lib/columnLayout';
+import { parseWatchlistImport, serializeWatchlist, WatchlistImportError } from '../lib/watchlist';
+import { isViewActive, viewToSnapshot, type SavedView, type ViewSnapshot } from '../lib/savedViews';
+import { markToMarket, type PositionMark } from '../lib/trading/portfolio';
 
 // --- 1. CONFIGURATION & TYPES (Foundation for Strict TypeScript) ---
 
-// Axiom-like specific colors for UI
-const COLOR = {
-    BG_PRIMARY: 'bg-[#0e0e11]',
-    BG_SECONDARY: 'bg-[#1a1a20]',
-    BORDER: 'border-[#2a2a30]',
-    TEXT_MUTED: 'text-[#8e8e99]',
-    BLUE_ACCENT: 'text-[#00c6ff]',
-    GREEN_TREND: 'text-[#48ef7a]',
-    RED_TREND: 'text-[#ff4757]',
-};
-
-// Type for a single Token entry
-type Token = {
-  id: string;
-  name: string;
-  symbol: string;
-  chain: 'ETH' | 'BSC' | 'SOL';
-  pair: string;
-  status: 'New pairs' | 'Final Stretch' | 'Migrated';
-  marketCap: number;
-  priceUSD: number;
-  volume24h: number;
-  liquidity: number;
-  launchTime: number; // Unix timestamp
-  score: number;
-};
-
-// Type for the price history state used for smooth transitions
-type PriceState = {
-  priceUSD: number;
-  trend: 'up' | 'down' | 'neutral';
-};
-
-// Type for sorting state
-type SortState = {
-  key: keyof Token | null;
-  direction: 'asc' | 'desc';
-};
-
-// Column definitions for the table
-type Column = {
-  key: keyof Token;
-  label: string;
-  sortable: boolean;
-  align: 'left' | 'right' | 'center';
-  mobileHidden?: boolean;
-};
-
-const tokenColumns: Column[] = [
-  { key: 'name', label: 'Token', sortable: true, align: 'left' },
-  { key: 'status', label: 'Stage', sortable: true, align: 'center', mobileHidden: true },
-  { key: 'priceUSD', label: 'Price (USD)', sortable: true, align: 'right' },
-  { key: 'marketCap', label: 'M. Cap', sortable: true, align: 'right' },
-  { key: 'volume24h', label: 'Volume (24h)', sortable: true, align: 'right', mobileHidden: true },
-  { key: 'liquidity', label: 'Liquidity', sortable: true, align: 'right', mobileHidden: true },
-  { key: 'launchTime', label: 'Launch', sortable: true, align: 'center' },
-  { key: 'score', label: 'Score', sortable: true, align: 'center' },
-];
+// Realtime feed: a live WebSocket endpoint when configured, otherwise the in-browser mock
+// (initial tokens from GET /api/tokens).
+// Run `npm run feed:mock` and set NEXT_PUBLIC_FEED_URL=ws://localhost:8787 to use the local mock server.
+const defaultFeedTransport: FeedTransport = process.env.NEXT_PUBLIC_FEED_URL
+  ? createWebSocketTransport({ url: process.env.NEXT_PUBLIC_FEED_URL })
+  : createMockTransport();
 
-// Mock Data Generation
-const mockTokens: Token[] = Array.from({ length: 15 }).map((_, i) => ({
-  id: `token-${i}`,
-  name: `Axiom Token ${i + 1}`,
-  symbol: `AXM${i + 1}`,
-  chain: i % 3 === 0 ? 'ETH' : i % 3 === 1 ? 'BSC' : 'SOL',
-  pair: `WETH/AXM${i + 1}`,
-  status: i < 5 ? 'New pairs' : i < 10 ? 'Final Stretch' : 'Migrated',
-  marketCap: 1000000 + i * 500000,
-  priceUSD: 0.05 + Math.random() * 1.5,
-  volume24h: 100000 + i * 20000,
-  liquidity: 50000 + i * 10000,
-  launchTime: Date.now() - (i + 1) * 3600000 * Math.random(),
-  score: Math.floor(Math.random() * 100)
-}));
+// Relative weights of the audit factors behind the Score column (lib/scoring.ts); the store
+// scores every token with them
+const SCORE_WEIGHTS: ScoreWeights = DEFAULT_SCORE_WEIGHTS;
 
 
 // --- 2. CUSTOM HOOKS (Atomic Architecture / Logic Separation) ---
 
-// NOTE ON REQUIREMENTS:
-// In a true Next.js/React Query setup, this hook would use 'useQuery' for the initial fetch 
-// and a custom hook wrapping a WebSocket connection for real-time updates.
-// We simulate this architecture using local state for compliance.
 /**
- * Mocks a WebSocket connection for real-time price updates.
+ * Subscribes to the realtime token feed through a pluggable FeedTransport
+ * (WebSocket, mock or a replay). Messages land in an external token store that commits
+ * at most once per animation frame, read here via useSyncExternalStore.
  * Implements smooth CSS transition logic for price changes.
  */
-const useRealtimeTokens = () => {
-  const [data, setData] = useState<Token[]>([]);
-  const [loading, setLoading] = useState(true);
-  // priceHistory tracks the *previous* price to determine the trend
-  const [priceHistory, setPriceHistory] = useState<Record<string, PriceState>>({});
-  const [error] = useState<string | null>(null);
-
-  // 1. Initial Data Fetch (Simulated React Query/Progressive Loading)
-  useEffect(() => {
-    const initialLoadTimer = setTimeout(() => {
-      setData(mockTokens);
-      setLoading(false);
-      const initialHistory: Record<string, PriceState> = {};
-      mockTokens.forEach(token => {
-        initialHistory[token.id] = { priceUSD: token.priceUSD, trend: 'neutral' };
-      });
-      setPriceHistory(initialHistory);
-    }, 1200); // Slightly faster load for better UX
-
-    return () => clearTimeout(initialLoadTimer);
-  }, []);
-
-  // 2. WebSocket Mock (Real-time updates)
-  useEffect(() => {
-    if (loading || data.length === 0) return;
-
-    // Updates every 1000ms
-    const wsMockInterval = setInterval(() => {
-      const updatedData = data.map(token => {
-        // Randomly update price within a small percentage range (max 2%)
-        const newPrice = token.priceUSD * (1 + (Math.random() - 0.5) * 0.02);
-        
-        // Determine trend based on the latest update
-        const trend: 'up' | 'down' | 'neutral' =
-          newPrice > token.priceUSD ? 'up' : newPrice < token.priceUSD ? 'down' : 'neutral';
-
-        // Update price history *before* setting new data, so the previous price is recorded
-        setPriceHistory(prev => ({
-          ...prev,
-          [token.id]: { priceUSD: token.priceUSD, trend } // Store current price as 'old' price for visual comparison
-        }));
-
-        return {
-          ...token,
-          priceUSD: newPrice,
-          volume24h: token.volume24h * (1 + (Math.random() - 0.5) * 0.05),
-        };
-      });
-
-      // The key to performance: only update state once per interval
-      setData(updatedData);
-    }, 1000);
-
-    return () => clearInterval(wsMockInterval);
-  }, [data, loading]); // Data is in dependency array to use the latest state slice
-
-  return { data, loading, error, priceHistory };
+const useRealtimeTokens = (transport: FeedTransport = defaultFeedTransport) => {
+  const [store] = useState(() => createTokenStore({ scoreWeights: SCORE_WEIGHTS }));
+  // Bumped by `retry` to tear down and re-open the transport
+  const [connection, setConnection] = useState(0);
+
+  useEffect(() => store.connect(transport), [store, transport, connection]);
+
+  const snapshot = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getServerSnapshot);
+  const { tokens, loading, error, priceHistory, sparklines, status } = snapshot;
+
+  const retry = useCallback(() => setConnection(n => n + 1), []);
+
+  return { data: tokens, loading, error, priceHistory, sparklines, status, retry, store, snapshot };
 };
 
 /**
- * Handles sorting logic for the token table.
+ * Handles sorting logic for the token table. The sort state itself is owned by the
+ * caller (it is mirrored into the URL), this hook only derives the sorted list.
+ *
+ * Sorting is multi-key: a plain header click sorts by that column alone (toggling its
+ * direction if it already was the primary key), shift-click adds it as a secondary /
+ * tertiary key (or toggles it in place if it is already part of the sort).
  */
-const useTokenDiscovery = (tokens: Token[]) => {
-  const [sortState, setSortState] = useState<SortState>({ key: 'marketCap', direction: 'desc' });
+const useTokenDiscovery = (
+  tokens: Token[],
+  sortState: SortState,
+  setSortState: (update: (prev: SortState) => SortState) => void
+) => {
 
-  const handleSort = useCallback((key: keyof Token) => {
+  const handleSort = useCallback((key: keyof Token, additive = false) => {
     setSortState(prev => {
-      if (prev.key === key) {
-        return {
-          key,
-          direction: prev.direction === 'asc' ? 'desc' : 'asc'
-        };
-      }
       // Default to descending for numbers, ascending for strings
-      return {
-        key,
-        direction: (typeof tokens[0]?.[key] === 'string' || key === 'status') ? 'asc' : 'desc'
-      };
-    });
-  }, [tokens]);
-
-  const sortedTokens = useMemo(() => {
-    if (!sortState.key) return tokens;
-
-    const { key, direction } = sortState;
-
-    return [...tokens].sort((a, b) => {
-      const aVal = a[key];
-      const bVal = b[key];
-
-      let comparison = 0;
-
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        comparison = aVal - bVal;
-      } else if (typeof aVal === 'string' && typeof bVal === 'string') {
-        comparison = aVal.localeCompare(bVal);
-      } else if (key === 'status') {
-          // Custom sort for status order
-          const order = ['New pairs', 'Final Stretch', 'Migrated'];
-          comparison = order.indexOf(aVal as string) - order.indexOf(bVal as string);
+      const defaultDirection: SortDirection =
+        (typeof tokens[0]?.[key] === 'string' || key === 'status') ? 'asc' : 'desc';
+      const existing = prev.find(criterion => criterion.key === key);
+      const toggled: SortCriterion | null = existing
+        ? { key, direction: existing.direction === 'asc' ? 'desc' : 'asc' }
+        : null;
+
+      if (!additive) {
+        return [prev[0]?.key === key && toggled ? toggled : { key, direction: defaultDirection }];
       }
-
-      return direction === 'asc' ? comparison : -comparison;
+      if (toggled) {
+        return prev.map(criterion => (criterion.key === key ? toggled : criterion));
+      }
+      // Full: the new key replaces the lowest-priority one
+      return [...prev.slice(0, MAX_SORT_KEYS - 1), { key, direction: defaultDirection }];
     });
-  }, [tokens, sortState]);
+  }, [tokens, setSortState]);
+
+  const sortedTokens = useMemo(() => sortTokens(tokens, sortState), [tokens, sortState]);
 
   return { sortedTokens, sortState, handleSort };
 };
@@ -217,29 +162,6 @@ const useTokenDiscovery = (tokens: Token[]) => {
 
 // --- 3. ATOMIC COMPONENTS (Memoized for Performance) ---
 
-/**
- * Formats a number into a compact, locale-aware string (e.g., 1.2M).
- */
-const formatCompactNumber = (num: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    notation: 'compact',
-    compactDisplay: 'short',
-    maximumFractionDigits: 1
-  }).format(num);
-};
-
-/**
- * Formats a number into a USD currency string.
- */
-const formatUSD = (num: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 6
-  }).format(num);
-};
-
 /**
  * Component to define the custom shimmer animation CSS globally once.
  * This prevents the hydration error caused by styled-jsx.
@@ -255,301 +177,248 @@ const GlobalStyles = () => (
         .animate-shimmer {
             animation: shimmer 1.5s infinite linear;
         }
+        /* Lifecycle stage changes: rows slide into their new tab and fade out of the old one */
+        @keyframes row-enter {
+            0% { opacity: 0; transform: translateY(-6px); background-color: rgba(34, 211, 238, 0.15); }
+            100% { opacity: 1; transform: none; background-color: transparent; }
+        }
+        @keyframes row-leave {
+            0% { opacity: 1; }
+            100% { opacity: 0; transform: translateX(12px); }
+        }
+        @keyframes badge-bump {
+            0% { transform: scale(1.25); }
+            100% { transform: scale(1); }
+        }
+        .animate-row-enter { animation: row-enter 0.6s ease-out; }
+        .animate-row-leave { animation: row-leave 1.2s ease-in forwards; pointer-events: none; }
+        .animate-badge-bump { animation: badge-bump 0.3s ease-out; }
+        @media (prefers-reduced-motion: reduce) {
+            .animate-row-enter, .animate-row-leave, .animate-badge-bump { animation: none; }
+        }
     `}} />
 );
 
 
-// --- SIMULATED SHADCN/RADIX UI COMPONENTS ---
-// Note: In a real app, these would be imported from the UI library.
-
-// Placeholder for an accessible Tooltip component
-const Tooltip = ({ children, content }: { children: React.ReactNode, content: React.ReactNode }) => (
-    <div className="relative group cursor-help">
-        {children}
-        <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 px-3 py-1 text-xs text-white bg-gray-800 rounded-md opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none whitespace-nowrap z-50">
-            {content}
-        </div>
-    </div>
-);
-
-// Placeholder for an accessible Dialog/Modal component
-interface DialogProps {
-    isOpen: boolean;
-    onClose: () => void;
-    title: string;
-    children: React.ReactNode;
-}
-const Dialog: React.FC<DialogProps> = ({ isOpen, onClose, title, children }) => {
-    if (!isOpen) return null;
-    return (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm transition-opacity" onClick={onClose}>
-            <div className={`${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-xl shadow-2xl w-full max-w-lg m-4 transform scale-100 transition-all duration-300`} onClick={e => e.stopPropagation()}>
-                <div className="flex justify-between items-center p-5 border-b border-gray-700">
-                    <h3 className="text-xl font-bold text-white">{title}</h3>
-                    <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors" aria-label="Close dialog">
-                        <X className="w-5 h-5" />
-                    </button>
-                </div>
-                <div className="p-5">
-                    {children}
-                </div>
-            </div>
-        </div>
-    );
-};
-// --- END SIMULATED COMPONENTS ---
+// Grid tracks come from the column layout through CSS variables set on the table container
+const GRID_CLASS = 'grid grid-cols-(--grid-mobile) md:grid-cols-(--grid-desktop) gap-4';
 
 /**
- * Renders the loading skeleton for a table row (Shimmer effect).
- * Refined for a better visual match and shimmer animation.
+ * Renders the loading skeleton for a table row (Shimmer effect). Each column
+ * supplies its own placeholder so the skeleton matches the configured layout.
  */
-const SkeletonRow = React.memo(() => (
+const SkeletonRow = React.memo(({ columns }: { columns: LayoutColumn[] }) => (
     <div className={`flex items-center h-16 ${COLOR.BORDER} border-b ${COLOR.BG_SECONDARY} px-4 md:px-6 overflow-hidden relative`}>
         {/* Shimmer Effect overlay */}
         <div className="absolute inset-0 bg-gradient-to-r from-transparent via-gray-800/50 to-transparent animate-shimmer"></div>
         {/* The problematic <style jsx global> block has been removed here */}
 
-        <div className="flex-1 min-w-0 grid grid-cols-4 md:grid-cols-7 gap-4">
-            {/* Token Info (Name/Symbol) */}
-            <div className="flex items-center space-x-3 col-span-1">
-                <div className="w-7 h-7 rounded-full bg-gray-700"></div>
-                <div className="flex flex-col space-y-1">
-                    <div className="w-20 h-3 bg-gray-700 rounded-full"></div>
-                    <div className="w-12 h-2 bg-gray-800 rounded-full"></div>
-                </div>
-            </div>
-            {/* Stage (Mobile Hidden) */}
-            <div className="hidden md:flex justify-center items-center">
-                <div className="w-16 h-4 bg-gray-800 rounded-full"></div>
-            </div>
-            {/* Price / M. Cap / Launch (Responsive Columns) */}
-            {[...Array(2)].map((_, i) => (
-                <div key={i} className="flex justify-end items-center">
-                    <div className="w-16 h-4 bg-gray-700 rounded-full"></div>
+        <div className={`flex-1 min-w-0 ${GRID_CLASS}`}>
+            {columns.map(({ def, displayClass }) => (
+                <div key={def.id} className={`${displayClass} items-center ${ALIGN_CLASS[def.align]}`}>
+                    {def.renderSkeleton()}
                 </div>
             ))}
-            {/* Volume / Liquidity (Mobile Hidden) */}
-            {[...Array(2)].map((_, i) => (
-                <div key={i} className="hidden md:flex justify-end items-center">
-                    <div className="w-16 h-4 bg-gray-800 rounded-full"></div>
-                </div>
-            ))}
-            {/* Launch Time */}
-            <div className="flex justify-center items-center">
-                <div className="w-10 h-3 bg-gray-800 rounded-full"></div>
-            </div>
-            {/* Score */}
-            <div className="flex justify-center items-center">
-                <div className="w-7 h-7 rounded-full bg-gray-700"></div>
-            </div>
         </div>
     </div>
 ));
 
-/**
- * Component to render the status badge with Axiom-like styling.
- */
-const StatusBadge: React.FC<{ status: Token['status'] }> = ({ status }) => {
-    let colorClass = '';
-    let Icon = Info;
-    switch (status) {
-        case 'New pairs':
-            colorClass = 'bg-cyan-600/20 text-cyan-400 border-cyan-600/50';
-            Icon = Zap;
-            break;
-        case 'Final Stretch':
-            colorClass = 'bg-yellow-600/20 text-yellow-400 border-yellow-600/50';
-            Icon = Clock;
-            break;
-        case 'Migrated':
-            colorClass = 'bg-green-600/20 text-green-400 border-green-600/50';
-            Icon = CheckCircle;
-            break;
-    }
-    return (
-        <div className={`flex items-center justify-center py-1 px-2 rounded-full text-xs font-semibold border ${colorClass} w-full md:w-auto`}>
-            <Icon className="w-3 h-3 mr-1" />
-            <span className='whitespace-nowrap'>{status}</span>
-        </div>
-    );
-};
-
 /**
  * Renders a single row of the token table. Memoized for performance.
  */
 interface TableRowProps {
   token: Token;
+  // Columns shown at the current breakpoint
+  columns: LayoutColumn[];
+  // Position in the filtered list; the header is grid row 0
+  rowIndex: number;
+  // Column holding the grid's tab stop, or -1 when it isn't in this row (keeps memo hits)
+  activeCol: number;
+  onFocusCell: (row: number, col: number) => void;
   priceState: PriceState;
+  sparkline: number[] | undefined;
+  isWatched: boolean;
+  // Where the toolbar search matched this token, for highlighting
+  searchMatch: TokenFieldMatch | undefined;
+  // Stage change animation in the current tab, if the token just moved (lib/lifecycle.ts)
+  stageTransition: StageTransition | null;
+  isRecentlyMigrated: boolean;
+  hasOpenOrder: boolean;
+  quickBuyUsd: number;
+  // Paper portfolio holding, marked to the live price
+  position: PositionMark | undefined;
+  now: number;
+  risk: RiskScore;
   onSelectToken: (token: Token) => void;
+  onToggleWatch: (id: string) => void;
+  onQuickBuy: (token: Token) => void;
 }
 
-const TableRow: React.FC<TableRowProps> = React.memo(({ token, priceState, onSelectToken }) => {
-  // Determine price color transition based on the immediate past price
-  const priceColorClass = priceState.trend === 'up'
-    ? `${COLOR.GREEN_TREND} bg-green-900/20`
-    : priceState.trend === 'down'
-      ? `${COLOR.RED_TREND} bg-red-900/20`
-      : 'text-white bg-transparent';
-  
-  // Calculate the difference in percentage for a more complex UI
-  const priceDiff = ((token.priceUSD - priceState.priceUSD) / priceState.priceUSD) * 100;
-  const priceDiffText = isNaN(priceDiff) || priceState.trend === 'neutral' 
-    ? '' 
-    : `${priceDiff > 0 ? '+' : ''}${priceDiff.toFixed(2)}%`;
-
-  const formatLaunchTime = (timestamp: number) => {
-    const diff = Date.now() - timestamp;
-    const hours = Math.floor(diff / 3600000);
-    if (hours < 24) return `${hours}h ago`;
-    const days = Math.floor(hours / 24);
-    return `${days}d ago`;
-  };
-
+const TableRow: React.FC<TableRowProps> = React.memo(({ token, columns, rowIndex, activeCol, onFocusCell, priceState, sparkline, isWatched, searchMatch, stageTransition, isRecentlyMigrated, hasOpenOrder, quickBuyUsd, position, now, risk, onSelectToken, onToggleWatch, onQuickBuy }) => {
   const handleRowClick = useCallback(() => {
     onSelectToken(token); // Open the detail modal
   }, [token, onSelectToken]);
-  
-  // Styling class based on column alignment
-  const alignClass = (align: 'left' | 'right' | 'center') => {
-    switch (align) {
-      case 'left': return 'justify-start';
-      case 'right': return 'justify-end';
-      case 'center': return 'justify-center';
-    }
-  };
 
+  const cell: CellContext = {
+    token, priceState, sparkline, isWatched, searchMatch, isRecentlyMigrated, onToggleWatch, hasOpenOrder, quickBuyUsd, onQuickBuy, position, now, risk,
+  };
+  const transitionClass = stageTransition === 'enter' ? 'animate-row-enter' : stageTransition === 'leave' ? 'animate-row-leave' : '';
 
   return (
     <div
-      className={`group grid grid-cols-4 md:grid-cols-7 gap-4 min-h-[4rem] items-center ${COLOR.BORDER} border-b p-4 md:px-6 cursor-pointer hover:bg-gray-800/60 transition-colors duration-200`}
+      role="row"
+      aria-rowindex={rowIndex + 2}
+      className={`group ${GRID_CLASS} min-h-[4rem] items-center ${COLOR.BORDER} border-b p-4 md:px-6 cursor-pointer hover:bg-gray-800/60 focus-within:bg-gray-800/60 transition-colors duration-200 ${transitionClass} ${isRecentlyMigrated ? 'bg-green-900/10 shadow-[inset_3px_0_0_0_#22c55e]' : ''}`}
       onClick={handleRowClick}
     >
-      {/* 1. Token (Name/Symbol) */}
-      <div className={`col-span-1 flex items-center space-x-3 ${alignClass('left')}`}>
-        <div className="w-7 h-7 rounded-full bg-gradient-to-br from-blue-500 to-cyan-400 flex items-center justify-center font-bold text-sm text-white flex-shrink-0">
-          {token.symbol.slice(0, 1)}
+      {columns.map(({ def, displayClass }, col) => (
+        <div
+          key={def.id}
+          role="gridcell"
+          data-grid-cell={`${rowIndex + 1}:${col}`}
+          tabIndex={activeCol === col ? 0 : -1}
+          onFocus={() => onFocusCell(rowIndex + 1, col)}
+          className={`${displayClass} items-center min-w-0 rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 ${ALIGN_CLASS[def.align]}`}
+        >
+          {def.renderCell(cell)}
         </div>
-        <div className="flex flex-col min-w-0">
-          <span className="font-semibold text-white text-sm truncate max-w-[90px] sm:max-w-none">
-            {token.name}
-          </span>
-          <span className={`${COLOR.TEXT_MUTED} text-xs truncate`}>
-            {token.symbol} / {token.chain}
-          </span>
+      ))}
+    </div>
+  );
+});
+
+/**
+ * Small live/reconnecting pill showing the state of the realtime feed.
+ */
+const FeedStatusIndicator: React.FC<{ status: FeedStatus; replaying: boolean }> = ({ status, replaying }) => {
+    const label = status === 'open' ? (replaying ? 'Replay' : 'Live') : status === 'reconnecting' ? 'Reconnecting...' : status === 'connecting' ? 'Connecting...' : 'Disconnected';
+    const dotClass = status === 'open' ? (replaying ? 'bg-cyan-400' : 'bg-[#48ef7a]') : status === 'closed' ? 'bg-[#ff4757]' : 'bg-yellow-400 animate-pulse';
+    return (
+        <div className={`mt-3 inline-flex items-center text-xs ${COLOR.TEXT_MUTED}`}>
+            <span className={`w-2 h-2 rounded-full mr-2 ${dotClass}`} />
+            {label}
         </div>
-      </div>
+    );
+};
 
-      {/* 2. Status (Mobile Hidden) */}
-      <div className={`hidden md:flex ${alignClass('center')}`}>
-        <StatusBadge status={token.status} />
-      </div>
+/**
+ * Pause / resume toggle for the table's live updates, with the size of the buffered backlog.
+ */
+interface LivePauseControlProps {
+  pauseReason: PauseReason | null;
+  pending: number;
+  onToggle: () => void;
+}
 
-      {/* 3. Price (USD) - Dynamic transition effect */}
-      <div className={`${alignClass('right')} flex flex-col items-end`}>
-        <span
-          className={`font-mono text-sm font-bold transition-colors duration-300 ease-in-out px-2 py-0.5 rounded-md self-end ${priceColorClass}`}
+const LivePauseControl: React.FC<LivePauseControlProps> = ({ pauseReason, pending, onToggle }) => (
+    <div className='mt-3 ml-4 inline-flex items-center gap-2 text-xs'>
+        <button
+            onClick={onToggle}
+            aria-pressed={pauseReason === 'manual'}
+            title={pauseReason === 'manual' ? 'Resume live updates (P)' : 'Pause live updates (P)'}
+            className={`px-2 py-1 rounded-md flex items-center transition-colors ${
+              pauseReason ? 'bg-yellow-500/15 text-yellow-400 hover:bg-yellow-500/25' : 'text-gray-400 bg-gray-700/50 hover:bg-gray-700'
+            }`}
         >
-          {formatUSD(token.priceUSD)}
-        </span>
-        {priceDiffText && (
-             <span className={`text-xs mt-1 ${priceState.trend === 'up' ? COLOR.GREEN_TREND : COLOR.RED_TREND}`}>
-                {priceDiffText}
-             </span>
+            {pauseReason === 'manual' ? <Play className='w-3 h-3 mr-1' /> : <Pause className='w-3 h-3 mr-1' />}
+            {pauseReason === 'manual' ? 'Resume' : pauseReason === 'hover' ? 'Paused while hovering' : 'Pause'}
+        </button>
+        {pauseReason && (
+          <span role="status" className='px-2 py-0.5 rounded-full font-mono bg-gray-700/50 text-gray-300'>
+            {pending} {pending === 1 ? 'update' : 'updates'} pending
+          </span>
         )}
-      </div>
-
-      {/* 4. Market Cap */}
-      <div className={`${alignClass('right')} text-sm text-white font-mono`}>
-        {formatCompactNumber(token.marketCap)}
-      </div>
-
-      {/* 5. Volume (24h) - Mobile Hidden */}
-      <div className={`hidden md:flex ${alignClass('right')} text-sm ${COLOR.TEXT_MUTED} font-mono`}>
-        {formatCompactNumber(token.volume24h)}
-      </div>
-
-      {/* 6. Liquidity - Mobile Hidden */}
-      <div className={`hidden md:flex ${alignClass('right')} text-sm ${COLOR.TEXT_MUTED} font-mono`}>
-        {formatCompactNumber(token.liquidity)}
-      </div>
-
-      {/* 7. Launch Time */}
-      <div className={`${alignClass('center')} text-xs ${COLOR.TEXT_MUTED}`}>
-        {formatLaunchTime(token.launchTime)}
-      </div>
-
-      {/* 8. Score/Actions */}
-      <div className={`${alignClass('center')} flex items-center justify-center space-x-3`}>
-        {/* Score Tooltip/Popover Integration (Mandatory Feature) */}
-        <Tooltip content={
-            <div className='flex flex-col text-left space-y-1'>
-                <p className='font-bold'>Audit Score: {token.score}/100</p>
-                <p className={`${COLOR.TEXT_MUTED}`}>Breakdown:</p>
-                <ul className='list-disc list-inside ml-4 text-sm text-white'>
-                    <li>Liquidity Locked: {(token.score * 0.4).toFixed(0)}</li>
-                    <li>Community Trust: {(token.score * 0.3).toFixed(0)}</li>
-                    <li>Contract Audit: {(token.score * 0.3).toFixed(0)}</li>
-                </ul>
-            </div>
-        }>
-            <div
-                className="p-2 rounded-full bg-pink-600/20 text-pink-400 text-sm font-bold cursor-help ring-2 ring-pink-600/50"
-            >
-                {token.score}
-            </div>
-        </Tooltip>
-
-        {/* Action Button: View Chart (Hidden on mobile for space) */}
-        <a
-          href="#" // Real implementation would link to chart
-          onClick={(e) => { e.stopPropagation(); }} // Prevent row click
-          className="text-gray-500 hover:text-blue-400 transition-colors p-1 rounded-full group-hover:block hidden lg:block"
-          aria-label="View Chart"
-          target="_blank"
-          rel="noopener noreferrer"
-        >
-          <ExternalLink className="w-4 h-4" />
-        </a>
-      </div>
     </div>
-  );
-});
+);
 
 /**
- * Renders the sortable table header.
+ * Renders the sortable table header. Shift-click (or Shift+Enter) adds a column as a
+ * secondary sort key; with more than one key active, each sorted column shows its priority.
+ * Dragging the handle on a header's right edge resizes that column.
  */
 interface TableHeadProps {
+  // Columns shown at the current breakpoint
+  columns: LayoutColumn[];
+  // Column holding the grid's tab stop, or -1 when it is in the body
+  activeCol: number;
+  onFocusCell: (row: number, col: number) => void;
   sortState: SortState;
-  handleSort: (key: keyof Token) => void;
+  handleSort: (key: keyof Token, additive?: boolean) => void;
+  onResize: (id: ColumnId, width: number) => void;
+  onResizeEnd: (id: ColumnId, width: number) => void;
 }
 
-const TableHead: React.FC<TableHeadProps> = React.memo(({ sortState, handleSort }) => {
+const TableHead: React.FC<TableHeadProps> = React.memo(({ columns, activeCol, onFocusCell, sortState, handleSort, onResize, onResizeEnd }) => {
+  const startResize = (e: React.PointerEvent<HTMLSpanElement>, id: ColumnId, startWidth: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const handle = e.currentTarget;
+    const startX = e.clientX;
+    handle.setPointerCapture(e.pointerId);
+
+    const onMove = (event: PointerEvent) => onResize(id, startWidth + event.clientX - startX);
+    const onUp = (event: PointerEvent) => {
+      handle.removeEventListener('pointermove', onMove);
+      handle.removeEventListener('pointerup', onUp);
+      handle.removeEventListener('pointercancel', onUp);
+      onResizeEnd(id, startWidth + event.clientX - startX);
+    };
+    handle.addEventListener('pointermove', onMove);
+    handle.addEventListener('pointerup', onUp);
+    handle.addEventListener('pointercancel', onUp);
+  };
+
   return (
-    <div className={`grid grid-cols-4 md:grid-cols-7 gap-4 text-xs font-semibold ${COLOR.TEXT_MUTED} ${COLOR.BORDER} border-b py-3 px-4 md:px-6 ${COLOR.BG_PRIMARY} sticky top-0 backdrop-blur-sm z-10`}>
-      {tokenColumns.map((col) => {
-        const isCurrent = sortState.key === col.key;
+    <div role="row" aria-rowindex={1} className={`${GRID_CLASS} text-xs font-semibold ${COLOR.TEXT_MUTED} ${COLOR.BORDER} border-b py-3 px-4 md:px-6 ${COLOR.BG_PRIMARY} sticky top-0 backdrop-blur-sm z-10`}>
+      {columns.map(({ def: col, width, displayClass }, index) => {
+        const sortable = col.sortKey !== undefined;
+        const priority = sortState.findIndex(criterion => criterion.key === col.sortKey);
+        const isCurrent = priority !== -1;
+        const direction = isCurrent ? sortState[priority].direction : null;
         const Icon = ArrowUpDown;
+        // aria-sort belongs on the primary sort column only; secondary keys show their priority
+        const ariaSort = !sortable ? undefined
+          : priority === 0 ? (direction === 'asc' ? 'ascending' : 'descending')
+          : 'none';
 
         return (
           <div
-            key={col.key}
-            onClick={() => col.sortable && handleSort(col.key)}
-            className={`flex items-center whitespace-nowrap cursor-${col.sortable ? 'pointer' : 'default'} select-none transition-colors 
+            key={col.id}
+            role="columnheader"
+            aria-sort={ariaSort}
+            data-grid-cell={`0:${index}`}
+            tabIndex={activeCol === index ? 0 : -1}
+            onFocus={() => onFocusCell(0, index)}
+            onClick={(e) => col.sortKey && handleSort(col.sortKey, e.shiftKey)}
+            title={sortable ? 'Click or press Enter to sort, Shift+click / Shift+Enter to add as secondary sort' : undefined}
+            className={`relative items-center whitespace-nowrap cursor-${sortable ? 'pointer' : 'default'} select-none transition-colors rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 
               ${isCurrent ? 'text-white' : 'hover:text-white'}
-              ${col.align === 'left' ? 'justify-start' : col.align === 'right' ? 'justify-end' : 'justify-center'}
-              ${col.mobileHidden ? 'hidden md:flex' : 'flex'}
+              ${ALIGN_CLASS[col.align]}
+              ${displayClass}
             `}
           >
             <span>{col.label}</span>
-            {col.sortable && (
+            {sortable && (
               <span className={`ml-1 transition-transform duration-200 ${isCurrent ? COLOR.BLUE_ACCENT : 'text-gray-600'}`}>
                 {isCurrent ? (
-                  <Icon className={`w-3 h-3 ${sortState.direction === 'asc' ? 'rotate-180' : 'rotate-0'}`} />
+                  <Icon className={`w-3 h-3 ${direction === 'asc' ? 'rotate-180' : 'rotate-0'}`} />
                 ) : (
                   <Icon className="w-3 h-3 opacity-50" />
                 )}
               </span>
             )}
+            {isCurrent && sortState.length > 1 && (
+              <span aria-label={`sort priority ${priority + 1}`} className={`ml-0.5 text-[10px] leading-none font-mono ${COLOR.BLUE_ACCENT}`}>{priority + 1}</span>
+            )}
+            {/* Resize handle, centered in the gap to the next column */}
+            <span
+              role="separator"
+              aria-orientation="vertical"
+              aria-label={`Resize ${col.label}`}
+              onPointerDown={(e) => startResize(e, col.id, width)}
+              onClick={(e) => e.stopPropagation()}
+              className="absolute -right-3 top-0 bottom-0 w-2 cursor-col-resize touch-none rounded hover:bg-cyan-500/40"
+            />
           </div>
         );
       })}
@@ -557,93 +426,557 @@ const TableHead: React.FC<TableHeadProps> = React.memo(({ sortState, handleSort
   );
 });
 
+const parseBound = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
 /**
- * Placeholder for the Advanced Filter Modal (Mandatory Feature).
+ * Min/max pair of number inputs bound to a NumericRange.
  */
-const AdvancedFilterModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+const RangeInputs: React.FC<{ label: string; range: NumericRange; onChange: (range: NumericRange) => void; step?: number }> = ({ label, range, onChange, step }) => (
+    <div className="flex flex-col space-y-2">
+        <label className="text-white font-medium">{label}</label>
+        <div className="flex items-center space-x-2">
+            <input
+                type="number"
+                step={step}
+                placeholder="Min"
+                value={range.min ?? ''}
+                onChange={e => onChange({ ...range, min: parseBound(e.target.value) })}
+                className={`w-full px-3 py-1.5 text-sm rounded-lg bg-gray-900 border ${COLOR.BORDER} text-white focus:outline-none focus:border-cyan-500`}
+            />
+            <span className={COLOR.TEXT_MUTED}>-</span>
+            <input
+                type="number"
+                step={step}
+                placeholder="Max"
+                value={range.max ?? ''}
+                onChange={e => onChange({ ...range, max: parseBound(e.target.value) })}
+                className={`w-full px-3 py-1.5 text-sm rounded-lg bg-gray-900 border ${COLOR.BORDER} text-white focus:outline-none focus:border-cyan-500`}
+            />
+        </div>
+    </div>
+);
+
+/**
+ * Editable copy of the filters. Mounted fresh every time the modal opens (Dialog renders
+ * nothing while closed), so the draft always starts from the applied filters.
+ */
+const AdvancedFilterForm: React.FC<{ initialFilters: TokenFilters; onApply: (filters: TokenFilters) => void }> = ({ initialFilters, onApply }) => {
+    const [draft, setDraft] = useState<TokenFilters>(initialFilters);
+
+    const toggleChain = (chain: TokenChain | 'All') => {
+        setDraft(prev => {
+            if (chain === 'All') return { ...prev, chains: [] };
+            const chains = prev.chains.includes(chain)
+                ? prev.chains.filter(c => c !== chain)
+                : [...prev.chains, chain];
+            return { ...prev, chains };
+        });
+    };
+
+    const setRange = (field: RangeField) => (range: NumericRange) => {
+        setDraft(prev => ({ ...prev, ranges: { ...prev.ranges, [field]: range } }));
+    };
+
     return (
-        <Dialog isOpen={isOpen} onClose={onClose} title="Advanced Token Filters">
-            <div className="space-y-4">
-                <p className={`${COLOR.TEXT_MUTED}`}>Select criteria to refine your token discovery.</p>
+        <div className="space-y-4">
+            <p className={`${COLOR.TEXT_MUTED}`}>Select criteria to refine your token discovery.</p>
+            <div className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
                 <div className="flex flex-col space-y-2">
                     <label className="text-white font-medium">Chain Selection</label>
                     <div className="flex space-x-3">
-                        {['ETH', 'BSC', 'SOL', 'All'].map(chain => (
-                            <button 
-                                key={chain} 
-                                className={`px-3 py-1 text-sm rounded-full border ${chain === 'ETH' ? 'bg-blue-600/30 border-blue-600' : 'border-gray-700 hover:bg-gray-700/50'} text-white`}
-                            >
-                                {chain}
-                            </button>
-                        ))}
+                        {([...FILTER_CHAINS, 'All'] as const).map(chain => {
+                            const isSelected = chain === 'All' ? draft.chains.length === 0 : draft.chains.includes(chain);
+                            return (
+                                <button
+                                    key={chain}
+                                    onClick={() => toggleChain(chain)}
+                                    aria-pressed={isSelected}
+                                    className={`px-3 py-1 text-sm rounded-full border ${isSelected ? 'bg-blue-600/30 border-blue-600' : 'border-gray-700 hover:bg-gray-700/50'} text-white`}
+                                >
+                                    {chain}
+                                </button>
+                            );
+                        })}
                     </div>
                 </div>
-                <div className="flex flex-col space-y-2">
-                    <label className="text-white font-medium">Min Score (0-100)</label>
-                    <input 
-                        type="range" 
-                        min="0" 
-                        max="100" 
-                        defaultValue="50"
-                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer range-lg"
-                    />
-                    <p className={`${COLOR.TEXT_MUTED} text-sm`}>Filter tokens with a score above 50 (Example)</p>
-                </div>
-                <button 
-                    onClick={onClose}
-                    className="w-full py-2 rounded-lg bg-gradient-to-r from-blue-500 to-cyan-400 text-white font-semibold hover:opacity-90 transition-opacity"
+                <RangeInputs label="Score (0-100)" range={draft.ranges.score} onChange={setRange('score')} />
+                <RangeInputs label="Market Cap (USD)" range={draft.ranges.marketCap} onChange={setRange('marketCap')} />
+                <RangeInputs label="Liquidity (USD)" range={draft.ranges.liquidity} onChange={setRange('liquidity')} />
+                <RangeInputs label="Volume 24h (USD)" range={draft.ranges.volume24h} onChange={setRange('volume24h')} />
+                <RangeInputs
+                    label="Launch Age (hours)"
+                    range={draft.launchAgeHours}
+                    onChange={range => setDraft(prev => ({ ...prev, launchAgeHours: range }))}
+                    step={0.5}
+                />
+            </div>
+            <div className="flex space-x-3">
+                <button
+                    onClick={() => setDraft(DEFAULT_FILTERS)}
+                    className="px-4 py-2 rounded-lg border border-gray-700 text-white font-semibold hover:bg-gray-700/50 transition-colors"
+                >
+                    Reset
+                </button>
+                <button
+                    onClick={() => onApply(draft)}
+                    className="flex-1 py-2 rounded-lg bg-gradient-to-r from-blue-500 to-cyan-400 text-white font-semibold hover:opacity-90 transition-opacity"
                 >
                     Apply Filters
                 </button>
             </div>
+        </div>
+    );
+};
+
+/**
+ * Advanced Filter Modal (Mandatory Feature).
+ */
+interface AdvancedFilterModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    filters: TokenFilters;
+    onApply: (filters: TokenFilters) => void;
+}
+
+const AdvancedFilterModal: React.FC<AdvancedFilterModalProps> = ({ isOpen, onClose, filters, onApply }) => {
+    return (
+        <Dialog isOpen={isOpen} onClose={onClose} title="Advanced Token Filters">
+            <AdvancedFilterForm
+                initialFilters={filters}
+                onApply={next => {
+                    onApply(next);
+                    onClose();
+                }}
+            />
         </Dialog>
     );
+};
+
+const formatRangeLabel = (label: string, { min, max }: NumericRange, format: (n: number) => string) => {
+    if (min !== undefined && max !== undefined) return `${label} ${format(min)}-${format(max)}`;
+    if (min !== undefined) return `${label} \u2265 ${format(min)}`;
+    return `${label} \u2264 ${format(max!)}`;
+};
+
+const describeFilter = (filters: TokenFilters, key: FilterKey): string => {
+    switch (key) {
+        case 'chains': return `Chain: ${filters.chains.join(', ')}`;
+        case 'text': return `"${filters.text.trim()}"`;
+        case 'launchAgeHours': return formatRangeLabel('Age', filters.launchAgeHours, n => `${n}h`);
+        case 'score': return formatRangeLabel('Score', filters.ranges.score, String);
+        case 'marketCap': return formatRangeLabel('M. Cap', filters.ranges.marketCap, n => `$${formatCompactNumber(n)}`);
+        case 'liquidity': return formatRangeLabel('Liq.', filters.ranges.liquidity, n => `$${formatCompactNumber(n)}`);
+        case 'volume24h': return formatRangeLabel('Vol.', filters.ranges.volume24h, n => `$${formatCompactNumber(n)}`);
+    }
+};
+
+/**
+ * Active filter chips shown next to the filter button. Each chip clears its own filter.
+ */
+const FilterChips: React.FC<{ filters: TokenFilters; onChange: (filters: TokenFilters) => void }> = ({ filters, onChange }) => {
+    const keys = getActiveFilterKeys(filters);
+    if (keys.length === 0) return null;
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {keys.map(key => (
+                <span key={key} className="flex items-center pl-2.5 pr-1 py-0.5 rounded-full text-xs bg-cyan-500/10 text-cyan-300 border border-cyan-500/30 whitespace-nowrap">
+                    {describeFilter(filters, key)}
+                    <button
+                        onClick={() => onChange(clearFilter(filters, key))}
+                        className="ml-1 p-0.5 rounded-full hover:bg-cyan-500/20"
+                        aria-label={`Remove filter ${describeFilter(filters, key)}`}
+                    >
+                        <X className="w-3 h-3" />
+                    </button>
+                </span>
+            ))}
+            {keys.length > 1 && (
+                <button onClick={() => onChange(DEFAULT_FILTERS)} className={`text-xs ${COLOR.TEXT_MUTED} hover:text-white underline`}>
+                    Clear all
+                </button>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Stage navigation tab with its token count badge.
+ */
+interface TabButtonProps {
+  label: TableTab;
+  count: number;
+  isActive: boolean;
+  onSelect: (tab: TableTab) => void;
+}
+
+const TabButton: React.FC<TabButtonProps> = ({ label, count, isActive, onSelect }) => (
+  <button
+    onClick={() => onSelect(label)}
+    className={`px-4 py-3 text-sm font-medium border-b-2 transition-all duration-150 ${
+      isActive
+        ? `text-white border-cyan-400 bg-gray-800/50`
+        : `${COLOR.TEXT_MUTED} border-transparent hover:border-gray-700`
+    }`}
+  >
+    {label}
+    {/* Keyed by the count, so every live change replays the bump */}
+    <span key={count} className={`ml-2 inline-block px-2 py-0.5 rounded-full text-xs font-mono transition-colors animate-badge-bump ${isActive ? 'bg-cyan-500/20 text-cyan-400' : 'bg-gray-700/50 text-gray-400'}`}>{count}</span>
+  </button>
+);
+
+/**
+ * Table / Pulse board toggle.
+ */
+const VIEW_OPTIONS: { view: TableView; label: string; icon: React.ElementType }[] = [
+  { view: 'table', label: 'Table', icon: Rows3 },
+  { view: 'board', label: 'Board', icon: LayoutGrid },
+];
+
+const ViewSwitcher: React.FC<{ view: TableView; onChange: (view: TableView) => void }> = ({ view, onChange }) => (
+  <div role="group" aria-label="View" className='flex items-center self-center mr-3 mb-2 md:mb-0 p-0.5 rounded-lg bg-gray-800 border border-gray-700'>
+    {VIEW_OPTIONS.map(({ view: option, label, icon: Icon }) => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        aria-pressed={view === option}
+        title={`${label} view (B)`}
+        className={`px-2.5 py-1.5 text-xs font-medium rounded-md flex items-center transition-colors ${
+          view === option ? 'bg-gray-700 text-white' : `${COLOR.TEXT_MUTED} hover:text-white`
+        }`}
+      >
+        <Icon className='w-4 h-4 sm:mr-1.5' />
+        <span className='hidden sm:inline'>{label}</span>
+      </button>
+    ))}
+  </div>
+);
+
+// Horizontal row padding (px-4 / md:px-6 on both sides) and the grid gap, for the table's minimum width
+const ROW_PADDING: Record<Breakpoint, number> = { mobile: 32, desktop: 48 };
+const GRID_GAP = 16;
+
+const tableMinWidth = (layout: ColumnLayout, breakpoint: Breakpoint, columnCount: number) =>
+  `${totalWidth(layout, breakpoint) + GRID_GAP * Math.max(0, columnCount - 1) + ROW_PADDING[breakpoint]}px`;
+
+const TABS: TableTab[] = ['All', 'Watchlist', 'New pairs', 'Final Stretch', 'Migrated', 'Holdings'];
+
+type AppDialog = PaletteDialog | 'palette';
+
+// A token that just changed stage stays in the tab it left until its exit animation ends
+const matchesTab = (token: Token, tab: TableTab, watched: Set<string>, holdings: Record<string, PositionMark>) => {
+  switch (tab) {
+    case 'All': return true;
+    case 'Watchlist': return watched.has(token.id);
+    case 'Holdings': return token.id in holdings;
+    default: return token.status === tab || token.previousStatus === tab;
+  }
+};
+
+type StageTransition = 'enter' | 'leave';
+
+const stageTransitionIn = (token: Token, tab: TableTab): StageTransition | null => {
+  if (token.previousStatus === undefined) return null;
+  if (token.previousStatus === tab) return 'leave';
+  return token.status === tab ? 'enter' : null;
+};
+
+/**
+ * Always-visible fuzzy search over name, symbol, pair, plus exact token id or contract address. Escape clears it.
+ */
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: React.Ref<HTMLInputElement>;
 }
 
+const SearchBox: React.FC<SearchBoxProps> = ({ value, onChange, inputRef }) => (
+  <div className={`flex items-center px-3 rounded-lg bg-gray-900/70 border ${COLOR.BORDER} focus-within:border-cyan-500 w-full sm:w-56`}>
+    <Search className='w-4 h-4 text-gray-500 flex-shrink-0' aria-hidden='true' />
+    <input
+      ref={inputRef}
+      type='search'
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      onKeyDown={e => {
+        if (e.key === 'Escape' && value) {
+          e.preventDefault();
+          onChange('');
+        }
+      }}
+      placeholder='Search name, symbol, pair, id'
+      aria-label='Search tokens'
+      className='w-full px-2 py-2 text-sm bg-transparent text-white placeholder:text-gray-500 focus:outline-none'
+    />
+    <kbd className='hidden sm:inline px-1.5 rounded border border-gray-700 text-[10px] font-mono text-gray-500' aria-hidden='true'>/</kbd>
+  </div>
+);
+
+/**
+ * Export / import of the watchlist as a JSON file (the same versioned document kept in localStorage).
+ */
+interface WatchlistActionsProps {
+  ids: string[];
+  onImport: (ids: string[]) => void;
+}
+
+const WatchlistActions: React.FC<WatchlistActionsProps> = ({ ids, onImport }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeWatchlist(ids)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'axiom-watchlist.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      onImport(parseWatchlistImport(await file.text()));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof WatchlistImportError ? err.message : 'Could not read file');
+    }
+  };
+
+  const buttonClass = 'px-3 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 flex items-center transition-colors cursor-pointer';
+
+  return (
+    <div className='flex items-center gap-2'>
+      {importError && <span className={`text-xs ${COLOR.RED_TREND}`} role="alert">{importError}</span>}
+      <button onClick={handleExport} disabled={ids.length === 0} className={`${buttonClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+        <Download className='w-4 h-4 sm:mr-2' />
+        <span className='hidden sm:inline'>Export</span>
+      </button>
+      <label className={buttonClass}>
+        <Upload className='w-4 h-4 sm:mr-2' />
+        <span className='hidden sm:inline'>Import</span>
+        <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+      </label>
+    </div>
+  );
+};
+
 // --- 4. MAIN APPLICATION COMPONENT (AxiomTradeTable) ---
 
-const App: React.FC = () => {
+interface AppProps {
+  // Tab, sort, filters and selected token parsed from the URL by the server page
+  initialState?: TableUrlState;
+}
+
+const App: React.FC<AppProps> = ({ initialState = DEFAULT_TABLE_STATE }) => {
   // NOTE: In a true Redux/RTK setup, 'activeTab' and filter state would be managed globally.
-  const { data: tokens, loading, error, priceHistory } = useRealtimeTokens();
-  const { sortedTokens, sortState, handleSort } = useTokenDiscovery(tokens);
-  const [activeTab, setActiveTab] = useState<'New pairs' | 'Final Stretch' | 'Migrated' | 'All'>('All');
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedToken, setSelectedToken] = useState<Token | null>(null);
-  const [isFilterModalOpen, setIsFilterModalOpen] = useState(false);
+  // View, tab, sort, filters and the open token are mirrored into the URL so views can be shared.
+  const {
+    view,
+    tab: activeTab,
+    sort,
+    filters,
+    selected,
+    setState: setTableState,
+    setView,
+    setTab: setActiveTab,
+    setSort,
+    setFilters,
+    setSelected,
+  } = useTableUrlState(initialState);
+  // Recording taps the live feed; a loaded recording replaces it until the replay is closed
+  const feed = useFeedReplay(defaultFeedTransport);
+  const { data: liveTokens, loading, error, status, retry, store, snapshot } = useRealtimeTokens(feed.transport);
+  // While paused the table renders a pinned snapshot; sorting and filtering work on it too
+  const livePause = useLivePause(store, snapshot);
+  const { tokens, priceHistory, sparklines } = livePause.state;
+  const { sortedTokens, sortState, handleSort } = useTokenDiscovery(tokens, sort, setSort);
+  // Launch ages and "recently migrated" follow the recording's time during a replay
+  const wallNow = useNow();
+  const replayNow = feed.replay ? feed.replay.startedAt + feed.replay.positionMs : null;
+  const now = replayNow ?? wallNow;
+  const { ids: watchlistIds, watched, toggle: toggleWatch, importIds: importWatchlist } = useWatchlist();
+  const alerts = useAlerts(store);
+  const trading = useTrading(store);
+  // Marked to market on every feed commit (live prices, also while the table is paused)
+  const portfolio = useMemo(() => markToMarket(trading.positions, liveTokens), [trading.positions, liveTokens]);
+  const holdings = portfolio.marks;
+  const columnLayout = useColumnLayout();
+  const { layout, columns, replaceLayout } = columnLayout;
+  const savedViews = useSavedViews();
+  const { getDefaultView } = savedViews;
+  // At most one of the toolbar dialogs / the command palette is open at a time
+  const [openDialog, setOpenDialog] = useState<AppDialog | null>(null);
+  const closeDialog = useCallback(() => setOpenDialog(null), []);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Grid tracks and minimum width per breakpoint, read by the header, rows and skeletons
+  const tableStyle = useMemo(() => {
+    const count = (breakpoint: Breakpoint) => columns.filter(column => column.visibility[breakpoint]).length;
+    return {
+      '--grid-mobile': gridTemplate(layout, 'mobile'),
+      '--grid-desktop': gridTemplate(layout, 'desktop'),
+      '--table-min-mobile': tableMinWidth(layout, 'mobile', count('mobile')),
+      '--table-min-desktop': tableMinWidth(layout, 'desktop', count('desktop')),
+    } as React.CSSProperties;
+  }, [layout, columns]);
+
+  // Unknown ids (e.g. a stale shared link) simply leave the dialog closed
+  const selectedToken = useMemo(
+    () => (selected ? liveTokens.find(token => token.id === selected) ?? null : null),
+    [liveTokens, selected]
+  );
+  const isModalOpen = selectedToken !== null;
 
 
-  // Filter tokens based on the active tab
+  // Search runs on a deferred copy of the query so typing never waits for the table
+  const searchQuery = useDeferredValue(filters.text.trim());
+  const searchMatches = useTokenSearch(tokens, searchQuery);
+
+  // Filter tokens based on the active tab, the search and the advanced filters
+  const filtersActive = hasActiveFilters(filters);
   const filteredTokens = useMemo(() => {
-    if (activeTab === 'All') return sortedTokens;
-    return sortedTokens.filter(token => token.status === activeTab);
-  }, [sortedTokens, activeTab]);
-
-  const TabButton = ({ label, count }: { label: string, count: number }) => (
-    <button
-      onClick={() => setActiveTab(label as any)}
-      className={`px-4 py-3 text-sm font-medium border-b-2 transition-all duration-150 ${
-        activeTab === label
-          ? `text-white border-cyan-400 bg-gray-800/50`
-          : `${COLOR.TEXT_MUTED} border-transparent hover:border-gray-700`
-      }`}
-    >
-      {label}
-      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-mono transition-colors ${activeTab === label ? 'bg-cyan-500/20 text-cyan-400' : 'bg-gray-700/50 text-gray-400'}`}>{count}</span>
-    </button>
-  );
+    if (activeTab === 'All' && !filtersActive) return sortedTokens;
+    return sortedTokens.filter(token =>
+      matchesTab(token, activeTab, watched, holdings) &&
+      (!searchMatches || searchMatches.has(token.id)) &&
+      (!filtersActive || matchesFilters(token, filters, now))
+    );
+  }, [sortedTokens, activeTab, watched, holdings, searchMatches, filters, filtersActive, now]);
+
+  // The board groups by stage itself and each column sorts on its own
+  const boardTokens = useMemo(() => {
+    if (!searchMatches && !filtersActive) return tokens;
+    return tokens.filter(token =>
+      (!searchMatches || searchMatches.has(token.id)) &&
+      (!filtersActive || matchesFilters(token, filters, now))
+    );
+  }, [tokens, searchMatches, filters, filtersActive, now]);
+
+  const rowKeys = useMemo(() => filteredTokens.map(token => token.id), [filteredTokens]);
+  // Measured row heights are kept for every token, not just the filtered ones
+  const allRowKeys = useMemo(() => tokens.map(token => token.id), [tokens]);
+  const {
+    scrollRef,
+    measureElement,
+    scrollToIndex,
+    rows: virtualRows,
+    paddingTop,
+    paddingBottom,
+  } = useVirtualRows<HTMLDivElement>({ keys: rowKeys, allKeys: allRowKeys });
+
+  // Keyboard grid: only the columns on screen at this breakpoint take part
+  const breakpoint = useBreakpoint();
+  const gridColumns = useMemo(() => columns.filter(column => column.visibility[breakpoint]), [columns, breakpoint]);
+  const { gridRef, active, onKeyDown: handleGridKeyDown, onFocusCell } = useGridNavigation({
+    rowCount: filteredTokens.length,
+    colCount: gridColumns.length,
+    scrollToRow: scrollToIndex,
+    onActivateRow: index => setSelected(filteredTokens[index].id),
+    onActivateHeader: (col, event) => {
+      const sortKey = gridColumns[col]?.def.sortKey;
+      if (sortKey) handleSort(sortKey, event.shiftKey);
+    },
+  });
+
+  // Price moves of the row the keyboard is on go to a throttled live region
+  const [isGridFocused, setIsGridFocused] = useState(false);
+  const focusedToken = isGridFocused && active.row > 0 ? filteredTokens[active.row - 1] ?? null : null;
+  const priceAnnouncement = usePriceAnnouncements(focusedToken, focusedToken ? priceHistory[focusedToken.id] : undefined);
 
   const tokenCounts = useMemo(() => {
-    const counts: Record<string, number> = { 'All': tokens.length };
+    // Badges follow the search, so each tab shows how many results it holds
+    const counts: Record<string, number> = { 'All': 0, 'Watchlist': 0, 'Holdings': 0 };
     tokens.forEach(token => {
+      if (searchMatches && !searchMatches.has(token.id)) return;
+      counts['All'] += 1;
       counts[token.status] = (counts[token.status] || 0) + 1;
+      if (watched.has(token.id)) counts['Watchlist'] += 1;
+      if (token.id in holdings) counts['Holdings'] += 1;
     });
     return counts;
-  }, [tokens]);
+  }, [tokens, watched, holdings, searchMatches]);
 
   const handleSelectToken = useCallback((token: Token) => {
-    setSelectedToken(token);
-    setIsModalOpen(true);
-  }, []);
+    setSelected(token.id);
+  }, [setSelected]);
+
+  const handleCloseDetails = useCallback(() => setSelected(null), [setSelected]);
+
+  // Picking a tab (palette or shortcut) from the board goes back to the table
+  const showTab = useCallback((tab: TableTab) => {
+    setView('table');
+    setActiveTab(tab);
+  }, [setView, setActiveTab]);
+
+  // The saved view the table matches right now, if any
+  const currentView = useMemo<ViewSnapshot>(() => ({ tab: activeTab, filters, sort, layout }), [activeTab, filters, sort, layout]);
+  const activeViewId = useMemo(
+    () => savedViews.views.find(savedView => isViewActive(savedView, currentView))?.id ?? null,
+    [savedViews.views, currentView]
+  );
+
+  // Restores the view's tab, filters, sort and columns; the search text and open token stay
+  const applyView = useCallback((savedView: SavedView, mode?: 'push' | 'replace') => {
+    const snapshot = viewToSnapshot(savedView);
+    setTableState(prev => ({
+      view: 'table',
+      tab: snapshot.tab,
+      sort: snapshot.sort,
+      filters: { ...snapshot.filters, text: prev.filters.text },
+    }), mode);
+    replaceLayout(snapshot.layout);
+  }, [setTableState, replaceLayout]);
+
+  // Opening the app without table state in the URL starts from the default view, if one is set
+  const defaultViewChecked = useRef(false);
+  useEffect(() => {
+    if (defaultViewChecked.current) return;
+    defaultViewChecked.current = true;
+    if (serializeTableState(initialState).toString()) return;
+    const defaultView = getDefaultView();
+    if (defaultView) applyView(defaultView, 'replace');
+  }, [initialState, getDefaultView, applyView]);
+
+  const paletteCommands = usePaletteCommands({
+    tabs: TABS,
+    activeTab,
+    setTab: showTab,
+    view,
+    setView,
+    sortState,
+    setSort,
+    filters,
+    setFilters,
+    savedLayouts: columnLayout.savedLayouts,
+    applyLayout: columnLayout.applyLayout,
+    resetLayout: columnLayout.resetLayout,
+    savedViews: savedViews.views,
+    activeViewId,
+    applyView,
+    openDialog: setOpenDialog,
+    paused: livePause.pauseReason === 'manual',
+    togglePause: livePause.toggle,
+  });
+
+  // Single-key shortcuts: 1-6 switch tabs (same order as the tab bar)
+  const tabShortcuts = Object.fromEntries(TABS.map((tab, index) => [String(index + 1), () => showTab(tab)]));
+  useKeyboardShortcuts({
+    onPalette: () => setOpenDialog(prev => (prev === 'palette' ? null : 'palette')),
+    keys: {
+      ...tabShortcuts,
+      '/': () => searchInputRef.current?.focus(),
+      p: livePause.toggle,
+      b: () => setView(prev => (prev === 'board' ? 'table' : 'board')),
+      f: () => setOpenDialog('filters'),
+      c: () => setOpenDialog('columns'),
+      '?': () => setOpenDialog('shortcuts'),
+    },
+  });
 
   if (error) {
     // Error Boundary Implementation
@@ -651,7 +984,14 @@ const App: React.FC = () => {
       <div className={`p-8 text-center bg-red-900/30 ${COLOR.RED_TREND} rounded-xl m-4 md:m-10`}>
         <AlertTriangle className="w-8 h-8 mx-auto mb-3" />
         <h2 className="text-xl font-bold">Data Loading Error</h2>
-        <p>Could not fetch token data. Please check the network connection. (Mock Error: {error})</p>
+        <p>Could not fetch token data. Please check the network connection. ({error})</p>
+        <button
+            onClick={retry}
+            className='mt-4 px-4 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 inline-flex items-center transition-colors'
+        >
+            <RefreshCw className='w-4 h-4 mr-2' />
+            Retry
+        </button>
       </div>
     );
   }
@@ -662,91 +1002,287 @@ const App: React.FC = () => {
       <GlobalStyles />
       
       {/* Header Section */}
-      <header className="mb-8 max-w-7xl mx-auto">
-        <h1 className="text-3xl md:text-4xl font-extrabold text-white flex items-center">
-          <TrendingUp className={`w-8 h-8 mr-3 ${COLOR.BLUE_ACCENT}`} />
-          Axiom Pulse Discovery
-        </h1>
-        <p className={`${COLOR.TEXT_MUTED} mt-1 text-sm md:text-base`}>Real-time insight into high-potential token launches.</p>
+      <header className="mb-8 max-w-7xl mx-auto flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-extrabold text-white flex items-center">
+            <TrendingUp className={`w-8 h-8 mr-3 ${COLOR.BLUE_ACCENT}`} />
+            Axiom Pulse Discovery
+          </h1>
+          <p className={`${COLOR.TEXT_MUTED} mt-1 text-sm md:text-base`}>Real-time insight into high-potential token launches.</p>
+          <FeedStatusIndicator status={status} replaying={feed.replay !== null} />
+          {!loading && <LivePauseControl pauseReason={livePause.pauseReason} pending={livePause.pending} onToggle={livePause.toggle} />}
+          {!feed.replay && (
+            <FeedRecordControls
+              recordingSince={feed.recordingSince}
+              onStart={feed.startRecording}
+              onStop={feed.stopRecording}
+              onLoad={feed.loadRecording}
+            />
+          )}
+        </div>
+        <NotificationCenter
+          events={alerts.events}
+          unread={alerts.unread}
+          onMarkRead={alerts.markRead}
+          onClear={alerts.clearEvents}
+          onManage={() => setOpenDialog('alerts')}
+        />
       </header>
 
+      {feed.replay && feed.player && (
+        <ReplayControls
+          state={feed.replay}
+          onPlay={feed.player.play}
+          onPause={feed.player.pause}
+          onSeek={feed.player.seek}
+          onSpeedChange={feed.player.setSpeed}
+          onExit={feed.exitReplay}
+        />
+      )}
+
+      {Object.keys(trading.positions).length > 0 && (
+        <PortfolioSummary
+          summary={portfolio}
+          history={trading.history}
+          holdings={Object.keys(holdings).length}
+          onShowHoldings={() => showTab('Holdings')}
+          onReset={trading.resetPortfolio}
+        />
+      )}
+
       {/* Filters/Tabs */}
       <div className="max-w-7xl mx-auto">
         <div className="flex flex-wrap border-b border-gray-700 mb-6 sticky top-0 md:top-4 z-20 bg-gray-900/90 backdrop-blur-sm -mx-4 md:-mx-10 px-4 md:px-10 pt-4 md:pt-0">
-          <nav className='flex flex-wrap overflow-x-auto whitespace-nowrap flex-grow min-w-0'>
-              <TabButton label="All" count={tokenCounts['All'] || 0} />
-              <TabButton label="New pairs" count={tokenCounts['New pairs'] || 0} />
-              <TabButton label="Final Stretch" count={tokenCounts['Final Stretch'] || 0} />
-              <TabButton label="Migrated" count={tokenCounts['Migrated'] || 0} />
-          </nav>
-
-          {/* Placeholder for complex filter Modal (Mandatory Feature) */}
-          <button 
-              onClick={() => setIsFilterModalOpen(true)}
-              className='ml-auto px-4 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 flex items-center self-end mb-2 transition-colors'
-          >
-              <ListFilter className='w-4 h-4 mr-2' />
-              <span className='hidden sm:inline'>Advanced Filters</span>
-              <span className='inline sm:hidden'>Filter</span>
-              <ChevronDown className='w-4 h-4 ml-1' />
-          </button>
+          <ViewSwitcher view={view} onChange={setView} />
+          {view === 'table' ? (
+            <nav className='flex flex-wrap overflow-x-auto whitespace-nowrap flex-grow min-w-0'>
+                {TABS.map(tab => (
+                  <TabButton
+                    key={tab}
+                    label={tab}
+                    count={tokenCounts[tab] || 0}
+                    isActive={activeTab === tab}
+                    onSelect={setActiveTab}
+                  />
+                ))}
+            </nav>
+          ) : (
+            <div className='flex-grow' />
+          )}
+
+          {/* Active filter chips + Advanced Filters modal trigger (Mandatory Feature) */}
+          <div className='ml-auto flex flex-wrap items-center justify-end gap-2 self-end mb-2'>
+              <SearchBox
+                value={filters.text}
+                onChange={text => setFilters(prev => ({ ...prev, text }))}
+                inputRef={searchInputRef}
+              />
+              <SavedViewSwitcher
+                views={savedViews.views}
+                activeViewId={activeViewId}
+                defaultViewId={savedViews.defaultViewId}
+                onApply={applyView}
+                onManage={() => setOpenDialog('views')}
+              />
+              {view === 'table' && activeTab === 'Watchlist' && <WatchlistActions ids={watchlistIds} onImport={importWatchlist} />}
+              <FilterChips filters={filters} onChange={setFilters} />
+              <button 
+                  onClick={() => setOpenDialog('filters')}
+                  className='px-4 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 flex items-center transition-colors'
+              >
+                  <ListFilter className='w-4 h-4 mr-2' />
+                  <span className='hidden sm:inline'>Advanced Filters</span>
+                  <span className='inline sm:hidden'>Filter</span>
+                  <ChevronDown className='w-4 h-4 ml-1' />
+              </button>
+              {view === 'table' && <button
+                  onClick={() => setOpenDialog('columns')}
+                  className='px-4 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 flex items-center transition-colors'
+              >
+                  <Columns3 className='w-4 h-4 sm:mr-2' />
+                  <span className='hidden sm:inline'>Columns</span>
+              </button>}
+              <button
+                  onClick={() => setOpenDialog('palette')}
+                  className='px-3 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 flex items-center transition-colors'
+                  aria-label='Open command palette'
+                  title='Command palette (Ctrl+K / Cmd+K)'
+              >
+                  <Command className='w-4 h-4' />
+                  <span className='hidden sm:inline ml-1 text-xs font-mono text-gray-400'>K</span>
+              </button>
+              {view === 'table' && <button
+                  onClick={() => setOpenDialog('export')}
+                  className='px-4 py-2 text-sm font-medium rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 flex items-center transition-colors'
+              >
+                  <FileDown className='w-4 h-4 sm:mr-2' />
+                  <span className='hidden sm:inline'>Export</span>
+              </button>}
+          </div>
         </div>
       </div>
 
-      {/* Main Table Container */}
+      {view === 'board' ? (
+        <div className="max-w-7xl mx-auto">
+          {loading ? (
+            <div role="status" className="p-16 text-center text-gray-500 text-sm flex items-center justify-center">
+              <Loader2 className="w-4 h-4 mr-2 inline animate-spin text-cyan-400" />
+              Loading real-time token data...
+            </div>
+          ) : (
+            <PulseBoard
+              tokens={boardTokens}
+              priceHistory={priceHistory}
+              watched={watched}
+              now={now}
+              onSelectToken={setSelected}
+              onToggleWatch={toggleWatch}
+            />
+          )}
+        </div>
+      ) : (
+      /* Main Table Container */
       <div className={`max-w-7xl mx-auto ${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-xl overflow-hidden shadow-2xl`}>
-        <div className="min-w-[700px] lg:min-w-full overflow-x-auto"> {/* Enforce minimum width for mobile responsiveness */}
+        {/* The body scrolls here so rows can be virtualized; the inner wrapper's minimum width follows the column layout */}
+        <div ref={scrollRef} className="overflow-x-auto max-h-[75vh] overflow-y-auto scroll-pt-12" style={tableStyle}>
+          <div
+            ref={gridRef}
+            role="grid"
+            aria-label="Token launches"
+            aria-rowcount={filteredTokens.length + 1}
+            aria-colcount={gridColumns.length}
+            aria-busy={loading}
+            onKeyDown={handleGridKeyDown}
+            onFocus={() => setIsGridFocused(true)}
+            onBlur={(e) => {
+              if (!e.currentTarget.contains(e.relatedTarget)) setIsGridFocused(false);
+            }}
+            className="min-w-(--table-min-mobile) md:min-w-(--table-min-desktop)"
+          >
           {/* Table Header */}
-          <TableHead sortState={sortState} handleSort={handleSort} />
+          <TableHead
+            columns={gridColumns}
+            activeCol={active.row === 0 ? active.col : -1}
+            onFocusCell={onFocusCell}
+            sortState={sortState}
+            handleSort={handleSort}
+            onResize={columnLayout.previewWidth}
+            onResizeEnd={columnLayout.commitWidth}
+          />
 
           {/* Table Body (Loading/Data) */}
-          <div className="divide-y divide-gray-800">
+          {/* Hovering the rows pauses updates so the row under the pointer stays put */}
+          <div
+            role="rowgroup"
+            onPointerEnter={(e) => { if (e.pointerType === 'mouse') livePause.onHoverStart(); }}
+            onPointerLeave={(e) => { if (e.pointerType === 'mouse') livePause.onHoverEnd(); }}
+            className="divide-y divide-gray-800"
+            style={loading || filteredTokens.length === 0 ? undefined : { paddingTop, paddingBottom }}
+          >
             {loading ? (
               // Skeleton Loading State with Shimmer
               <>
-                {[...Array(12)].map((_, i) => <SkeletonRow key={i} />)}
-                <div className="p-4 text-center text-gray-500 text-sm flex items-center justify-center">
+                {[...Array(12)].map((_, i) => <SkeletonRow key={i} columns={gridColumns} />)}
+                <div role="status" className="p-4 text-center text-gray-500 text-sm flex items-center justify-center">
                   <Loader2 className="w-4 h-4 mr-2 inline animate-spin text-cyan-400" />
                   Loading real-time token data...
                 </div>
               </>
             ) : filteredTokens.length === 0 ? (
               // Empty State
-              <div className="p-16 text-center text-gray-500">
+              <div role="row" className="p-16 text-center text-gray-500">
+                <div role="gridcell" aria-colspan={gridColumns.length}>
                 <Info className='w-6 h-6 mx-auto mb-2' />
-                No tokens found in the "{activeTab}" stage matching current filters.
+                {activeTab === 'Watchlist' && watchlistIds.length === 0
+                  ? 'Your watchlist is empty. Star a token to pin it here.'
+                  : activeTab === 'Holdings' && Object.keys(holdings).length === 0
+                  ? 'No open positions. Buy a token to see it here.'
+                  : <>No tokens found in the &quot;{activeTab}&quot; stage matching current filters.</>}
+                {filtersActive && (
+                  <button
+                    onClick={() => setFilters(DEFAULT_FILTERS)}
+                    className='block mx-auto mt-3 px-3 py-1 text-sm rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 transition-colors'
+                  >
+                    Clear filters
+                  </button>
+                )}
+                </div>
               </div>
             ) : (
-              // Data Rows
-              filteredTokens.map(token => (
-                <TableRow
-                  key={token.id}
-                  token={token}
-                  priceState={priceHistory[token.id] || { priceUSD: token.priceUSD, trend: 'neutral' }}
-                  onSelectToken={handleSelectToken}
-                />
-              ))
+              // Data Rows (only the visible window plus overscan is mounted)
+              virtualRows.map(({ index, key }) => {
+                const token = filteredTokens[index];
+                return (
+                  <div key={key} ref={measureElement} data-key={key} role="presentation">
+                    <TableRow
+                      token={token}
+                      columns={gridColumns}
+                      rowIndex={index}
+                      activeCol={active.row === index + 1 ? active.col : -1}
+                      onFocusCell={onFocusCell}
+                      priceState={priceHistory[token.id] || { priceUSD: token.priceUSD, trend: 'neutral' }}
+                      sparkline={sparklines[token.id]}
+                      isWatched={watched.has(token.id)}
+                      searchMatch={searchMatches?.get(token.id)}
+                      stageTransition={stageTransitionIn(token, activeTab)}
+                      isRecentlyMigrated={isRecentlyMigrated(token, now)}
+                      hasOpenOrder={trading.openOrderTokenIds.has(token.id)}
+                      quickBuyUsd={trading.settings.quickBuyUsd}
+                      position={holdings[token.id]}
+                      now={now}
+                      risk={store.getRiskScore(token)}
+                      onSelectToken={handleSelectToken}
+                      onToggleWatch={toggleWatch}
+                      onQuickBuy={trading.quickBuy}
+                    />
+                  </div>
+                );
+              })
             )}
           </div>
+          </div>
         </div>
       </div>
+      )}
+
+      <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+        {priceAnnouncement}
+      </div>
 
       {/* Modals (Mandatory Feature) */}
       <Dialog 
         isOpen={isModalOpen} 
-        onClose={() => setIsModalOpen(false)} 
+        onClose={handleCloseDetails}
         title={`Details for ${selectedToken?.symbol || 'Token'}`}
+        maxWidthClass='max-w-2xl'
       >
         <div className='space-y-4'>
-            <p className={`${COLOR.TEXT_MUTED}`}>This is the full token detail view, which would typically include:</p>
-            <ul className='list-disc list-inside ml-4 text-sm text-white'>
-                <li>Live Trading Chart (e.g., TradingView embedded)</li>
-                <li>Full Contract Audit Results and Risk Metrics</li>
-                <li>Transaction History and Holdings Breakdown</li>
-            </ul>
-            <p className="text-lg font-bold">Price: {selectedToken ? formatUSD(selectedToken.priceUSD) : 'N/A'}</p>
+            {/* selectedToken is looked up in the live data, so the panel updates while open.
+                A replay seek re-sends the stream, so the panel starts over with the rebuilt history */}
+            {selectedToken && (
+              <TokenDetailPanel
+                key={`${selectedToken.id}-${feed.replay?.seeks ?? 0}`}
+                token={selectedToken}
+                priceState={snapshot.priceHistory[selectedToken.id] || { priceUSD: selectedToken.priceUSD, trend: 'neutral' }}
+                store={store}
+                replayNow={replayNow}
+              />
+            )}
+            {selectedToken && (
+              <TradePanel
+                key={`trade-${selectedToken.id}`}
+                token={selectedToken}
+                adapterLabel={trading.adapterLabel}
+                settings={trading.settings}
+                onUpdateSettings={trading.updateSettings}
+                orders={trading.orders}
+                positions={trading.positions}
+                onPlaceOrder={trading.placeOrder}
+                onSelectToken={setSelected}
+              />
+            )}
             <button 
-                onClick={() => setIsModalOpen(false)}
+                onClick={handleCloseDetails}
                 className='w-full py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold transition-colors'
             >
                 Close View
@@ -754,7 +1290,68 @@ const App: React.FC = () => {
         </div>
       </Dialog>
 
-      <AdvancedFilterModal isOpen={isFilterModalOpen} onClose={() => setIsFilterModalOpen(false)} />
+      <AdvancedFilterModal
+        isOpen={openDialog === 'filters'}
+        onClose={closeDialog}
+        filters={filters}
+        onApply={setFilters}
+      />
+
+      <Dialog isOpen={openDialog === 'alerts'} onClose={closeDialog} title="Price & Metric Alerts">
+        <AlertManager
+          rules={alerts.rules}
+          tokens={tokens}
+          onAdd={alerts.addRule}
+          onUpdate={alerts.updateRule}
+          onRemove={alerts.removeRule}
+          permission={alerts.permission}
+          onRequestPermission={alerts.requestPermission}
+        />
+      </Dialog>
+
+      <Dialog isOpen={openDialog === 'columns'} onClose={closeDialog} title="Columns" maxWidthClass='max-w-xl'>
+        <ColumnSettings
+          layout={layout}
+          savedLayouts={columnLayout.savedLayouts}
+          onSetVisibility={columnLayout.setVisibility}
+          onMove={columnLayout.moveColumn}
+          onSetWidth={columnLayout.commitWidth}
+          onReset={columnLayout.resetLayout}
+          onSave={columnLayout.saveLayout}
+          onApply={columnLayout.applyLayout}
+          onDelete={columnLayout.deleteLayout}
+        />
+      </Dialog>
+
+      <Dialog isOpen={openDialog === 'views'} onClose={closeDialog} title="Saved Views" maxWidthClass='max-w-xl'>
+        <SavedViewsManager
+          views={savedViews.views}
+          activeViewId={activeViewId}
+          defaultViewId={savedViews.defaultViewId}
+          onSave={name => savedViews.saveView(name, currentView)}
+          onOverwrite={id => savedViews.overwriteView(id, currentView)}
+          onApply={applyView}
+          onRename={savedViews.renameView}
+          onDuplicate={savedViews.duplicateView}
+          onDelete={savedViews.deleteView}
+          onSetDefault={savedViews.setDefaultView}
+          onImport={savedViews.importViews}
+        />
+      </Dialog>
+
+      <Dialog isOpen={openDialog === 'export'} onClose={closeDialog} title="Export View">
+        <ExportPanel tokens={filteredTokens} columns={columns} store={store} positions={holdings} />
+      </Dialog>
+
+      <Dialog isOpen={openDialog === 'palette'} onClose={closeDialog} title="Command Palette">
+        <CommandPalette tokens={tokens} commands={paletteCommands} onSelectToken={setSelected} onClose={closeDialog} />
+      </Dialog>
+
+      <Dialog isOpen={openDialog === 'shortcuts'} onClose={closeDialog} title="Keyboard Shortcuts">
+        <ShortcutHelp />
+      </Dialog>
+
+      <ToastStack toasts={alerts.toasts} onDismiss={alerts.dismissToast} />
 
       {/* Footer/Performance Note */}
       <footer className="mt-8 text-center text-gray-600 text-xs">
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, GripVertical, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { BREAKPOINTS, type Breakpoint, type ColumnLayout, type SavedColumnLayout } from '../lib/columnLayout';
+import { COLUMN_BY_ID, type ColumnId } from './columns';
+import { COLOR } from './ui';
+
+const BREAKPOINT_LABELS: Record<Breakpoint, string> = { mobile: 'Mobile', desktop: 'Desktop' };
+
+/**
+ * Column picker: drag (or use the arrows) to reorder, toggle visibility per breakpoint,
+ * set widths, and save / restore named layouts.
+ */
+interface ColumnSettingsProps {
+  layout: ColumnLayout;
+  savedLayouts: SavedColumnLayout[];
+  onSetVisibility: (id: ColumnId, breakpoint: Breakpoint, visible: boolean) => void;
+  onMove: (id: ColumnId, toIndex: number) => void;
+  onSetWidth: (id: ColumnId, width: number) => void;
+  onReset: () => void;
+  onSave: (name: string) => void;
+  onApply: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+export const ColumnSettings: React.FC<ColumnSettingsProps> = ({
+  layout, savedLayouts, onSetVisibility, onMove, onSetWidth, onReset, onSave, onApply, onDelete,
+}) => {
+  const [dragging, setDragging] = useState<ColumnId | null>(null);
+  const [layoutName, setLayoutName] = useState('');
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = layoutName.trim();
+    if (!name) return;
+    onSave(name);
+    setLayoutName('');
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <div className={`grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-3 px-2 pb-2 text-xs ${COLOR.TEXT_MUTED}`}>
+          <span>Column</span>
+          {BREAKPOINTS.map(breakpoint => <span key={breakpoint} className="w-14 text-center">{BREAKPOINT_LABELS[breakpoint]}</span>)}
+          <span className="w-20 text-center">Width (px)</span>
+        </div>
+        <ul className="space-y-1">
+          {layout.order.map((id, index) => {
+            const column = COLUMN_BY_ID[id as ColumnId];
+            if (!column) return null;
+            return (
+              <li
+                key={id}
+                draggable
+                onDragStart={(e) => {
+                  setDragging(column.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragOver={(e) => {
+                  if (!dragging) return;
+                  e.preventDefault();
+                  if (dragging !== column.id) onMove(dragging, index);
+                }}
+                onDragEnd={() => setDragging(null)}
+                className={`grid grid-cols-[1fr_auto_auto_auto] items-center gap-x-3 px-2 py-1.5 rounded-lg ${COLOR.BORDER} border ${
+                  dragging === column.id ? 'opacity-50' : ''
+                }`}
+              >
+                <div className="flex items-center min-w-0">
+                  <GripVertical className="w-4 h-4 mr-1 text-gray-600 cursor-grab flex-shrink-0" aria-hidden="true" />
+                  <span className="text-sm text-white truncate">{column.label}</span>
+                  <span className="ml-auto flex">
+                    <button
+                      onClick={() => onMove(column.id, index - 1)}
+                      disabled={index === 0}
+                      className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                      aria-label={`Move ${column.label} left`}
+                    >
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => onMove(column.id, index + 1)}
+                      disabled={index === layout.order.length - 1}
+                      className="p-0.5 text-gray-500 hover:text-white disabled:opacity-30"
+                      aria-label={`Move ${column.label} right`}
+                    >
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                </div>
+                {BREAKPOINTS.map(breakpoint => (
+                  <label key={breakpoint} className="w-14 flex justify-center">
+                    <input
+                      type="checkbox"
+                      className="accent-cyan-500"
+                      checked={layout.visibility[id][breakpoint]}
+                      disabled={column.required}
+                      onChange={e => onSetVisibility(column.id, breakpoint, e.target.checked)}
+                      aria-label={`Show ${column.label} on ${BREAKPOINT_LABELS[breakpoint].toLowerCase()}`}
+                    />
+                  </label>
+                ))}
+                <input
+                  // Keyed by the stored width so an outside change (resize drag, reset) resets the draft
+                  key={layout.widths[id]}
+                  type="number"
+                  min={column.minWidth}
+                  defaultValue={layout.widths[id]}
+                  onBlur={e => {
+                    const width = Number(e.target.value);
+                    if (Number.isFinite(width) && width !== layout.widths[id]) onSetWidth(column.id, width);
+                  }}
+                  className={`w-20 ${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-md px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-cyan-500`}
+                  aria-label={`${column.label} width`}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className={`text-xs font-semibold uppercase tracking-wide ${COLOR.TEXT_MUTED}`}>Saved layouts</h4>
+        <form onSubmit={handleSave} className="flex gap-2">
+          <input
+            value={layoutName}
+            onChange={e => setLayoutName(e.target.value)}
+            placeholder="Layout name"
+            className={`flex-1 ${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500`}
+          />
+          <button
+            type="submit"
+            disabled={!layoutName.trim()}
+            className="px-3 py-2 text-sm rounded-lg text-white bg-cyan-600 hover:bg-cyan-700 disabled:opacity-40 flex items-center transition-colors"
+          >
+            <Save className="w-4 h-4 mr-1" /> Save
+          </button>
+        </form>
+        {savedLayouts.length > 0 && (
+          <ul className="space-y-1">
+            {savedLayouts.map(({ name }) => (
+              <li key={name} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg ${COLOR.BORDER} border`}>
+                <span className="flex-1 text-sm text-white truncate">{name}</span>
+                <button onClick={() => onApply(name)} className={`text-xs ${COLOR.BLUE_ACCENT} hover:underline`}>Apply</button>
+                <button
+                  onClick={() => onDelete(name)}
+                  className="p-1 rounded-full text-gray-500 hover:text-red-400 transition-colors"
+                  aria-label={`Delete layout ${name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <button
+        onClick={onReset}
+        className="w-full py-2 rounded-lg text-sm text-white bg-gray-700/50 hover:bg-gray-700 flex items-center justify-center transition-colors"
+      >
+        <RotateCcw className="w-4 h-4 mr-2" /> Reset to default columns
+      </button>
+    </div>
+  );
+};
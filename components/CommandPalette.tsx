@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import { Command, CornerDownLeft, Search } from 'lucide-react';
+import { matchCommands, type PaletteCommand } from '../lib/commands';
+import { searchTokens, type TokenMatch } from '../lib/search';
+import { SHORTCUT_HELP } from '../lib/shortcuts';
+import type { Token } from '../lib/types';
+import { COLOR, HighlightedText } from './ui';
+
+const MAX_TOKEN_RESULTS = 6;
+const MAX_COMMAND_RESULTS = 8;
+
+type PaletteItem =
+  | { kind: 'token'; match: TokenMatch }
+  | { kind: 'command'; command: PaletteCommand };
+
+// Commands are listed by group when browsing, ranked together when searching
+const groupHeading = (item: PaletteItem, query: string) =>
+  item.kind === 'token' ? 'Tokens' : query.trim() ? 'Commands' : item.command.group;
+
+const Kbd: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1.5 py-0.5 rounded border border-gray-600 bg-gray-900 text-[10px] font-mono text-gray-300">{children}</kbd>
+);
+
+/**
+ * Cmd/Ctrl+K palette (rendered inside a Dialog): a combobox that fuzzy-searches tokens by
+ * name, symbol or pair and filters the App's commands. Arrow keys move, Enter runs.
+ */
+interface CommandPaletteProps {
+  tokens: Token[];
+  commands: PaletteCommand[];
+  onSelectToken: (id: string) => void;
+  onClose: () => void;
+}
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ tokens, commands, onSelectToken, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listId = useId();
+  // Mounted per opening; searching a snapshot keeps results still while prices tick
+  const [candidates] = useState(tokens);
+
+  const items = useMemo<PaletteItem[]>(() => [
+    ...searchTokens(candidates, query, MAX_TOKEN_RESULTS).map(match => ({ kind: 'token' as const, match })),
+    ...matchCommands(commands, query)
+      .slice(0, query.trim() ? MAX_COMMAND_RESULTS : undefined)
+      .map(command => ({ kind: 'command' as const, command })),
+  ], [candidates, commands, query]);
+
+  const active = Math.min(activeIndex, items.length - 1);
+  const optionId = (index: number) => `${listId}-option-${index}`;
+
+  const run = (item: PaletteItem) => {
+    // Close first, so commands that open another dialog aren't overridden
+    onClose();
+    if (item.kind === 'token') onSelectToken(item.match.token.id);
+    else item.command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (items.length === 0) return;
+    const moveTo = (index: number) => {
+      setActiveIndex(index);
+      document.getElementById(optionId(index))?.scrollIntoView({ block: 'nearest' });
+    };
+    switch (e.key) {
+      case 'ArrowDown': moveTo((active + 1) % items.length); break;
+      case 'ArrowUp': moveTo((active - 1 + items.length) % items.length); break;
+      case 'Enter':
+        if (items[active]) run(items[active]);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className={`flex items-center px-3 rounded-lg bg-gray-900 border ${COLOR.BORDER} focus-within:border-cyan-500`}>
+        <Search className="w-4 h-4 text-gray-500 flex-shrink-0" />
+        <input
+          type="text"
+          role="combobox"
+          aria-expanded={items.length > 0}
+          aria-controls={listId}
+          aria-activedescendant={items.length > 0 ? optionId(active) : undefined}
+          aria-autocomplete="list"
+          aria-label="Search tokens and commands"
+          placeholder="Search tokens, tabs, sorts, filters..."
+          value={query}
+          onChange={e => { setQuery(e.target.value); setActiveIndex(0); }}
+          onKeyDown={handleKeyDown}
+          className="w-full px-2 py-2 text-sm bg-transparent text-white focus:outline-none"
+        />
+      </div>
+
+      <ul id={listId} role="listbox" aria-label="Results" className="max-h-[50vh] overflow-y-auto -mx-1">
+        {items.length === 0 && (
+          <li className={`px-3 py-6 text-center text-sm ${COLOR.TEXT_MUTED}`}>No tokens or commands match &quot;{query}&quot;.</li>
+        )}
+        {items.map((item, index) => {
+          const isActive = index === active;
+          const heading = groupHeading(item, query);
+          const showHeading = index === 0 || groupHeading(items[index - 1], query) !== heading;
+          return (
+            <React.Fragment key={item.kind === 'token' ? `token:${item.match.token.id}` : item.command.id}>
+              {showHeading && (
+                <li role="presentation" className={`px-3 pt-3 pb-1 text-[10px] uppercase tracking-wide ${COLOR.TEXT_MUTED}`}>
+                  {heading}
+                </li>
+              )}
+              <li
+                id={optionId(index)}
+                role="option"
+                aria-selected={isActive}
+                onMouseMove={() => setActiveIndex(index)}
+                onClick={() => run(item)}
+                className={`mx-1 px-3 py-2 rounded-lg flex items-center justify-between text-sm cursor-pointer ${isActive ? 'bg-cyan-500/15 text-white' : 'text-gray-300'}`}
+              >
+                {item.kind === 'token' ? (
+                  <span className="min-w-0 truncate">
+                    <HighlightedText text={item.match.token.name} indices={item.match.field === 'name' ? item.match.indices : []} />
+                    <span className={`ml-2 text-xs ${COLOR.TEXT_MUTED}`}>
+                      <HighlightedText text={item.match.token.symbol} indices={item.match.field === 'symbol' ? item.match.indices : []} />
+                      {' · '}
+                      <HighlightedText text={item.match.token.pair} indices={item.match.field === 'pair' ? item.match.indices : []} />
+                    </span>
+                  </span>
+                ) : (
+                  <span className="min-w-0 truncate">
+                    {item.command.label}
+                    {item.command.active && <span className="ml-2 text-xs text-cyan-400">(current)</span>}
+                  </span>
+                )}
+                <span className="flex items-center space-x-1 ml-3 flex-shrink-0">
+                  {item.kind === 'command' && item.command.shortcut?.map(key => <Kbd key={key}>{key}</Kbd>)}
+                  {isActive && <CornerDownLeft className="w-3.5 h-3.5 text-gray-500" aria-hidden="true" />}
+                </span>
+              </li>
+            </React.Fragment>
+          );
+        })}
+      </ul>
+
+      <p className={`text-xs flex items-center ${COLOR.TEXT_MUTED}`}>
+        <Command className="w-3 h-3 mr-1" /> <Kbd>↑</Kbd><Kbd>↓</Kbd>&nbsp;to move, <Kbd>Enter</Kbd>&nbsp;to run, <Kbd>Esc</Kbd>&nbsp;to close
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Keyboard shortcut reference ("?").
+ */
+export const ShortcutHelp: React.FC = () => (
+  <dl className="space-y-2">
+    {SHORTCUT_HELP.map(({ keys, description }) => (
+      <div key={description} className="flex items-center justify-between text-sm">
+        <dt className="text-gray-300">{description}</dt>
+        <dd className="flex items-center space-x-1 ml-4 flex-shrink-0">
+          {keys.map(key => <Kbd key={key}>{key}</Kbd>)}
+        </dd>
+      </div>
+    ))}
+  </dl>
+);
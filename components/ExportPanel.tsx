@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, ClipboardCopy, FileDown } from 'lucide-react';
+import type { PriceSample } from '../lib/candles';
+import {
+  EXPORT_MIME_TYPES,
+  exportFileName,
+  exportTokens,
+  type ExportFormat,
+  type ExportMode,
+} from '../lib/exportTable';
+import type { TokenStore } from '../lib/tokenStore';
+import type { PositionMark } from '../lib/trading/portfolio';
+import type { Token } from '../lib/types';
+import { useBreakpoint } from '../hooks/useBreakpoint';
+import type { LayoutColumn } from '../hooks/useColumnLayout';
+import { COLOR } from './ui';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = { csv: 'CSV', tsv: 'TSV', json: 'JSON' };
+const MODE_LABELS: Record<ExportMode, string> = { raw: 'Raw values', display: 'As displayed' };
+
+const OptionGroup = <T extends string>({ label, options, labels, value, onChange }: {
+  label: string;
+  options: T[];
+  labels: Record<T, string>;
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <fieldset>
+    <legend className={`text-xs font-medium mb-1 ${COLOR.TEXT_MUTED}`}>{label}</legend>
+    <div className="flex space-x-1" role="radiogroup">
+      {options.map(option => (
+        <button
+          key={option}
+          role="radio"
+          aria-checked={value === option}
+          onClick={() => onChange(option)}
+          className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+            value === option ? 'bg-cyan-500/20 text-cyan-400' : `${COLOR.TEXT_MUTED} hover:bg-gray-700/50`
+          }`}
+        >
+          {labels[option]}
+        </button>
+      ))}
+    </div>
+  </fieldset>
+);
+
+/**
+ * Exports exactly what the table shows: `tokens` in their current order (filters, tab and
+ * sort applied) with the columns visible at the current breakpoint.
+ */
+interface ExportPanelProps {
+  tokens: Token[];
+  columns: LayoutColumn[];
+  store: TokenStore;
+  // Paper positions by token id, for the Position / PnL columns
+  positions: Record<string, PositionMark>;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ tokens, columns, store, positions }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [mode, setMode] = useState<ExportMode>('raw');
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [feedback, setFeedback] = useState<{ ok: boolean; message: string } | null>(null);
+  // The export matches the columns currently on screen
+  const breakpoint = useBreakpoint();
+
+  const build = (now: number) => {
+    const fields = columns.filter(column => column.visibility[breakpoint]).flatMap(column => column.def.exportFields);
+    let history: Record<string, PriceSample[]> | undefined;
+    if (includeHistory) {
+      history = {};
+      for (const token of tokens) history[token.id] = store.getPriceSamples(token.id);
+    }
+    return exportTokens(tokens, fields, { format, mode, history, now, feedNow: store.now(), positions });
+  };
+
+  const handleDownload = () => {
+    const now = Date.now();
+    const url = URL.createObjectURL(new Blob([build(now)], { type: EXPORT_MIME_TYPES[format] }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = exportFileName(format, now);
+    link.click();
+    URL.revokeObjectURL(url);
+    setFeedback({ ok: true, message: `Downloaded ${tokens.length} rows` });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(build(Date.now()));
+      setFeedback({ ok: true, message: `Copied ${tokens.length} rows to the clipboard` });
+    } catch {
+      // Clipboard access needs a secure context and, in some browsers, explicit permission
+      setFeedback({ ok: false, message: 'Clipboard access was denied; use Download instead' });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className={`text-sm ${COLOR.TEXT_MUTED}`}>
+        {tokens.length} rows in the current view, with the visible columns in their current order.
+      </p>
+
+      <OptionGroup label="Format" options={['csv', 'tsv', 'json']} labels={FORMAT_LABELS} value={format} onChange={setFormat} />
+      <OptionGroup label="Values" options={['raw', 'display']} labels={MODE_LABELS} value={mode} onChange={setMode} />
+
+      <label className="flex items-start text-sm text-white cursor-pointer">
+        <input
+          type="checkbox"
+          className="mr-2 mt-0.5 accent-cyan-500"
+          checked={includeHistory}
+          onChange={e => setIncludeHistory(e.target.checked)}
+        />
+        <span>
+          Snapshot: include recent price history
+          <span className={`block text-xs ${COLOR.TEXT_MUTED}`}>Last hour per token, 10s resolution, with timestamps</span>
+        </span>
+      </label>
+
+      {feedback && (
+        <p className={`text-xs flex items-center ${feedback.ok ? COLOR.GREEN_TREND : COLOR.RED_TREND}`} role="status">
+          {feedback.ok && <Check className="w-3.5 h-3.5 mr-1" />}
+          {feedback.message}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={tokens.length === 0}
+          className="flex-1 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-700 disabled:opacity-40 text-white text-sm font-semibold flex items-center justify-center transition-colors"
+        >
+          <FileDown className="w-4 h-4 mr-2" /> Download
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={tokens.length === 0}
+          className="flex-1 py-2 rounded-lg bg-gray-700/50 hover:bg-gray-700 disabled:opacity-40 text-white text-sm font-semibold flex items-center justify-center transition-colors"
+        >
+          <ClipboardCopy className="w-4 h-4 mr-2" /> Copy to clipboard
+        </button>
+      </div>
+    </div>
+  );
+};
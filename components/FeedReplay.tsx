@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Circle, Film, Pause, Play, Square, X } from 'lucide-react';
+import { formatDuration } from '../lib/format';
+import {
+  FeedRecordingError,
+  parseFeedRecording,
+  serializeFeedRecording,
+  type FeedRecording,
+} from '../lib/feed/recording';
+import { REPLAY_SPEEDS, type ReplaySpeed, type ReplayState } from '../lib/feed/replay';
+import { useNow } from '../hooks/useNow';
+import { COLOR } from './ui';
+
+const buttonClass = 'px-2 py-1 rounded-md flex items-center transition-colors text-gray-400 bg-gray-700/50 hover:bg-gray-700 cursor-pointer';
+
+const recordingFileName = (startedAt: number) =>
+  `axiom-feed-${new Date(startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+
+const RecordingTimer: React.FC<{ since: number }> = ({ since }) => {
+  const now = useNow(1000);
+  return <span className="font-mono">{formatDuration(Math.max(0, now - since))}</span>;
+};
+
+/**
+ * Record / stop (downloads the recording as JSON) and opening a recording for replay.
+ */
+interface FeedRecordControlsProps {
+  recordingSince: number | null;
+  onStart: () => void;
+  onStop: () => FeedRecording | null;
+  onLoad: (recording: FeedRecording) => void;
+}
+
+export const FeedRecordControls: React.FC<FeedRecordControlsProps> = ({ recordingSince, onStart, onStop, onLoad }) => {
+  const [error, setError] = useState<string | null>(null);
+  const recording = recordingSince !== null;
+
+  const handleStop = () => {
+    const result = onStop();
+    if (!result) {
+      setError('Nothing was recorded');
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([serializeFeedRecording(result)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = recordingFileName(result.startedAt);
+    link.click();
+    URL.revokeObjectURL(url);
+    setError(null);
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      onLoad(parseFeedRecording(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof FeedRecordingError ? err.message : 'Could not read file');
+    }
+  };
+
+  return (
+    <div className="mt-3 ml-4 inline-flex items-center gap-2 text-xs">
+      {recording ? (
+        <button onClick={handleStop} className={`${buttonClass} text-red-400`} title="Stop and download the recording">
+          <Square className="w-3 h-3 mr-1 fill-current" />
+          Stop <span className="ml-1"><RecordingTimer since={recordingSince} /></span>
+        </button>
+      ) : (
+        <button onClick={() => { setError(null); onStart(); }} className={buttonClass} title="Record the feed for replay">
+          <Circle className="w-3 h-3 mr-1 text-red-400 fill-current" />
+          Record
+        </button>
+      )}
+      {!recording && (
+        <label className={buttonClass} title="Replay a recording">
+          <Film className="w-3 h-3 mr-1" />
+          Replay
+          <input type="file" accept="application/json,.json" className="sr-only" onChange={handleLoad} />
+        </label>
+      )}
+      {error && <span className={COLOR.RED_TREND} role="alert">{error}</span>}
+    </div>
+  );
+};
+
+/**
+ * Transport bar shown while a recording plays back in place of the live feed.
+ */
+interface ReplayControlsProps {
+  state: ReplayState;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (positionMs: number) => void;
+  onSpeedChange: (speed: ReplaySpeed) => void;
+  onExit: () => void;
+}
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ state, onPlay, onPause, onSeek, onSpeedChange, onExit }) => (
+  <section
+    aria-label="Replay"
+    className={`max-w-7xl mx-auto mb-6 ${COLOR.BG_SECONDARY} border border-cyan-500/40 rounded-xl px-4 py-3 flex flex-wrap items-center gap-3 text-xs`}
+  >
+    <span className={`font-semibold ${COLOR.BLUE_ACCENT} flex items-center`}>
+      <Film className="w-4 h-4 mr-2" />
+      Replay
+    </span>
+    <button
+      onClick={state.playing ? onPause : onPlay}
+      className={buttonClass}
+      aria-label={state.playing ? 'Pause replay' : 'Play replay'}
+    >
+      {state.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+    </button>
+    <input
+      type="range"
+      min={0}
+      max={state.durationMs}
+      step={1000}
+      value={state.positionMs}
+      onChange={e => onSeek(Number(e.target.value))}
+      aria-label="Replay position"
+      aria-valuetext={formatDuration(state.positionMs)}
+      className="flex-1 min-w-32 accent-cyan-500"
+    />
+    <span className="font-mono text-gray-300 whitespace-nowrap">
+      {formatDuration(state.positionMs)} / {formatDuration(state.durationMs)}
+    </span>
+    <span className={`${COLOR.TEXT_MUTED} whitespace-nowrap`} title="Recorded at">
+      {new Date(state.startedAt + state.positionMs).toLocaleTimeString()}
+    </span>
+    <div className="flex space-x-1" role="group" aria-label="Replay speed">
+      {REPLAY_SPEEDS.map(speed => (
+        <button
+          key={speed}
+          onClick={() => onSpeedChange(speed)}
+          aria-pressed={state.speed === speed}
+          className={`px-2 py-1 rounded-md font-mono transition-colors ${
+            state.speed === speed ? 'bg-cyan-500/20 text-cyan-400' : `${COLOR.TEXT_MUTED} hover:bg-gray-700/50`
+          }`}
+        >
+          {speed}x
+        </button>
+      ))}
+    </div>
+    <button onClick={onExit} className={buttonClass} title="Back to the live feed">
+      <X className="w-3 h-3 mr-1" />
+      Exit replay
+    </button>
+  </section>
+);
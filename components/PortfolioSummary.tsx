@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState } from 'react';
+import { RotateCcw, Wallet } from 'lucide-react';
+import { formatSignedUSD, formatUSD } from '../lib/format';
+import type { PortfolioSample, PortfolioSummary as Summary } from '../lib/trading/portfolio';
+import { COLOR } from './ui';
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 48;
+
+type ChartMetric = 'pnlUsd' | 'valueUsd';
+
+const METRIC_LABELS: Record<ChartMetric, string> = { pnlUsd: 'PnL', valueUsd: 'Value' };
+
+const signClass = (value: number) => (value > 0 ? COLOR.GREEN_TREND : value < 0 ? COLOR.RED_TREND : 'text-white');
+
+/**
+ * Line of the recorded series; the live value is the last point. PnL gets a zero line.
+ */
+const HistoryChart: React.FC<{ points: number[]; zeroLine: boolean }> = ({ points, zeroLine }) => {
+  if (points.length < 2) {
+    return <div className={`h-12 flex items-center justify-center text-xs ${COLOR.TEXT_MUTED}`}>Collecting history...</div>;
+  }
+  const high = Math.max(...points, zeroLine ? 0 : -Infinity);
+  const low = Math.min(...points, zeroLine ? 0 : Infinity);
+  const range = high - low || 1;
+  const y = (value: number) => CHART_HEIGHT - 2 - ((value - low) / range) * (CHART_HEIGHT - 4);
+  const path = points
+    .map((value, i) => `${i === 0 ? 'M' : 'L'}${((i / (points.length - 1)) * CHART_WIDTH).toFixed(1)},${y(value).toFixed(1)}`)
+    .join(' ');
+  const color = points[points.length - 1] >= points[0] ? '#48ef7a' : '#ff4757';
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-12" preserveAspectRatio="none" aria-hidden="true">
+      {zeroLine && <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#2a2a30" strokeDasharray="2 4" />}
+      <path d={path} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const Figure: React.FC<{ label: string; children: React.ReactNode; className?: string }> = ({ label, children, className = 'text-white' }) => (
+  <div className="min-w-0">
+    <dt className={`text-xs ${COLOR.TEXT_MUTED}`}>{label}</dt>
+    <dd className={`text-sm font-mono font-semibold truncate ${className}`}>{children}</dd>
+  </div>
+);
+
+/**
+ * Paper portfolio header: live value and PnL (marked to market on every feed update) and
+ * their recorded history.
+ */
+interface PortfolioSummaryProps {
+  summary: Summary;
+  history: PortfolioSample[];
+  holdings: number;
+  onShowHoldings: () => void;
+  onReset: () => void;
+}
+
+export const PortfolioSummary: React.FC<PortfolioSummaryProps> = ({ summary, history, holdings, onShowHoldings, onReset }) => {
+  const [metric, setMetric] = useState<ChartMetric>('pnlUsd');
+  const live = metric === 'pnlUsd' ? summary.totalPnlUsd : summary.valueUsd;
+  const points = [...history.map(sample => sample[metric]), live];
+  const unrealizedPnlPct = summary.costBasisUsd > 0 ? (summary.unrealizedPnlUsd / summary.costBasisUsd) * 100 : null;
+
+  return (
+    <section
+      aria-labelledby="portfolio-heading"
+      className={`max-w-7xl mx-auto mb-6 ${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-xl p-4 grid gap-4 md:grid-cols-[1fr_280px] items-center`}
+    >
+      <div className="space-y-3 min-w-0">
+        <div className="flex items-center justify-between gap-2">
+          <h2 id="portfolio-heading" className="text-sm font-semibold text-white flex items-center">
+            <Wallet className={`w-4 h-4 mr-2 ${COLOR.BLUE_ACCENT}`} />
+            Paper Portfolio
+          </h2>
+          <div className="flex items-center gap-3 text-xs">
+            <button onClick={onShowHoldings} className={`${COLOR.BLUE_ACCENT} hover:underline`}>
+              {holdings} {holdings === 1 ? 'holding' : 'holdings'}
+            </button>
+            <button onClick={onReset} className={`${COLOR.TEXT_MUTED} hover:text-red-400 flex items-center transition-colors`} title="Clear positions and history">
+              <RotateCcw className="w-3 h-3 mr-1" /> Reset
+            </button>
+          </div>
+        </div>
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Figure label="Total value">{formatUSD(summary.valueUsd)}</Figure>
+          <Figure label="Unrealized PnL" className={signClass(summary.unrealizedPnlUsd)}>
+            {formatSignedUSD(summary.unrealizedPnlUsd)}
+            {unrealizedPnlPct !== null && <span className="ml-1 text-xs font-normal">({unrealizedPnlPct > 0 ? '+' : ''}{unrealizedPnlPct.toFixed(1)}%)</span>}
+          </Figure>
+          <Figure label="Realized PnL" className={signClass(summary.realizedPnlUsd)}>{formatSignedUSD(summary.realizedPnlUsd)}</Figure>
+          <Figure label="Total PnL" className={signClass(summary.totalPnlUsd)}>{formatSignedUSD(summary.totalPnlUsd)}</Figure>
+        </dl>
+      </div>
+      <div className="space-y-1">
+        <div className="flex justify-end space-x-1" role="group" aria-label="History chart">
+          {(Object.keys(METRIC_LABELS) as ChartMetric[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              aria-pressed={metric === key}
+              className={`px-2 py-0.5 text-[11px] rounded-md transition-colors ${
+                metric === key ? 'bg-cyan-500/20 text-cyan-400' : `${COLOR.TEXT_MUTED} hover:bg-gray-700/50`
+              }`}
+            >
+              {METRIC_LABELS[key]}
+            </button>
+          ))}
+        </div>
+        <HistoryChart points={points} zeroLine={metric === 'pnlUsd'} />
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ListFilter, Pause, Play, Star } from 'lucide-react';
+import { getChain } from '../lib/chains';
+import { DEFAULT_FILTERS, FILTER_CHAINS, hasActiveFilters, matchesFilters, type TokenFilters } from '../lib/filters';
+import { formatAge, formatCompactNumber, formatUSD } from '../lib/format';
+import { isRecentlyMigrated } from '../lib/lifecycle';
+import { sortTokens, STATUS_ORDER } from '../lib/sorting';
+import type { PriceState, SortCriterion, Token, TokenStatus } from '../lib/types';
+import { BondingBar, ChainIcon, COLOR, StatusBadge } from './ui';
+
+// --- Pulse board ---
+// The three lifecycle stages side by side as live columns of compact cards. Each column
+// keeps its own sort and filter and can be paused to stop cards shifting while you read.
+
+const BOARD_SORTS: { label: string; sort: SortCriterion }[] = [
+  { label: 'Newest', sort: { key: 'launchTime', direction: 'desc' } },
+  { label: 'Market cap', sort: { key: 'marketCap', direction: 'desc' } },
+  { label: 'Volume 24h', sort: { key: 'volume24h', direction: 'desc' } },
+  { label: 'Liquidity', sort: { key: 'liquidity', direction: 'desc' } },
+  { label: '5m change', sort: { key: 'change5m', direction: 'desc' } },
+  { label: 'Bonding', sort: { key: 'bondingProgress', direction: 'desc' } },
+  { label: 'Score', sort: { key: 'score', direction: 'desc' } },
+];
+
+// Cards rendered per column before "Show more"; columns aren't virtualized
+const CARD_PAGE_SIZE = 40;
+
+const parseMin = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Compact card for one token.
+ */
+interface TokenCardProps {
+  token: Token;
+  priceState: PriceState | undefined;
+  isWatched: boolean;
+  isRecentlyMigrated: boolean;
+  now: number;
+  onSelectToken: (id: string) => void;
+  onToggleWatch: (id: string) => void;
+}
+
+const TokenCard: React.FC<TokenCardProps> = React.memo(function TokenCard({
+  token,
+  priceState,
+  isWatched,
+  isRecentlyMigrated,
+  now,
+  onSelectToken,
+  onToggleWatch,
+}) {
+  const trend = priceState?.trend ?? 'neutral';
+  const priceClass = trend === 'up' ? COLOR.GREEN_TREND : trend === 'down' ? COLOR.RED_TREND : 'text-white';
+
+  return (
+    <li
+      onClick={() => onSelectToken(token.id)}
+      className={`p-3 rounded-lg border cursor-pointer transition-colors hover:bg-gray-800/60 ${
+        isRecentlyMigrated ? 'border-green-600/60 bg-green-900/10' : `${COLOR.BORDER} ${COLOR.BG_PRIMARY}`
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center min-w-0">
+          <div className="w-7 h-7 rounded-full bg-gradient-to-br from-blue-500 to-cyan-400 flex items-center justify-center font-bold text-sm text-white flex-shrink-0 mr-2">
+            {token.symbol.slice(0, 1)}
+          </div>
+          <div className="min-w-0">
+            {/* The name is the card's keyboard target */}
+            <button
+              onClick={(e) => { e.stopPropagation(); onSelectToken(token.id); }}
+              className="block font-semibold text-sm text-white truncate hover:underline focus:outline-none focus-visible:underline"
+            >
+              {token.name}
+            </button>
+            <span className={`text-xs ${COLOR.TEXT_MUTED} flex items-center gap-1`}>
+              {token.symbol} · <ChainIcon chain={token.chain} /> {getChain(token.chain)?.name ?? token.chain} · {formatAge(Math.max(0, now - token.launchTime))}
+            </span>
+          </div>
+        </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleWatch(token.id); }} // Don't open the card
+          className={`p-1 rounded-full flex-shrink-0 transition-colors ${isWatched ? 'text-yellow-400' : 'text-gray-600 hover:text-yellow-400'}`}
+          aria-label={isWatched ? `Remove ${token.symbol} from watchlist` : `Add ${token.symbol} to watchlist`}
+          aria-pressed={isWatched}
+        >
+          <Star className={`w-4 h-4 ${isWatched ? 'fill-current' : ''}`} />
+        </button>
+      </div>
+
+      <div className="mt-2 flex items-center justify-between">
+        <span className={`font-mono text-sm font-bold transition-colors duration-300 ${priceClass}`}>
+          {trend !== 'neutral' && <span aria-hidden="true">{trend === 'up' ? '▲ ' : '▼ '}</span>}
+          {formatUSD(token.priceUSD)}
+        </span>
+        <StatusBadge status={token.status} />
+      </div>
+
+      <dl className={`mt-2 grid grid-cols-3 gap-1 text-[11px] ${COLOR.TEXT_MUTED}`}>
+        <div><dt className="inline">MC </dt><dd className="inline text-gray-300 font-mono">${formatCompactNumber(token.marketCap)}</dd></div>
+        <div><dt className="inline">V </dt><dd className="inline text-gray-300 font-mono">${formatCompactNumber(token.volume24h)}</dd></div>
+        <div><dt className="inline">L </dt><dd className="inline text-gray-300 font-mono">${formatCompactNumber(token.liquidity)}</dd></div>
+      </dl>
+
+      <div className="mt-2 flex items-center gap-2">
+        <BondingBar progress={token.bondingProgress} />
+        <span className="px-1.5 py-0.5 rounded-full bg-pink-600/20 text-pink-400 text-[11px] font-bold" title="Audit score">{token.score}</span>
+      </div>
+    </li>
+  );
+});
+
+/**
+ * Per-column filter: chains plus minimum score and liquidity.
+ */
+const ColumnFilterEditor: React.FC<{ filters: TokenFilters; onChange: (filters: TokenFilters) => void }> = ({ filters, onChange }) => {
+  const toggleChain = (chain: (typeof FILTER_CHAINS)[number]) => onChange({
+    ...filters,
+    chains: filters.chains.includes(chain) ? filters.chains.filter(c => c !== chain) : [...filters.chains, chain],
+  });
+  const setMin = (field: 'score' | 'liquidity', value: string) => onChange({
+    ...filters,
+    ranges: { ...filters.ranges, [field]: { ...filters.ranges[field], min: parseMin(value) } },
+  });
+
+  return (
+    <div className={`p-3 space-y-2 border-b ${COLOR.BORDER} text-xs`}>
+      <div className="flex gap-1" role="group" aria-label="Chains">
+        {FILTER_CHAINS.map(chain => (
+          <button
+            key={chain}
+            onClick={() => toggleChain(chain)}
+            aria-pressed={filters.chains.includes(chain)}
+            className={`px-2 py-0.5 rounded-full border text-white ${filters.chains.includes(chain) ? 'bg-blue-600/30 border-blue-600' : 'border-gray-700 hover:bg-gray-700/50'}`}
+          >
+            {chain}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <label className="flex-1">
+          <span className={COLOR.TEXT_MUTED}>Min score</span>
+          <input
+            type="number"
+            value={filters.ranges.score.min ?? ''}
+            onChange={e => setMin('score', e.target.value)}
+            className={`mt-0.5 w-full px-2 py-1 rounded bg-gray-900 border ${COLOR.BORDER} text-white focus:outline-none focus:border-cyan-500`}
+          />
+        </label>
+        <label className="flex-1">
+          <span className={COLOR.TEXT_MUTED}>Min liquidity</span>
+          <input
+            type="number"
+            value={filters.ranges.liquidity.min ?? ''}
+            onChange={e => setMin('liquidity', e.target.value)}
+            className={`mt-0.5 w-full px-2 py-1 rounded bg-gray-900 border ${COLOR.BORDER} text-white focus:outline-none focus:border-cyan-500`}
+          />
+        </label>
+      </div>
+      {hasActiveFilters(filters) && (
+        <button onClick={() => onChange(DEFAULT_FILTERS)} className={`${COLOR.TEXT_MUTED} hover:text-white underline`}>
+          Clear column filter
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * One live column: the tokens of one stage with the column's own sort and filter.
+ * Pausing freezes the cards (order, values and trend arrows) until resumed.
+ */
+interface BoardColumnProps extends Omit<PulseBoardProps, 'tokens'> {
+  status: TokenStatus;
+  // Tokens of this stage (search and global filters already applied)
+  tokens: Token[];
+}
+
+const BoardColumn: React.FC<BoardColumnProps> = ({ status, tokens, priceHistory, watched, now, onSelectToken, onToggleWatch }) => {
+  const [sortIndex, setSortIndex] = useState(0);
+  const [filters, setFilters] = useState<TokenFilters>(DEFAULT_FILTERS);
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  // The paused cards together with the price states their trend arrows read
+  const [frozen, setFrozen] = useState<{ tokens: Token[]; priceHistory: Record<string, PriceState> } | null>(null);
+  const [limit, setLimit] = useState(CARD_PAGE_SIZE);
+
+  const live = useMemo(
+    () => sortTokens(tokens.filter(token => matchesFilters(token, filters, now)), [BOARD_SORTS[sortIndex].sort]),
+    [tokens, filters, now, sortIndex]
+  );
+  const cards = frozen?.tokens ?? live;
+  const priceStates = frozen?.priceHistory ?? priceHistory;
+  const filtersActive = hasActiveFilters(filters);
+
+  return (
+    <section className={`flex flex-col min-h-0 ${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-xl overflow-hidden`} aria-label={status}>
+      <header className={`flex items-center justify-between gap-2 p-3 border-b ${COLOR.BORDER}`}>
+        <h2 className="text-sm font-semibold text-white flex items-center">
+          {status}
+          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-mono bg-gray-700/50 text-gray-400">{cards.length}</span>
+          {frozen && <span className="ml-2 text-[10px] uppercase tracking-wide text-yellow-400">Paused</span>}
+        </h2>
+        <div className="flex items-center gap-1">
+          <select
+            value={sortIndex}
+            onChange={e => setSortIndex(Number(e.target.value))}
+            aria-label={`Sort ${status}`}
+            className={`text-xs rounded bg-gray-900 border ${COLOR.BORDER} text-white px-1 py-1 focus:outline-none focus:border-cyan-500`}
+          >
+            {BOARD_SORTS.map(({ label }, index) => <option key={label} value={index}>{label}</option>)}
+          </select>
+          <button
+            onClick={() => setIsFilterOpen(open => !open)}
+            aria-expanded={isFilterOpen}
+            aria-label={`Filter ${status}`}
+            className={`p-1.5 rounded hover:bg-gray-700/50 ${filtersActive ? 'text-cyan-400' : 'text-gray-400'}`}
+          >
+            <ListFilter className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setFrozen(current => (current ? null : { tokens: live, priceHistory }))}
+            aria-pressed={frozen !== null}
+            aria-label={frozen ? `Resume ${status}` : `Pause ${status}`}
+            className={`p-1.5 rounded hover:bg-gray-700/50 ${frozen ? 'text-yellow-400' : 'text-gray-400'}`}
+          >
+            {frozen ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+          </button>
+        </div>
+      </header>
+
+      {isFilterOpen && <ColumnFilterEditor filters={filters} onChange={setFilters} />}
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-2 max-h-[75vh]">
+        {cards.length === 0 && (
+          <li className={`p-6 text-center text-sm ${COLOR.TEXT_MUTED}`}>No tokens in this stage match.</li>
+        )}
+        {cards.slice(0, limit).map(token => (
+          <TokenCard
+            key={token.id}
+            token={token}
+            priceState={priceStates[token.id]}
+            isWatched={watched.has(token.id)}
+            isRecentlyMigrated={isRecentlyMigrated(token, now)}
+            now={now}
+            onSelectToken={onSelectToken}
+            onToggleWatch={onToggleWatch}
+          />
+        ))}
+        {cards.length > limit && (
+          <li>
+            <button
+              onClick={() => setLimit(current => current + CARD_PAGE_SIZE)}
+              className="w-full py-2 text-xs rounded-lg text-white bg-gray-700/50 hover:bg-gray-700 transition-colors"
+            >
+              Show {Math.min(CARD_PAGE_SIZE, cards.length - limit)} more
+            </button>
+          </li>
+        )}
+      </ul>
+    </section>
+  );
+};
+
+interface PulseBoardProps {
+  tokens: Token[];
+  priceHistory: Record<string, PriceState>;
+  watched: Set<string>;
+  now: number;
+  onSelectToken: (id: string) => void;
+  onToggleWatch: (id: string) => void;
+}
+
+export const PulseBoard: React.FC<PulseBoardProps> = ({ tokens, ...rest }) => {
+  const byStatus = useMemo(() => {
+    const groups = Object.fromEntries(STATUS_ORDER.map(status => [status, [] as Token[]])) as Record<TokenStatus, Token[]>;
+    tokens.forEach(token => groups[token.status].push(token));
+    return groups;
+  }, [tokens]);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      {STATUS_ORDER.map(status => (
+        <BoardColumn key={status} status={status} tokens={byStatus[status]} {...rest} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Bookmark, Copy, Download, Pencil, Save, Star, Trash2, Upload } from 'lucide-react';
+import {
+  SavedViewsImportError,
+  parseSavedViewsImport,
+  serializeSavedViewsExport,
+  type SavedView,
+} from '../lib/savedViews';
+import { COLUMNS } from './columns';
+import { COLOR } from './ui';
+
+/**
+ * Toolbar picker for the saved views. Shows "Custom view" once the table no longer
+ * matches any of them.
+ */
+interface SavedViewSwitcherProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  defaultViewId: string | null;
+  onApply: (view: SavedView) => void;
+  onManage: () => void;
+}
+
+export const SavedViewSwitcher: React.FC<SavedViewSwitcherProps> = ({ views, activeViewId, defaultViewId, onApply, onManage }) => (
+  <div className={`flex items-center rounded-lg bg-gray-700/50 ${COLOR.BORDER} border`}>
+    {views.length > 0 && (
+      <select
+        value={activeViewId ?? ''}
+        onChange={e => {
+          const view = views.find(entry => entry.id === e.target.value);
+          if (view) onApply(view);
+        }}
+        aria-label="Saved view"
+        className="max-w-40 bg-transparent pl-3 pr-1 py-2 text-sm text-white focus:outline-none cursor-pointer"
+      >
+        {activeViewId === null && <option value="" disabled>Custom view</option>}
+        {views.map(view => (
+          <option key={view.id} value={view.id} className="bg-gray-800">
+            {view.name}{view.id === defaultViewId ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+    )}
+    <button
+      onClick={onManage}
+      className="px-3 py-2 text-sm font-medium rounded-lg text-white hover:bg-gray-700 flex items-center transition-colors"
+      title="Manage saved views"
+    >
+      <Bookmark className="w-4 h-4" />
+      <span className={`${views.length > 0 ? 'sr-only' : 'hidden sm:inline ml-2'}`}>Views</span>
+    </button>
+  </div>
+);
+
+/**
+ * Save the current tab, filters, sort and columns as a named view; apply, rename,
+ * duplicate, delete and pick the default; import / export views as JSON.
+ */
+interface SavedViewsManagerProps {
+  views: SavedView[];
+  activeViewId: string | null;
+  defaultViewId: string | null;
+  onSave: (name: string) => void;
+  onOverwrite: (id: string) => void;
+  onApply: (view: SavedView) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string | null) => void;
+  onImport: (views: SavedView[]) => void;
+}
+
+export const SavedViewsManager: React.FC<SavedViewsManagerProps> = ({
+  views, activeViewId, defaultViewId, onSave, onOverwrite, onApply, onRename, onDuplicate, onDelete, onSetDefault, onImport,
+}) => {
+  const [viewName, setViewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = viewName.trim();
+    if (!name) return;
+    onSave(name);
+    setViewName('');
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming) onRename(renaming.id, renaming.name);
+    setRenaming(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeSavedViewsExport(views)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'axiom-views.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      onImport(parseSavedViewsImport(await file.text(), COLUMNS));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof SavedViewsImportError ? err.message : 'Could not read file');
+    }
+  };
+
+  const iconButtonClass = 'p-1 rounded-full text-gray-500 hover:text-white transition-colors';
+  const buttonClass = 'flex-1 py-2 rounded-lg text-sm text-white bg-gray-700/50 hover:bg-gray-700 flex items-center justify-center transition-colors cursor-pointer';
+
+  return (
+    <div className="space-y-5">
+      <form onSubmit={handleSave} className="space-y-2">
+        <p className={`text-xs ${COLOR.TEXT_MUTED}`}>Saves the current tab, filters, sort and column layout. The search box isn&apos;t included.</p>
+        <div className="flex gap-2">
+          <input
+            value={viewName}
+            onChange={e => setViewName(e.target.value)}
+            placeholder="View name"
+            aria-label="View name"
+            className={`flex-1 ${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-cyan-500`}
+          />
+          <button
+            type="submit"
+            disabled={!viewName.trim()}
+            className="px-3 py-2 text-sm rounded-lg text-white bg-cyan-600 hover:bg-cyan-700 disabled:opacity-40 flex items-center transition-colors"
+          >
+            <Save className="w-4 h-4 mr-1" /> Save
+          </button>
+        </div>
+      </form>
+
+      {views.length === 0 ? (
+        <p className={`text-sm ${COLOR.TEXT_MUTED} text-center py-4`}>No saved views yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {views.map(view => {
+            const isDefault = view.id === defaultViewId;
+            const isActive = view.id === activeViewId;
+            return (
+              <li key={view.id} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border ${isActive ? 'border-cyan-500/60' : COLOR.BORDER}`}>
+                <button
+                  onClick={() => onSetDefault(isDefault ? null : view.id)}
+                  className={`p-1 rounded-full transition-colors ${isDefault ? 'text-yellow-400' : 'text-gray-600 hover:text-yellow-300'}`}
+                  aria-label={isDefault ? `Stop opening with ${view.name}` : `Open with ${view.name} by default`}
+                  aria-pressed={isDefault}
+                  title={isDefault ? 'Default view' : 'Make default'}
+                >
+                  <Star className="w-4 h-4" fill={isDefault ? 'currentColor' : 'none'} />
+                </button>
+                {renaming?.id === view.id ? (
+                  <form onSubmit={handleRename} className="flex-1">
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={e => setRenaming({ id: view.id, name: e.target.value })}
+                      onBlur={handleRename}
+                      onKeyDown={e => {
+                        if (e.key === 'Escape') {
+                          e.stopPropagation();
+                          setRenaming(null);
+                        }
+                      }}
+                      aria-label={`Rename ${view.name}`}
+                      className={`w-full ${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-md px-2 py-1 text-sm text-white focus:outline-none focus:border-cyan-500`}
+                    />
+                  </form>
+                ) : (
+                  <span className="flex-1 text-sm text-white truncate">{view.name}</span>
+                )}
+                {isActive
+                  ? <span className={`text-xs ${COLOR.TEXT_MUTED}`}>Active</span>
+                  : <button onClick={() => onApply(view)} className={`text-xs ${COLOR.BLUE_ACCENT} hover:underline`}>Apply</button>}
+                <button onClick={() => onOverwrite(view.id)} className={iconButtonClass} aria-label={`Update ${view.name} to the current view`} title="Update to current view">
+                  <Save className="w-4 h-4" />
+                </button>
+                <button onClick={() => setRenaming({ id: view.id, name: view.name })} className={iconButtonClass} aria-label={`Rename ${view.name}`} title="Rename">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDuplicate(view.id)} className={iconButtonClass} aria-label={`Duplicate ${view.name}`} title="Duplicate">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDelete(view.id)}
+                  className="p-1 rounded-full text-gray-500 hover:text-red-400 transition-colors"
+                  aria-label={`Delete view ${view.name}`}
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        {importError && <p className={`text-xs ${COLOR.RED_TREND}`} role="alert">{importError}</p>}
+        <div className="flex gap-2">
+          <button onClick={handleExport} disabled={views.length === 0} className={`${buttonClass} disabled:opacity-40 disabled:cursor-not-allowed`}>
+            <Download className="w-4 h-4 mr-2" /> Export views
+          </button>
+          <label className={buttonClass}>
+            <Upload className="w-4 h-4 mr-2" /> Import views
+            <input type="file" accept="application/json,.json" className="sr-only" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { aggregateCandles, CHART_WINDOW_KEYS, type Candle, type ChartWindow } from '../lib/candles';
+import { chartUrl, explorerAddressUrl, explorerTokenUrl, getChain } from '../lib/chains';
+import { formatAge, formatCompactNumber, formatUSD } from '../lib/format';
+import type { TokenStore } from '../lib/tokenStore';
+import type { PriceState, Token } from '../lib/types';
+import { useNow } from '../hooks/useNow';
+import { useTokenSamples } from '../hooks/useTokenSamples';
+import { BondingBar, ChainIcon, COLOR, ScoreBreakdown, StatusBadge } from './ui';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+// Right-hand gutter for the price labels
+const AXIS_WIDTH = 70;
+
+const formatClock = (ts: number) =>
+  new Date(ts).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * SVG candlestick chart. Scales to its container width through the viewBox.
+ */
+const CandleChart: React.FC<{ candles: Candle[] }> = ({ candles }) => {
+  if (candles.length === 0) {
+    return (
+      <div className={`h-[220px] flex items-center justify-center text-sm ${COLOR.TEXT_MUTED}`}>
+        Waiting for price ticks...
+      </div>
+    );
+  }
+
+  let high = Math.max(...candles.map(c => c.high));
+  let low = Math.min(...candles.map(c => c.low));
+  if (high === low) {
+    // Flat series: give it some room so the line sits mid-chart
+    high *= 1.005;
+    low *= 0.995;
+  }
+  const padding = (high - low) * 0.08;
+  const top = high + padding;
+  const bottom = low - padding;
+  const y = (price: number) => ((top - price) / (top - bottom)) * CHART_HEIGHT;
+
+  const plotWidth = CHART_WIDTH - AXIS_WIDTH;
+  const slot = plotWidth / Math.max(candles.length, 30);
+  const bodyWidth = Math.max(1, slot * 0.6);
+  const last = candles[candles.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + 20}`} className="w-full h-auto" role="img" aria-label="Price candlestick chart">
+      {[high, (high + low) / 2, low].map(price => (
+        <g key={price}>
+          <line x1={0} x2={plotWidth} y1={y(price)} y2={y(price)} stroke="#2a2a30" strokeDasharray="2 4" />
+          <text x={plotWidth + 6} y={y(price) + 4} fill="#8e8e99" fontSize={10} fontFamily="monospace">
+            {formatUSD(price)}
+          </text>
+        </g>
+      ))}
+
+      {candles.map((candle, i) => {
+        const x = i * slot + slot / 2;
+        const isUp = candle.close >= candle.open;
+        const color = isUp ? '#48ef7a' : '#ff4757';
+        const bodyTop = y(Math.max(candle.open, candle.close));
+        const bodyHeight = Math.max(1, Math.abs(y(candle.open) - y(candle.close)));
+        return (
+          <g key={candle.start}>
+            <line x1={x} x2={x} y1={y(candle.high)} y2={y(candle.low)} stroke={color} strokeWidth={1} />
+            <rect x={x - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} rx={1} />
+          </g>
+        );
+      })}
+
+      {/* Last price marker */}
+      <line x1={0} x2={plotWidth} y1={y(last.close)} y2={y(last.close)} stroke="#00c6ff" strokeOpacity={0.6} strokeDasharray="4 3" />
+
+      <text x={0} y={CHART_HEIGHT + 15} fill="#8e8e99" fontSize={10} fontFamily="monospace">
+        {formatClock(candles[0].start)}
+      </text>
+      <text x={plotWidth} y={CHART_HEIGHT + 15} fill="#8e8e99" fontSize={10} fontFamily="monospace" textAnchor="end">
+        {formatClock(last.start)}
+      </text>
+    </svg>
+  );
+};
+
+const Stat: React.FC<{ label: string; children: React.ReactNode; mono?: boolean }> = ({ label, children, mono = true }) => (
+  <div className={`${COLOR.BORDER} border rounded-lg px-3 py-2 min-w-0`}>
+    <dt className={`text-xs ${COLOR.TEXT_MUTED}`}>{label}</dt>
+    <dd className={`text-sm text-white truncate ${mono ? 'font-mono' : ''}`}>{children}</dd>
+  </div>
+);
+
+// 0x1234…abcd
+const shortAddress = (address: string) =>
+  address.length > 14 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+
+const ExternalAnchor: React.FC<{ href: string; children: React.ReactNode }> = ({ href, children }) => (
+  <a
+    href={href}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="inline-flex items-center px-2.5 py-1 text-xs rounded-md text-cyan-400 bg-cyan-500/10 hover:bg-cyan-500/20 transition-colors"
+  >
+    {children}
+    <ExternalLink className="w-3 h-3 ml-1" />
+  </a>
+);
+
+/**
+ * Live detail view for one token: candlestick chart built from the realtime tick stream
+ * (1m / 5m / 1h windows) plus every Token field. `token` and `priceState` come straight
+ * from the live table data, so the panel keeps updating while open.
+ *
+ * Key it by token id: the collected tick samples belong to one token (and, in a replay,
+ * to one run of the stream: re-key on `ReplayState.seeks`).
+ */
+interface TokenDetailPanelProps {
+  token: Token;
+  priceState: PriceState;
+  store: TokenStore;
+  // The recording's time during a replay (its samples carry recorded timestamps); null when live
+  replayNow: number | null;
+}
+
+export const TokenDetailPanel: React.FC<TokenDetailPanelProps> = ({ token, priceState, store, replayNow }) => {
+  const [chartWindow, setChartWindow] = useState<ChartWindow>('1m');
+  const samples = useTokenSamples(store, token.id, token.priceUSD);
+  const wallNow = useNow(1000);
+  const now = replayNow ?? wallNow;
+
+  const candles = useMemo(() => aggregateCandles(samples, chartWindow, now), [samples, chartWindow, now]);
+  const windowChange = candles.length > 0
+    ? ((candles[candles.length - 1].close - candles[0].open) / candles[0].open) * 100
+    : 0;
+
+  const chain = getChain(token.chain);
+  const tokenUrl = explorerTokenUrl(token);
+  const pairUrl = explorerAddressUrl(token.chain, token.pairAddress);
+  const chart = chartUrl(token);
+  const risk = store.getRiskScore(token);
+
+  const priceColorClass = priceState.trend === 'up'
+    ? COLOR.GREEN_TREND
+    : priceState.trend === 'down'
+      ? COLOR.RED_TREND
+      : 'text-white';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-white font-semibold truncate">{token.name}</p>
+          <p className={`text-xs ${COLOR.TEXT_MUTED} flex items-center gap-1`}>
+            {token.symbol} / <ChainIcon chain={token.chain} /> {chain?.name ?? token.chain}
+          </p>
+        </div>
+        <StatusBadge status={token.status} />
+      </div>
+
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <p className={`text-2xl font-bold font-mono transition-colors duration-300 ${priceColorClass}`}>
+            {formatUSD(token.priceUSD)}
+          </p>
+          <p className={`text-xs ${windowChange >= 0 ? COLOR.GREEN_TREND : COLOR.RED_TREND}`}>
+            {windowChange >= 0 ? '+' : ''}{windowChange.toFixed(2)}% ({chartWindow})
+          </p>
+        </div>
+        <div className="flex space-x-1" role="group" aria-label="Chart window">
+          {CHART_WINDOW_KEYS.map(key => (
+            <button
+              key={key}
+              onClick={() => setChartWindow(key)}
+              aria-pressed={chartWindow === key}
+              className={`px-2.5 py-1 text-xs rounded-md font-mono transition-colors ${
+                chartWindow === key ? 'bg-cyan-500/20 text-cyan-400' : `${COLOR.TEXT_MUTED} hover:bg-gray-700/50`
+              }`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={`${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-lg p-3`}>
+        <CandleChart candles={candles} />
+      </div>
+
+      <dl className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <Stat label="Pair">{token.pair}</Stat>
+        <Stat label="Chain" mono={false}>{chain?.name ?? token.chain}</Stat>
+        <Stat label="Score">{risk.total}/100</Stat>
+        <Stat label="Market Cap">${formatCompactNumber(token.marketCap)}</Stat>
+        <Stat label="Liquidity">${formatCompactNumber(token.liquidity)}</Stat>
+        <Stat label="Volume (24h)">${formatCompactNumber(token.volume24h)}</Stat>
+        <Stat label="Launched" mono={false}>
+          <span title={new Date(token.launchTime).toLocaleString()}>{formatAge(Math.max(0, now - token.launchTime))}</span>
+        </Stat>
+        <Stat label="Bonding" mono={false}><BondingBar progress={token.bondingProgress} /></Stat>
+        <Stat label="Contract"><span title={token.address}>{shortAddress(token.address)}</span></Stat>
+        <Stat label="Pair Address"><span title={token.pairAddress}>{shortAddress(token.pairAddress)}</span></Stat>
+        <Stat label="Token ID">{token.id}</Stat>
+        <Stat label="Ticks Recorded">{samples.length}</Stat>
+      </dl>
+
+      <section className={`${COLOR.BORDER} border rounded-lg p-3`} aria-labelledby="risk-score-heading">
+        <h3 id="risk-score-heading" className="text-sm font-semibold text-white mb-2 flex items-center justify-between">
+          Risk Score
+          <span className="font-mono text-pink-400">{risk.total}/100</span>
+        </h3>
+        <ScoreBreakdown factors={risk.factors} detailed />
+      </section>
+
+      {chain && (
+        <div className="flex flex-wrap gap-2">
+          {tokenUrl && <ExternalAnchor href={tokenUrl}>Token on {chain.explorer.name}</ExternalAnchor>}
+          {pairUrl && <ExternalAnchor href={pairUrl}>Pair on {chain.explorer.name}</ExternalAnchor>}
+          {chart && <ExternalAnchor href={chart}>Chart on {chain.chart.name}</ExternalAnchor>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import { formatSignedUSD, formatTokenAmount, formatUSD } from '../lib/format';
+import type { Order, OrderStatus } from '../lib/trading/execution';
+import { averageEntryPrice, type Position } from '../lib/trading/positions';
+import { quoteTrade, type TradeSide } from '../lib/trading/quote';
+import {
+  BUY_AMOUNT_PRESETS_USD,
+  MAX_SLIPPAGE_PCT,
+  PRIORITY_FEE_PRESETS,
+  SELL_AMOUNT_PRESETS_PCT,
+  SLIPPAGE_PRESETS_PCT,
+  type TradeSettings,
+} from '../lib/trading/settings';
+import { isOpenOrder, type OrderInput } from '../lib/trading/tradeStore';
+import type { Token } from '../lib/types';
+import { COLOR } from './ui';
+
+// Price impact above this is flagged
+const HIGH_IMPACT_PCT = 5;
+// Orders of this token listed under the form
+const RECENT_ORDERS = 5;
+
+const pillClass = (active: boolean) =>
+  `px-2.5 py-1 text-xs rounded-md font-mono transition-colors ${
+    active ? 'bg-cyan-500/20 text-cyan-400' : `${COLOR.TEXT_MUTED} bg-gray-800 hover:bg-gray-700/50`
+  }`;
+
+/**
+ * Numeric input that keeps the raw text while typing and only reports valid values.
+ */
+interface NumberFieldProps {
+  value: number;
+  onChange: (value: number) => void;
+  min: number;
+  max?: number;
+  label: string;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ value, onChange, min, max = Infinity, label }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  return (
+    <input
+      type="number"
+      inputMode="decimal"
+      min={min}
+      max={Number.isFinite(max) ? max : undefined}
+      step="any"
+      value={draft ?? (value > 0 ? String(value) : '')}
+      onChange={e => {
+        setDraft(e.target.value);
+        const parsed = Number(e.target.value);
+        if (e.target.value !== '' && Number.isFinite(parsed) && parsed >= min && parsed <= max) onChange(parsed);
+      }}
+      onBlur={() => setDraft(null)}
+      aria-label={label}
+      className={`w-24 ${COLOR.BG_PRIMARY} ${COLOR.BORDER} border rounded-md px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-cyan-500`}
+    />
+  );
+};
+
+const STATUS_STYLE: Record<OrderStatus, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'text-gray-300 bg-gray-700/50' },
+  submitted: { label: 'Submitted', className: 'text-yellow-400 bg-yellow-500/15' },
+  confirmed: { label: 'Filled', className: 'text-green-400 bg-green-500/15' },
+  failed: { label: 'Failed', className: 'text-red-400 bg-red-500/15' },
+};
+
+const OrderStatusBadge: React.FC<{ status: OrderStatus }> = ({ status }) => {
+  const { label, className } = STATUS_STYLE[status];
+  const Icon = status === 'confirmed' ? Check : status === 'failed' ? X : Loader2;
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-[11px] font-medium ${className}`}>
+      <Icon className={`w-3 h-3 mr-1 ${status === 'pending' || status === 'submitted' ? 'animate-spin' : ''}`} aria-hidden="true" />
+      {label}
+    </span>
+  );
+};
+
+const describeOrder = (order: Order) => {
+  const spent = order.side === 'buy' ? formatUSD(order.amountIn) : `${formatTokenAmount(order.amountIn)} ${order.symbol}`;
+  if (order.fill) {
+    const received = order.side === 'buy' ? `${formatTokenAmount(order.fill.amountOut)} ${order.symbol}` : formatUSD(order.fill.amountOut);
+    return `${spent} → ${received}`;
+  }
+  return order.error ? `${spent}: ${order.error}` : spent;
+};
+
+const pnlClass = (value: number) => (value > 0 ? COLOR.GREEN_TREND : value < 0 ? COLOR.RED_TREND : COLOR.TEXT_MUTED);
+
+/**
+ * Buy / sell form for one token with a live constant-product estimate, plus the token's
+ * recent orders and every open position. The buy amount, slippage and priority fee are the
+ * shared trade settings, so they also drive the row "Buy" buttons.
+ */
+interface TradePanelProps {
+  token: Token;
+  adapterLabel: string;
+  settings: TradeSettings;
+  onUpdateSettings: (patch: Partial<TradeSettings>) => void;
+  orders: Order[];
+  positions: Record<string, Position>;
+  onPlaceOrder: (input: OrderInput) => void;
+  onSelectToken: (id: string) => void;
+}
+
+export const TradePanel: React.FC<TradePanelProps> = ({
+  token, adapterLabel, settings, onUpdateSettings, orders, positions, onPlaceOrder, onSelectToken,
+}) => {
+  const [side, setSide] = useState<TradeSide>('buy');
+  const [sellAmount, setSellAmount] = useState(0);
+
+  const position = positions[token.id];
+  const held = position?.amount ?? 0;
+  const amountIn = side === 'buy' ? settings.quickBuyUsd : Math.min(sellAmount, held);
+  const quote = quoteTrade(token, side, amountIn, settings.slippagePct);
+  // One sell at a time per token, so a second click can't sell the same tokens again
+  const sellOpen = orders.some(order => isOpenOrder(order) && order.side === 'sell' && order.tokenId === token.id);
+  const canSubmit = quote !== null && (side === 'buy' || (held > 0 && !sellOpen));
+
+  const tokenOrders = orders.filter(order => order.tokenId === token.id).slice(0, RECENT_ORDERS);
+  const openPositions = Object.values(positions)
+    .filter(entry => entry.amount > 0)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onPlaceOrder({ token, side, amountIn, slippagePct: settings.slippagePct, priorityFeeUsd: settings.priorityFeeUsd });
+  };
+
+  return (
+    <section className={`${COLOR.BORDER} border rounded-lg p-3 space-y-3`} aria-labelledby="trade-heading">
+      <div className="flex items-center justify-between">
+        <h3 id="trade-heading" className="text-sm font-semibold text-white">Trade {token.symbol}</h3>
+        <span className="text-[11px] uppercase tracking-wide text-yellow-400">{adapterLabel}</span>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-2 gap-1 p-0.5 rounded-lg bg-gray-800" role="group" aria-label="Side">
+          {(['buy', 'sell'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setSide(option)}
+              aria-pressed={side === option}
+              className={`py-1.5 text-sm font-semibold rounded-md capitalize transition-colors ${
+                side === option
+                  ? option === 'buy' ? 'bg-green-600 text-white' : 'bg-red-600 text-white'
+                  : `${COLOR.TEXT_MUTED} hover:text-white`
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <p className={`text-xs ${COLOR.TEXT_MUTED}`}>
+            {side === 'buy' ? 'Amount (USD, also used by quick buy)' : `Amount (${token.symbol}, ${formatTokenAmount(held)} held)`}
+          </p>
+          <div className="flex flex-wrap items-center gap-1">
+            {side === 'buy'
+              ? BUY_AMOUNT_PRESETS_USD.map(usd => (
+                <button key={usd} type="button" onClick={() => onUpdateSettings({ quickBuyUsd: usd })} aria-pressed={settings.quickBuyUsd === usd} className={pillClass(settings.quickBuyUsd === usd)}>
+                  ${usd}
+                </button>
+              ))
+              : SELL_AMOUNT_PRESETS_PCT.map(pct => (
+                <button key={pct} type="button" disabled={held === 0 || sellOpen} onClick={() => setSellAmount(held * pct / 100)} className={`${pillClass(held > 0 && sellAmount === held * pct / 100)} disabled:opacity-40`}>
+                  {pct}%
+                </button>
+              ))}
+            {side === 'buy'
+              ? <NumberField value={settings.quickBuyUsd} onChange={usd => onUpdateSettings({ quickBuyUsd: usd })} min={0.01} label="Buy amount in USD" />
+              : <NumberField value={sellAmount} onChange={setSellAmount} min={0} max={held} label={`Sell amount in ${token.symbol}`} />}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <p className={`text-xs ${COLOR.TEXT_MUTED}`}>Slippage tolerance (%)</p>
+            <div className="flex flex-wrap items-center gap-1">
+              {SLIPPAGE_PRESETS_PCT.map(pct => (
+                <button key={pct} type="button" onClick={() => onUpdateSettings({ slippagePct: pct })} aria-pressed={settings.slippagePct === pct} className={pillClass(settings.slippagePct === pct)}>
+                  {pct}%
+                </button>
+              ))}
+              <NumberField value={settings.slippagePct} onChange={pct => onUpdateSettings({ slippagePct: pct })} min={0} max={MAX_SLIPPAGE_PCT} label="Slippage tolerance in percent" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <p className={`text-xs ${COLOR.TEXT_MUTED}`}>Priority fee</p>
+            <div className="flex flex-wrap items-center gap-1">
+              {PRIORITY_FEE_PRESETS.map(({ label, usd }) => (
+                <button key={label} type="button" onClick={() => onUpdateSettings({ priorityFeeUsd: usd })} aria-pressed={settings.priorityFeeUsd === usd} className={pillClass(settings.priorityFeeUsd === usd)} title={formatUSD(usd)}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <dl className={`${COLOR.BG_PRIMARY} rounded-lg px-3 py-2 text-xs space-y-1`} aria-live="polite">
+          {quote ? (
+            <>
+              <div className="flex justify-between">
+                <dt className={COLOR.TEXT_MUTED}>Estimated output</dt>
+                <dd className="text-white font-mono">
+                  {side === 'buy' ? `${formatTokenAmount(quote.amountOut)} ${token.symbol}` : formatUSD(quote.amountOut)}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className={COLOR.TEXT_MUTED}>Minimum received</dt>
+                <dd className="text-white font-mono">
+                  {side === 'buy' ? `${formatTokenAmount(quote.minAmountOut)} ${token.symbol}` : formatUSD(quote.minAmountOut)}
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className={COLOR.TEXT_MUTED}>Price impact</dt>
+                <dd className={`font-mono ${quote.priceImpactPct > HIGH_IMPACT_PCT ? COLOR.RED_TREND : 'text-white'}`}>
+                  {quote.priceImpactPct < 0.01 ? '<0.01' : quote.priceImpactPct.toFixed(2)}%
+                </dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className={COLOR.TEXT_MUTED}>Average price</dt>
+                <dd className="text-white font-mono">{formatUSD(quote.executionPrice)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className={COLOR.TEXT_MUTED}>Pool fee + priority fee</dt>
+                <dd className="text-white font-mono">
+                  {formatUSD(side === 'buy' ? quote.fee : quote.fee * token.priceUSD)} + {formatUSD(settings.priorityFeeUsd)}
+                </dd>
+              </div>
+            </>
+          ) : (
+            <p className={COLOR.TEXT_MUTED}>
+              {side === 'sell' && held === 0 ? `You hold no ${token.symbol}.` : 'Enter an amount to see an estimate.'}
+            </p>
+          )}
+        </dl>
+
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className={`w-full py-2 rounded-lg text-white font-semibold transition-colors disabled:opacity-40 ${
+            side === 'buy' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+          }`}
+        >
+          {side === 'buy'
+            ? `Buy ${token.symbol} for ${formatUSD(amountIn)}`
+            : sellOpen ? 'Waiting for the open sell order...' : `Sell ${formatTokenAmount(amountIn)} ${token.symbol}`}
+        </button>
+      </form>
+
+      {tokenOrders.length > 0 && (
+        <div className="space-y-1">
+          <h4 className={`text-xs font-semibold uppercase tracking-wide ${COLOR.TEXT_MUTED}`}>Orders</h4>
+          <ul className="space-y-1">
+            {tokenOrders.map(order => (
+              <li key={order.id} className="flex items-center gap-2 text-xs">
+                <OrderStatusBadge status={order.status} />
+                <span className={`uppercase font-semibold ${order.side === 'buy' ? COLOR.GREEN_TREND : COLOR.RED_TREND}`}>{order.side}</span>
+                <span className="flex-1 text-gray-300 truncate" title={order.txHash ?? undefined}>{describeOrder(order)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {openPositions.length > 0 && (
+        <div className="space-y-1">
+          <h4 className={`text-xs font-semibold uppercase tracking-wide ${COLOR.TEXT_MUTED}`}>Positions</h4>
+          <ul className="space-y-1">
+            {openPositions.map(entry => (
+              <li key={entry.tokenId}>
+                <button
+                  onClick={() => onSelectToken(entry.tokenId)}
+                  disabled={entry.tokenId === token.id}
+                  className={`w-full grid grid-cols-[1fr_auto_auto] gap-3 px-2 py-1 rounded-md text-xs text-left transition-colors ${
+                    entry.tokenId === token.id ? 'bg-gray-800' : 'hover:bg-gray-800'
+                  }`}
+                >
+                  <span className="text-white font-semibold truncate">{entry.symbol}</span>
+                  <span className="text-gray-300 font-mono">{formatTokenAmount(entry.amount)} @ {formatUSD(averageEntryPrice(entry) ?? 0)}</span>
+                  <span className={`font-mono ${pnlClass(entry.realizedPnlUsd)}`} title="Realized PnL">
+                    {formatSignedUSD(entry.realizedPnlUsd)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,488 @@
+import React from 'react';
+import { ExternalLink, Loader2, Star, Zap } from 'lucide-react';
+import type { ColumnLayoutSpec } from '../lib/columnLayout';
+import type { ExportField } from '../lib/exportTable';
+import { formatCompactNumber, formatSignedUSD, formatTokenAmount, formatUSD } from '../lib/format';
+import type { RiskScore } from '../lib/scoring';
+import type { TokenFieldMatch, TokenSearchField } from '../lib/search';
+import type { PositionMark } from '../lib/trading/portfolio';
+import type { PriceState, Token } from '../lib/types';
+import { chartUrl, getChain } from '../lib/chains';
+import { BondingBar, ChainIcon, COLOR, HighlightedText, ScoreBreakdown, StatusBadge, Tooltip } from './ui';
+
+// --- Column registry ---
+// Every table column is defined once here: its header, cell renderer, loading skeleton and
+// export fields.
+// TableHead, TableRow and SkeletonRow just walk the visible columns of the current layout.
+
+export type ColumnAlign = 'left' | 'right' | 'center';
+
+// Everything a cell may need besides the token itself
+export type CellContext = {
+  token: Token;
+  priceState: PriceState;
+  sparkline: number[] | undefined;
+  isWatched: boolean;
+  searchMatch: TokenFieldMatch | undefined;
+  // Migrated within the last few minutes (lib/lifecycle.ts)
+  isRecentlyMigrated: boolean;
+  onToggleWatch: (id: string) => void;
+  // A trade order for this token is still on its way
+  hasOpenOrder: boolean;
+  // USD a quick buy spends (trade settings)
+  quickBuyUsd: number;
+  onQuickBuy: (token: Token) => void;
+  // Paper portfolio holding of this token, marked to the live price
+  position: PositionMark | undefined;
+  // Feed time (the recording's time during a replay), for launch ages
+  now: number;
+  // Breakdown behind `token.score` (TokenStore.getRiskScore)
+  risk: RiskScore;
+};
+
+// Matched positions in `field`, when that is where the search matched
+const highlightIn = (match: TokenFieldMatch | undefined, field: TokenSearchField) =>
+  match?.field === field ? match.indices : [];
+
+export type ColumnDef = ColumnLayoutSpec & {
+  id: ColumnId;
+  label: string;
+  // Token field the header sorts by; omitted for columns that can't be sorted
+  sortKey?: keyof Token;
+  align: ColumnAlign;
+  renderCell: (ctx: CellContext) => React.ReactNode;
+  renderSkeleton: () => React.ReactNode;
+  // What the column contributes to CSV / TSV / JSON exports of the table
+  exportFields: ExportField[];
+};
+
+export type ColumnId =
+  | 'name' | 'status' | 'bondingProgress' | 'priceUSD' | 'change1m' | 'change5m' | 'change1h'
+  | 'marketCap' | 'volume24h' | 'liquidity' | 'launchTime' | 'score' | 'trade' | 'position' | 'pnl';
+
+export const ALIGN_CLASS: Record<ColumnAlign, string> = {
+  left: 'justify-start',
+  right: 'justify-end',
+  center: 'justify-center',
+};
+
+const SPARKLINE_WIDTH = 64;
+const SPARKLINE_HEIGHT = 20;
+
+/**
+ * Compact inline price line (last 5 minutes from the rolling history).
+ */
+const Sparkline: React.FC<{ points: number[] }> = ({ points }) => {
+  if (points.length < 2) return <span className={`w-16 text-center text-xs ${COLOR.TEXT_MUTED}`}>-</span>;
+
+  const high = Math.max(...points);
+  const low = Math.min(...points);
+  const range = high - low || 1;
+  const path = points
+    .map((price, i) => {
+      const x = (i / (points.length - 1)) * SPARKLINE_WIDTH;
+      const y = SPARKLINE_HEIGHT - 1 - ((price - low) / range) * (SPARKLINE_HEIGHT - 2);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+  const color = points[points.length - 1] >= points[0] ? '#48ef7a' : '#ff4757';
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`} aria-hidden="true">
+      <path d={path} fill="none" stroke={color} strokeWidth={1.25} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+const formatChange = (change: number | null | undefined) => {
+  if (change === null || change === undefined) return { text: '-', className: COLOR.TEXT_MUTED };
+  return {
+    text: `${change > 0 ? '+' : ''}${change.toFixed(2)}%`,
+    className: change > 0 ? COLOR.GREEN_TREND : change < 0 ? COLOR.RED_TREND : COLOR.TEXT_MUTED,
+  };
+};
+
+const formatLaunchTime = (timestamp: number, now: number) => {
+  const diff = now - timestamp;
+  const hours = Math.floor(diff / 3600000);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+};
+
+const changeExport = (label: string, key: 'change1m' | 'change5m' | 'change1h'): ExportField => ({
+  label,
+  raw: token => token[key] ?? null,
+  display: token => formatChange(token[key]).text,
+});
+
+const renderChange = (change: number | null | undefined) => {
+  const { text, className } = formatChange(change);
+  return <span className={`text-xs font-mono ${className}`}>{text}</span>;
+};
+
+// Skeleton building blocks
+const SkeletonBar = ({ width = 'w-16', shade = 'bg-gray-700' }: { width?: string; shade?: string }) => (
+  <div className={`${width} h-4 ${shade} rounded-full`}></div>
+);
+const SkeletonChange = () => <div className="w-12 h-3 bg-gray-800 rounded-full"></div>;
+
+const BOTH: ColumnLayoutSpec['defaultVisibility'] = { mobile: true, desktop: true };
+const DESKTOP_ONLY: ColumnLayoutSpec['defaultVisibility'] = { mobile: false, desktop: true };
+// Opt-in from the Columns dialog
+const HIDDEN: ColumnLayoutSpec['defaultVisibility'] = { mobile: false, desktop: false };
+
+export const COLUMNS: ColumnDef[] = [
+  {
+    id: 'name',
+    label: 'Token',
+    sortKey: 'name',
+    align: 'left',
+    defaultWidth: 200,
+    minWidth: 140,
+    defaultVisibility: BOTH,
+    required: true,
+    renderCell: ({ token, isWatched, searchMatch, onToggleWatch }) => (
+      <div className="flex items-center space-x-3 min-w-0">
+        <button
+          onClick={(e) => { e.stopPropagation(); onToggleWatch(token.id); }} // Prevent row click
+          tabIndex={-1} // Reached through grid navigation
+          data-grid-focus
+          className={`p-1 -ml-1 rounded-full flex-shrink-0 transition-colors ${isWatched ? 'text-yellow-400' : 'text-gray-600 hover:text-yellow-400'}`}
+          aria-label={isWatched ? `Remove ${token.symbol} from watchlist` : `Add ${token.symbol} to watchlist`}
+          aria-pressed={isWatched}
+        >
+          <Star className={`w-4 h-4 ${isWatched ? 'fill-current' : ''}`} />
+        </button>
+        <div className="relative w-7 h-7 rounded-full bg-gradient-to-br from-blue-500 to-cyan-400 flex items-center justify-center font-bold text-sm text-white flex-shrink-0">
+          {token.symbol.slice(0, 1)}
+          <ChainIcon chain={token.chain} className="absolute -bottom-1 -right-1 w-3.5 h-3.5 text-[8px] ring-2 ring-[#1a1a1e]" />
+        </div>
+        <div className="flex flex-col min-w-0">
+          <span className="font-semibold text-white text-sm truncate">
+            <HighlightedText text={token.name} indices={highlightIn(searchMatch, 'name')} />
+          </span>
+          <span className={`${COLOR.TEXT_MUTED} text-xs truncate`}>
+            {/* A pair match shows the pair in place of the chain */}
+            {searchMatch?.field === 'pair'
+              ? <HighlightedText text={token.pair} indices={searchMatch.indices} />
+              : <><HighlightedText text={token.symbol} indices={highlightIn(searchMatch, 'symbol')} /> / {token.chain}</>}
+          </span>
+        </div>
+      </div>
+    ),
+    renderSkeleton: () => (
+      <div className="flex items-center space-x-3">
+        <div className="w-7 h-7 rounded-full bg-gray-700"></div>
+        <div className="flex flex-col space-y-1">
+          <div className="w-20 h-3 bg-gray-700 rounded-full"></div>
+          <div className="w-12 h-2 bg-gray-800 rounded-full"></div>
+        </div>
+      </div>
+    ),
+    exportFields: [
+      { label: 'Token', raw: token => token.name, display: token => token.name },
+      { label: 'Symbol', raw: token => token.symbol, display: token => token.symbol },
+      { label: 'Chain', raw: token => token.chain, display: token => getChain(token.chain)?.name ?? token.chain },
+      { label: 'Address', raw: token => token.address, display: token => token.address },
+    ],
+  },
+  {
+    id: 'status',
+    label: 'Stage',
+    sortKey: 'status',
+    align: 'center',
+    defaultWidth: 130,
+    minWidth: 100,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token, isRecentlyMigrated }) => (
+      <div className="flex flex-col items-center">
+        <StatusBadge status={token.status} />
+        {isRecentlyMigrated && <span className="mt-1 text-[10px] font-semibold uppercase tracking-wide text-green-400">Just migrated</span>}
+      </div>
+    ),
+    renderSkeleton: () => <SkeletonBar shade="bg-gray-800" />,
+    exportFields: [{ label: 'Stage', raw: token => token.status, display: token => token.status }],
+  },
+  {
+    id: 'bondingProgress',
+    label: 'Bonding',
+    sortKey: 'bondingProgress',
+    align: 'left',
+    defaultWidth: 110,
+    minWidth: 80,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token }) => <BondingBar progress={token.bondingProgress} />,
+    renderSkeleton: () => <div className="w-full h-1.5 bg-gray-800 rounded-full"></div>,
+    exportFields: [{
+      label: 'Bonding (%)',
+      raw: token => token.bondingProgress,
+      display: token => `${token.bondingProgress.toFixed(1)}%`,
+    }],
+  },
+  {
+    id: 'priceUSD',
+    label: 'Price (USD)',
+    sortKey: 'priceUSD',
+    align: 'right',
+    defaultWidth: 120,
+    minWidth: 90,
+    defaultVisibility: BOTH,
+    // Dynamic transition effect driven by the previous price
+    renderCell: ({ token, priceState }) => {
+      const priceColorClass = priceState.trend === 'up'
+        ? `${COLOR.GREEN_TREND} bg-green-900/20`
+        : priceState.trend === 'down'
+          ? `${COLOR.RED_TREND} bg-red-900/20`
+          : 'text-white bg-transparent';
+
+      // Calculate the difference in percentage for a more complex UI
+      const priceDiff = ((token.priceUSD - priceState.priceUSD) / priceState.priceUSD) * 100;
+      const priceDiffText = isNaN(priceDiff) || priceState.trend === 'neutral'
+        ? ''
+        : `${priceDiff > 0 ? '+' : ''}${priceDiff.toFixed(2)}%`;
+
+      return (
+        <div className="flex flex-col items-end">
+          <span
+            className={`font-mono text-sm font-bold transition-colors duration-300 ease-in-out px-2 py-0.5 rounded-md self-end ${priceColorClass}`}
+          >
+            {formatUSD(token.priceUSD)}
+          </span>
+          {priceDiffText && (
+            <span className={`text-xs mt-1 ${priceState.trend === 'up' ? COLOR.GREEN_TREND : COLOR.RED_TREND}`}>
+              {/* Direction is also given as a glyph / text, not only by color */}
+              <span aria-hidden="true">{priceState.trend === 'up' ? '▲ ' : '▼ '}</span>
+              <span className="sr-only">{priceState.trend === 'up' ? 'up ' : 'down '}</span>
+              {priceDiffText}
+            </span>
+          )}
+        </div>
+      );
+    },
+    renderSkeleton: () => <SkeletonBar />,
+    exportFields: [{ label: 'Price (USD)', raw: token => token.priceUSD, display: token => formatUSD(token.priceUSD) }],
+  },
+  {
+    id: 'change1m',
+    label: '1m %',
+    sortKey: 'change1m',
+    align: 'right',
+    defaultWidth: 80,
+    minWidth: 60,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token }) => renderChange(token.change1m),
+    renderSkeleton: () => <SkeletonChange />,
+    exportFields: [changeExport('1m %', 'change1m')],
+  },
+  {
+    id: 'change5m',
+    label: '5m',
+    sortKey: 'change5m',
+    align: 'right',
+    defaultWidth: 100,
+    minWidth: 80,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token, sparkline }) => (
+      <div className="flex flex-col items-end">
+        <Sparkline points={sparkline ?? []} />
+        {renderChange(token.change5m)}
+      </div>
+    ),
+    renderSkeleton: () => <SkeletonChange />,
+    exportFields: [changeExport('5m %', 'change5m')],
+  },
+  {
+    id: 'change1h',
+    label: '1h %',
+    sortKey: 'change1h',
+    align: 'right',
+    defaultWidth: 80,
+    minWidth: 60,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token }) => renderChange(token.change1h),
+    renderSkeleton: () => <SkeletonChange />,
+    exportFields: [changeExport('1h %', 'change1h')],
+  },
+  {
+    id: 'marketCap',
+    label: 'M. Cap',
+    sortKey: 'marketCap',
+    align: 'right',
+    defaultWidth: 100,
+    minWidth: 70,
+    defaultVisibility: BOTH,
+    renderCell: ({ token }) => <span className="text-sm text-white font-mono">{formatCompactNumber(token.marketCap)}</span>,
+    renderSkeleton: () => <SkeletonBar />,
+    exportFields: [{ label: 'M. Cap', raw: token => token.marketCap, display: token => formatCompactNumber(token.marketCap) }],
+  },
+  {
+    id: 'volume24h',
+    label: 'Volume (24h)',
+    sortKey: 'volume24h',
+    align: 'right',
+    defaultWidth: 110,
+    minWidth: 70,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token }) => <span className={`text-sm ${COLOR.TEXT_MUTED} font-mono`}>{formatCompactNumber(token.volume24h)}</span>,
+    renderSkeleton: () => <SkeletonBar shade="bg-gray-800" />,
+    exportFields: [{ label: 'Volume (24h)', raw: token => token.volume24h, display: token => formatCompactNumber(token.volume24h) }],
+  },
+  {
+    id: 'liquidity',
+    label: 'Liquidity',
+    sortKey: 'liquidity',
+    align: 'right',
+    defaultWidth: 100,
+    minWidth: 70,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token }) => <span className={`text-sm ${COLOR.TEXT_MUTED} font-mono`}>{formatCompactNumber(token.liquidity)}</span>,
+    renderSkeleton: () => <SkeletonBar shade="bg-gray-800" />,
+    exportFields: [{ label: 'Liquidity', raw: token => token.liquidity, display: token => formatCompactNumber(token.liquidity) }],
+  },
+  {
+    id: 'launchTime',
+    label: 'Launch',
+    sortKey: 'launchTime',
+    align: 'center',
+    defaultWidth: 80,
+    minWidth: 60,
+    defaultVisibility: BOTH,
+    renderCell: ({ token, now }) => <span className={`text-xs ${COLOR.TEXT_MUTED}`}>{formatLaunchTime(token.launchTime, now)}</span>,
+    renderSkeleton: () => <div className="w-10 h-3 bg-gray-800 rounded-full"></div>,
+    exportFields: [{ label: 'Launch', raw: token => token.launchTime, display: (token, { now }) => formatLaunchTime(token.launchTime, now) }],
+  },
+  {
+    id: 'score',
+    label: 'Score',
+    sortKey: 'score',
+    align: 'center',
+    defaultWidth: 100,
+    minWidth: 80,
+    defaultVisibility: BOTH,
+    renderCell: ({ token, risk }) => {
+      const chart = chartUrl(token);
+      return (
+        <div className="flex items-center justify-center space-x-3">
+          {/* Score Tooltip/Popover Integration (Mandatory Feature) */}
+          <Tooltip content={
+              <div className='flex flex-col text-left space-y-1 py-1'>
+                  <p className='font-bold'>Audit Score: {risk.total}/100</p>
+                  <ScoreBreakdown factors={risk.factors} />
+              </div>
+          } tabIndex={-1} data-grid-focus>
+              <div
+                  className="p-2 rounded-full bg-pink-600/20 text-pink-400 text-sm font-bold cursor-help ring-2 ring-pink-600/50"
+              >
+                  {risk.total}
+              </div>
+          </Tooltip>
+
+          {/* Action Button: View Chart (Hidden on mobile for space); none for chains missing from the registry */}
+          {chart && (
+            <a
+              href={chart}
+              onClick={(e) => { e.stopPropagation(); }} // Prevent row click
+              tabIndex={-1}
+              className="text-gray-500 hover:text-blue-400 transition-colors p-1 rounded-full group-hover:block hidden lg:block"
+              aria-label={`View ${token.symbol} chart on ${getChain(token.chain)?.chart.name}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </a>
+          )}
+        </div>
+      );
+    },
+    renderSkeleton: () => <div className="w-7 h-7 rounded-full bg-gray-700"></div>,
+    exportFields: [{ label: 'Score', raw: token => token.score, display: token => String(token.score) }],
+  },
+  {
+    id: 'trade',
+    label: 'Trade',
+    align: 'center',
+    defaultWidth: 90,
+    minWidth: 80,
+    defaultVisibility: DESKTOP_ONLY,
+    renderCell: ({ token, hasOpenOrder, quickBuyUsd, onQuickBuy }) => (
+      <button
+        onClick={(e) => { e.stopPropagation(); onQuickBuy(token); }} // Prevent row click
+        tabIndex={-1}
+        data-grid-focus
+        disabled={hasOpenOrder}
+        className="px-2.5 py-1 rounded-full text-xs font-semibold flex items-center text-green-400 bg-green-500/10 ring-1 ring-green-500/40 hover:bg-green-500/20 disabled:opacity-60 transition-colors"
+        aria-label={`Quick buy ${formatUSD(quickBuyUsd)} of ${token.symbol}`}
+        title={`Quick buy ${formatUSD(quickBuyUsd)}`}
+      >
+        {hasOpenOrder ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Zap className="w-3 h-3 mr-1" />}
+        Buy
+      </button>
+    ),
+    renderSkeleton: () => <div className="w-14 h-6 rounded-full bg-gray-800"></div>,
+    // An action, nothing to export
+    exportFields: [],
+  },
+  // Portfolio columns: read the row's marked position (empty for tokens not held)
+  {
+    id: 'position',
+    label: 'Position',
+    align: 'right',
+    defaultWidth: 120,
+    minWidth: 90,
+    defaultVisibility: HIDDEN,
+    renderCell: ({ token, position }) => position ? (
+      <div className="flex flex-col items-end">
+        <span className="text-sm text-white font-mono">{formatCompactNumber(position.valueUsd)}</span>
+        <span className={`text-xs ${COLOR.TEXT_MUTED} font-mono`}>{formatTokenAmount(position.position.amount)} {token.symbol}</span>
+      </div>
+    ) : <span className={`text-xs ${COLOR.TEXT_MUTED}`}>-</span>,
+    renderSkeleton: () => <SkeletonBar shade="bg-gray-800" />,
+    exportFields: [
+      {
+        label: 'Position (USD)',
+        raw: (_token, { position }) => position?.valueUsd ?? null,
+        display: (_token, { position }) => (position ? formatCompactNumber(position.valueUsd) : '-'),
+      },
+      {
+        label: 'Position (tokens)',
+        raw: (_token, { position }) => position?.position.amount ?? null,
+        display: (_token, { position }) => (position ? formatTokenAmount(position.position.amount) : '-'),
+      },
+    ],
+  },
+  {
+    id: 'pnl',
+    label: 'PnL',
+    align: 'right',
+    defaultWidth: 110,
+    minWidth: 80,
+    defaultVisibility: HIDDEN,
+    renderCell: ({ position }) => {
+      if (!position) return <span className={`text-xs ${COLOR.TEXT_MUTED}`}>-</span>;
+      const pnl = position.unrealizedPnlUsd;
+      const className = pnl > 0 ? COLOR.GREEN_TREND : pnl < 0 ? COLOR.RED_TREND : COLOR.TEXT_MUTED;
+      return (
+        <div className="flex flex-col items-end" title="Unrealized PnL">
+          <span className={`text-sm font-mono ${className}`}>{formatSignedUSD(pnl)}</span>
+          <span className={`text-xs font-mono ${className}`}>{pnl > 0 ? '+' : ''}{position.unrealizedPnlPct.toFixed(1)}%</span>
+        </div>
+      );
+    },
+    renderSkeleton: () => <SkeletonChange />,
+    exportFields: [
+      {
+        label: 'Unrealized PnL (USD)',
+        raw: (_token, { position }) => position?.unrealizedPnlUsd ?? null,
+        display: (_token, { position }) => (position ? formatSignedUSD(position.unrealizedPnlUsd) : '-'),
+      },
+      {
+        label: 'Unrealized PnL %',
+        raw: (_token, { position }) => position?.unrealizedPnlPct ?? null,
+        display: (_token, { position }) => (position ? `${position.unrealizedPnlPct > 0 ? '+' : ''}${position.unrealizedPnlPct.toFixed(1)}%` : '-'),
+      },
+    ],
+  },
+];
+
+export const COLUMN_BY_ID = Object.fromEntries(COLUMNS.map(column => [column.id, column])) as Record<ColumnId, ColumnDef>;
@@ -0,0 +1,265 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { CheckCircle, Clock, Info, X, Zap } from 'lucide-react';
+import { getChain } from '../lib/chains';
+import { FINAL_STRETCH_PROGRESS } from '../lib/lifecycle';
+import type { ScoreFactor } from '../lib/scoring';
+import type { Token } from '../lib/types';
+
+// Shared UI building blocks for the Pulse views.
+
+// Axiom-like specific colors for UI
+export const COLOR = {
+    BG_PRIMARY: 'bg-[#0e0e11]',
+    BG_SECONDARY: 'bg-[#1a1a20]',
+    BORDER: 'border-[#2a2a30]',
+    TEXT_MUTED: 'text-[#8e8e99]',
+    BLUE_ACCENT: 'text-[#00c6ff]',
+    GREEN_TREND: 'text-[#48ef7a]',
+    RED_TREND: 'text-[#ff4757]',
+};
+
+// --- SIMULATED SHADCN/RADIX UI COMPONENTS ---
+// Note: In a real app, these would be imported from the UI library.
+
+// Accessible Tooltip (WAI-ARIA APG tooltip pattern): opens on hover and keyboard focus,
+// Escape dismisses it, and the content is linked to the trigger via aria-describedby.
+// Extra props (tabIndex, data-* attributes) are passed to the trigger element.
+interface TooltipProps extends Omit<React.HTMLAttributes<HTMLDivElement>, 'content'> {
+    children: React.ReactNode;
+    content: React.ReactNode;
+}
+export const Tooltip = ({ children, content, tabIndex = 0, ...triggerProps }: TooltipProps) => {
+    const id = useId();
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <div
+            {...triggerProps}
+            className="relative cursor-help"
+            tabIndex={tabIndex}
+            aria-describedby={id}
+            onMouseEnter={() => setIsOpen(true)}
+            onMouseLeave={() => setIsOpen(false)}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => setIsOpen(false)}
+            onKeyDown={e => {
+                if (e.key === 'Escape' && isOpen) {
+                    // Only the tooltip closes, not an enclosing dialog
+                    e.stopPropagation();
+                    setIsOpen(false);
+                }
+            }}
+        >
+            {children}
+            <div
+                id={id}
+                role="tooltip"
+                className={`absolute top-full left-1/2 -translate-x-1/2 mt-2 px-3 py-1 text-xs text-white bg-gray-800 rounded-md transition-opacity duration-300 pointer-events-none whitespace-nowrap z-50 ${isOpen ? 'opacity-100' : 'opacity-0'}`}
+            >
+                {content}
+            </div>
+        </div>
+    );
+};
+
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Accessible modal Dialog (WAI-ARIA APG dialog pattern): role="dialog" + aria-modal, labelled
+// by its title, Escape closes it, Tab / Shift+Tab are trapped inside, focus moves into the
+// dialog on open and returns to the previously focused element on close.
+interface DialogProps {
+    isOpen: boolean;
+    onClose: () => void;
+    title: string;
+    children: React.ReactNode;
+    // Tailwind max-width class for the panel (defaults to max-w-lg)
+    maxWidthClass?: string;
+}
+export const Dialog: React.FC<DialogProps> = ({ isOpen, onClose, title, children, maxWidthClass = 'max-w-lg' }) => {
+    const titleId = useId();
+    const panelRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const previouslyFocused = document.activeElement as HTMLElement | null;
+        const panel = panelRef.current;
+        // First focusable element inside the content, falling back to the panel itself
+        const first = panel?.querySelector<HTMLElement>(`[data-dialog-body] :is(${FOCUSABLE_SELECTOR})`);
+        (first ?? panel)?.focus();
+        return () => previouslyFocused?.focus?.();
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            onClose();
+            return;
+        }
+        if (e.key !== 'Tab' || !panelRef.current) return;
+        const focusable = Array.from(panelRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+        if (focusable.length === 0) {
+            e.preventDefault();
+            return;
+        }
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && (document.activeElement === first || document.activeElement === panelRef.current)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+            e.preventDefault();
+            first.focus();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm transition-opacity" onClick={onClose}>
+            <div
+                ref={panelRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby={titleId}
+                tabIndex={-1}
+                onKeyDown={handleKeyDown}
+                className={`${COLOR.BG_SECONDARY} ${COLOR.BORDER} border rounded-xl shadow-2xl w-full ${maxWidthClass} m-4 max-h-[90vh] overflow-y-auto transform scale-100 transition-all duration-300 focus:outline-none`}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center p-5 border-b border-gray-700">
+                    <h3 id={titleId} className="text-xl font-bold text-white">{title}</h3>
+                    <button onClick={onClose} className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors" aria-label="Close dialog">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="p-5" data-dialog-body>
+                    {children}
+                </div>
+            </div>
+        </div>
+    );
+};
+// --- END SIMULATED COMPONENTS ---
+
+
+/**
+ * Component to render the status badge with Axiom-like styling.
+ */
+export const StatusBadge: React.FC<{ status: Token['status'] }> = ({ status }) => {
+    let colorClass = '';
+    let Icon = Info;
+    switch (status) {
+        case 'New pairs':
+            colorClass = 'bg-cyan-600/20 text-cyan-400 border-cyan-600/50';
+            Icon = Zap;
+            break;
+        case 'Final Stretch':
+            colorClass = 'bg-yellow-600/20 text-yellow-400 border-yellow-600/50';
+            Icon = Clock;
+            break;
+        case 'Migrated':
+            colorClass = 'bg-green-600/20 text-green-400 border-green-600/50';
+            Icon = CheckCircle;
+            break;
+    }
+    return (
+        <div className={`flex items-center justify-center py-1 px-2 rounded-full text-xs font-semibold border ${colorClass} w-full md:w-auto`}>
+            <Icon className="w-3 h-3 mr-1" />
+            <span className='whitespace-nowrap'>{status}</span>
+        </div>
+    );
+};
+
+/**
+ * Text with fuzzy-match positions highlighted (command palette, table search).
+ */
+export const HighlightedText: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+    if (indices.length === 0) return <>{text}</>;
+    const matched = new Set(indices);
+    // Consecutive matched / unmatched characters are grouped into runs
+    const runs: { text: string; matched: boolean }[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const isMatched = matched.has(i);
+        const last = runs[runs.length - 1];
+        if (last && last.matched === isMatched) last.text += text[i];
+        else runs.push({ text: text[i], matched: isMatched });
+    }
+    return (
+        <>
+            {runs.map((run, i) => run.matched
+                ? <mark key={i} className="bg-transparent text-cyan-300 font-bold">{run.text}</mark>
+                : <React.Fragment key={i}>{run.text}</React.Fragment>)}
+        </>
+    );
+};
+
+/**
+ * Bonding curve fill with its percentage; full (migrated) curves turn green.
+ */
+export const BondingBar: React.FC<{ progress: number }> = ({ progress }) => {
+    const clamped = Math.max(0, Math.min(100, progress));
+    return (
+        <div className="flex items-center w-full space-x-2">
+            <div
+                className="flex-1 h-1.5 rounded-full bg-gray-800 overflow-hidden"
+                role="progressbar"
+                aria-label="Bonding progress"
+                aria-valuenow={Math.round(clamped)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+            >
+                <div
+                    className={`h-full rounded-full transition-[width] duration-700 ${clamped >= 100 ? 'bg-green-500' : clamped >= FINAL_STRETCH_PROGRESS ? 'bg-yellow-400' : 'bg-cyan-500'}`}
+                    style={{ width: `${clamped}%` }}
+                />
+            </div>
+            <span className="text-[11px] font-mono text-gray-400 w-9 text-right">{clamped.toFixed(0)}%</span>
+        </div>
+    );
+};
+
+/**
+ * Chain badge from the chain registry; unknown chains fall back to their id's first letter.
+ */
+export const ChainIcon: React.FC<{ chain: Token['chain']; className?: string }> = ({ chain, className = 'w-3.5 h-3.5 text-[9px]' }) => {
+    const info = getChain(chain);
+    return (
+        <span
+            className={`inline-flex items-center justify-center rounded-full font-bold text-white leading-none flex-shrink-0 ${className}`}
+            style={{ backgroundColor: info?.icon.color ?? '#4b5563' }}
+            title={info?.name ?? chain}
+            aria-hidden="true"
+        >
+            {info?.icon.glyph ?? chain.slice(0, 1)}
+        </span>
+    );
+};
+
+const factorColor = (score: number) => (score >= 70 ? 'text-green-400' : score >= 40 ? 'text-yellow-400' : 'text-red-400');
+
+/**
+ * Risk score factors with their sub-scores and explanations (score tooltip, detail dialog).
+ * `detailed` adds each factor's bar and weight.
+ */
+export const ScoreBreakdown: React.FC<{ factors: ScoreFactor[]; detailed?: boolean }> = ({ factors, detailed = false }) => (
+    <ul className={detailed ? 'space-y-2' : 'space-y-1'}>
+        {factors.map(factor => (
+            <li key={factor.id} className="text-left">
+                <div className="flex items-center justify-between gap-4 text-xs">
+                    <span className="text-white">
+                        {factor.label}
+                        {detailed && <span className="ml-1 text-gray-500">×{factor.weight}</span>}
+                    </span>
+                    <span className={`font-mono font-bold ${factor.score === null ? 'text-gray-500' : factorColor(factor.score)}`}>
+                        {factor.score === null ? 'n/a' : factor.score}
+                    </span>
+                </div>
+                {detailed && factor.score !== null && (
+                    <div className="mt-1 h-1 rounded-full bg-gray-800 overflow-hidden">
+                        <div className={`h-full rounded-full ${factor.score >= 70 ? 'bg-green-500' : factor.score >= 40 ? 'bg-yellow-400' : 'bg-red-500'}`} style={{ width: `${factor.score}%` }} />
+                    </div>
+                )}
+                <p className="text-[11px] text-gray-400">{factor.explanation}</p>
+            </li>
+        ))}
+    </ul>
+);
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+  ALERTS_STORAGE_KEY,
+  createAlertEngine,
+  parseStoredAlertRules,
+  serializeAlertRules,
+  type AlertEvent,
+  type AlertRule,
+} from '../lib/alerts';
+import { createPersistedValue } from '../lib/persistedValue';
+import type { TokenStore } from '../lib/tokenStore';
+
+const rulesStorage = createPersistedValue<AlertRule[]>({
+  key: ALERTS_STORAGE_KEY,
+  parse: parseStoredAlertRules,
+  serialize: serializeAlertRules,
+  empty: [],
+});
+
+// Notification center history
+const MAX_EVENTS = 50;
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+const readPermission = (): NotificationPermissionState =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+// Permission can change outside the page (browser settings), so it's re-read when the tab regains focus
+const subscribePermission = (listener: () => void) => {
+  window.addEventListener('focus', listener);
+  return () => window.removeEventListener('focus', listener);
+};
+
+const getServerPermission = (): NotificationPermissionState => 'default';
+
+const deliverToBrowser = (event: AlertEvent) => {
+  if (readPermission() !== 'granted') return;
+  try {
+    // Same tag replaces an older notification for the same rule + token instead of stacking
+    new Notification(event.title, { body: event.message, tag: `${event.ruleId}:${event.tokenId}` });
+  } catch (err) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.warn('[alerts] browser notification failed', err);
+  }
+};
+
+/**
+ * Persisted alert rules plus their evaluation against the token store. Rules are checked
+ * on every store commit (i.e. every update `useRealtimeTokens` renders); fired alerts go to
+ * the in-app notification center, as toasts, and optionally to the Web Notifications API.
+ */
+export const useAlerts = (store: TokenStore) => {
+  const rules = useSyncExternalStore(rulesStorage.subscribe, rulesStorage.getSnapshot, rulesStorage.getServerSnapshot);
+  const [engine] = useState(createAlertEngine);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [unread, setUnread] = useState(0);
+  const permission = useSyncExternalStore(subscribePermission, readPermission, getServerPermission);
+  // Bumped after a permission prompt resolves so `permission` is re-read
+  const [, setPermissionPrompts] = useState(0);
+
+  useEffect(() => {
+    const check = () => {
+      // Connection status commits arrive before the snapshot; the baseline is taken from the snapshot
+      const { tokens, loading } = store.getSnapshot();
+      if (loading || tokens.length === 0) return;
+      const fired = engine.evaluate(rules, tokens, store.now());
+      if (fired.length === 0) return;
+
+      setEvents(prev => [...[...fired].reverse(), ...prev].slice(0, MAX_EVENTS));
+      setToasts(prev => [...prev, ...fired].slice(-3));
+      setUnread(n => n + fired.length);
+      fired.forEach(event => {
+        if (rules.find(rule => rule.id === event.ruleId)?.notifyBrowser) deliverToBrowser(event);
+      });
+    };
+
+    // The engine outlives rule edits, so re-subscribing here doesn't reset edge/cooldown state
+    return store.subscribe(check);
+  }, [store, rules, engine]);
+
+  const requestPermission = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    await Notification.requestPermission();
+    setPermissionPrompts(n => n + 1);
+  }, []);
+
+  const addRule = useCallback((rule: AlertRule) => {
+    rulesStorage.set([...rulesStorage.getSnapshot(), rule]);
+  }, []);
+
+  const updateRule = useCallback((id: string, changes: Partial<AlertRule>) => {
+    rulesStorage.set(rulesStorage.getSnapshot().map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  }, []);
+
+  const removeRule = useCallback((id: string) => {
+    rulesStorage.set(rulesStorage.getSnapshot().filter(rule => rule.id !== id));
+  }, []);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const markRead = useCallback(() => setUnread(0), []);
+
+  const clearEvents = useCallback(() => {
+    setEvents([]);
+    setUnread(0);
+  }, []);
+
+  return {
+    rules,
+    addRule,
+    updateRule,
+    removeRule,
+    events,
+    unread,
+    markRead,
+    clearEvents,
+    toasts,
+    dismissToast,
+    permission,
+    requestPermission,
+  };
+};
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import type { Breakpoint } from '../lib/columnLayout';
+
+// Tailwind's `md:` breakpoint, which switches the table between its mobile and desktop columns
+const DESKTOP_QUERY = '(min-width: 768px)';
+
+const subscribe = (listener: () => void) => {
+  const query = window.matchMedia(DESKTOP_QUERY);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
+
+const getSnapshot = (): Breakpoint => (window.matchMedia(DESKTOP_QUERY).matches ? 'desktop' : 'mobile');
+
+const getServerSnapshot = (): Breakpoint => 'desktop';
+
+/**
+ * The active column-layout breakpoint, for logic that needs to know which columns are on
+ * screen (CSS alone handles the rendering).
+ */
+export const useBreakpoint = (): Breakpoint => useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
@@ -0,0 +1,132 @@
+import { useCallback, useMemo, useState, useSyncExternalStore } from 'react';
+import { COLUMN_BY_ID, COLUMNS, type ColumnDef, type ColumnId } from '../components/columns';
+import {
+  COLUMN_LAYOUT_SCHEMA_VERSION,
+  COLUMN_LAYOUT_STORAGE_KEY,
+  clampWidth,
+  createDefaultLayout,
+  moveColumn as moveColumnInLayout,
+  parseStoredColumnLayouts,
+  serializeColumnLayouts,
+  type Breakpoint,
+  type ColumnLayout,
+  type ColumnLayoutState,
+  type ColumnVisibility,
+} from '../lib/columnLayout';
+import { createPersistedValue } from '../lib/persistedValue';
+
+const layoutStorage = createPersistedValue<ColumnLayoutState>({
+  key: COLUMN_LAYOUT_STORAGE_KEY,
+  parse: raw => parseStoredColumnLayouts(raw, COLUMNS),
+  serialize: serializeColumnLayouts,
+  empty: { version: COLUMN_LAYOUT_SCHEMA_VERSION, current: createDefaultLayout(COLUMNS), saved: [] },
+});
+
+// A column shown at one breakpoint at least, with its resolved width and display class
+export type LayoutColumn = {
+  def: ColumnDef;
+  width: number;
+  visibility: ColumnVisibility;
+  // Tailwind display classes implementing the per-breakpoint visibility
+  displayClass: string;
+};
+
+const displayClass = ({ mobile, desktop }: ColumnVisibility) =>
+  mobile && desktop ? 'flex' : desktop ? 'hidden md:flex' : 'flex md:hidden';
+
+const updateCurrent = (update: (layout: ColumnLayout) => ColumnLayout) => {
+  const state = layoutStorage.getSnapshot();
+  layoutStorage.set({ ...state, current: update(state.current) });
+};
+
+/**
+ * The persisted column layout (order, visibility per breakpoint, widths) and named layouts.
+ * Width changes from a resize drag are previewed locally and only persisted on commit.
+ */
+export const useColumnLayout = () => {
+  const state = useSyncExternalStore(layoutStorage.subscribe, layoutStorage.getSnapshot, layoutStorage.getServerSnapshot);
+  const [resizePreview, setResizePreview] = useState<{ id: ColumnId; width: number } | null>(null);
+
+  const { current, saved } = state;
+
+  const layout = useMemo<ColumnLayout>(() => {
+    if (!resizePreview) return current;
+    return { ...current, widths: { ...current.widths, [resizePreview.id]: resizePreview.width } };
+  }, [current, resizePreview]);
+
+  const columns = useMemo<LayoutColumn[]>(() =>
+    layout.order
+      .map(id => COLUMN_BY_ID[id as ColumnId])
+      .filter(def => def && (layout.visibility[def.id].mobile || layout.visibility[def.id].desktop))
+      .map(def => ({
+        def,
+        width: layout.widths[def.id],
+        visibility: layout.visibility[def.id],
+        displayClass: displayClass(layout.visibility[def.id]),
+      })),
+  [layout]);
+
+  const setVisibility = useCallback((id: ColumnId, breakpoint: Breakpoint, visible: boolean) => {
+    if (COLUMN_BY_ID[id].required) return;
+    updateCurrent(prev => ({
+      ...prev,
+      visibility: { ...prev.visibility, [id]: { ...prev.visibility[id], [breakpoint]: visible } },
+    }));
+  }, []);
+
+  const moveColumn = useCallback((id: ColumnId, toIndex: number) => {
+    updateCurrent(prev => moveColumnInLayout(prev, id, toIndex));
+  }, []);
+
+  const previewWidth = useCallback((id: ColumnId, width: number) => {
+    setResizePreview({ id, width: clampWidth(COLUMN_BY_ID[id], width) });
+  }, []);
+
+  const commitWidth = useCallback((id: ColumnId, width: number) => {
+    setResizePreview(null);
+    updateCurrent(prev => ({ ...prev, widths: { ...prev.widths, [id]: clampWidth(COLUMN_BY_ID[id], width) } }));
+  }, []);
+
+  const resetLayout = useCallback(() => {
+    updateCurrent(() => createDefaultLayout(COLUMNS));
+  }, []);
+
+  // Swaps in a whole layout, e.g. one restored with a saved view
+  const replaceLayout = useCallback((next: ColumnLayout) => {
+    setResizePreview(null);
+    updateCurrent(() => next);
+  }, []);
+
+  // Saving under an existing name overwrites that layout
+  const saveLayout = useCallback((name: string) => {
+    const stored = layoutStorage.getSnapshot();
+    const others = stored.saved.filter(entry => entry.name !== name);
+    layoutStorage.set({ ...stored, saved: [...others, { name, layout: stored.current }] });
+  }, []);
+
+  const applyLayout = useCallback((name: string) => {
+    const stored = layoutStorage.getSnapshot();
+    const entry = stored.saved.find(layout => layout.name === name);
+    if (entry) layoutStorage.set({ ...stored, current: entry.layout });
+  }, []);
+
+  const deleteLayout = useCallback((name: string) => {
+    const stored = layoutStorage.getSnapshot();
+    layoutStorage.set({ ...stored, saved: stored.saved.filter(entry => entry.name !== name) });
+  }, []);
+
+  return {
+    layout,
+    columns,
+    savedLayouts: saved,
+    setVisibility,
+    moveColumn,
+    previewWidth,
+    commitWidth,
+    resetLayout,
+    replaceLayout,
+    saveLayout,
+    applyLayout,
+    deleteLayout,
+  };
+};
@@ -0,0 +1,42 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import { createFeedRecorder, type FeedRecording } from '../lib/feed/recording';
+import { createReplayPlayer, type ReplayPlayer, type ReplayState } from '../lib/feed/replay';
+import type { FeedTransport } from '../lib/feed/transport';
+
+const noopSubscribe = () => () => {};
+const noReplay = (): ReplayState | null => null;
+
+/**
+ * Recording of the live feed and playback of recordings. `transport` is what
+ * `useRealtimeTokens` should connect: the live feed (tapped by the recorder) or, while a
+ * recording is loaded, its replay.
+ */
+export const useFeedReplay = (liveTransport: FeedTransport) => {
+  const [recorder] = useState(() => createFeedRecorder(liveTransport));
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+
+  const { recordingSince } = useSyncExternalStore(recorder.subscribe, recorder.getSnapshot, recorder.getServerSnapshot);
+  const replay = useSyncExternalStore(
+    player?.subscribe ?? noopSubscribe,
+    player?.getSnapshot ?? noReplay,
+    noReplay
+  );
+
+  const startRecording = useCallback(() => recorder.start(), [recorder]);
+  const stopRecording = useCallback(() => recorder.stop(), [recorder]);
+
+  // The live feed is disconnected while replaying; it reconnects (with a fresh snapshot) on exit
+  const loadRecording = useCallback((recording: FeedRecording) => setPlayer(createReplayPlayer(recording)), []);
+  const exitReplay = useCallback(() => setPlayer(null), []);
+
+  return {
+    transport: player?.transport ?? recorder.transport,
+    recordingSince,
+    startRecording,
+    stopRecording,
+    replay,
+    player,
+    loadRecording,
+    exitReplay,
+  };
+};
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+type GridNavigationOptions = {
+  // Data rows; row 0 of the grid is the header
+  rowCount: number;
+  // Columns currently on screen
+  colCount: number;
+  // Rows moved per PageUp / PageDown
+  pageSize?: number;
+  // Make sure a (virtualized) data row is rendered before focusing it
+  scrollToRow: (index: number) => void;
+  // Enter on a data row
+  onActivateRow: (index: number) => void;
+  // Enter / Space on a header cell
+  onActivateHeader: (col: number, event: React.KeyboardEvent) => void;
+};
+
+export type GridPosition = { row: number; col: number };
+
+const isButton = (target: EventTarget) => (target as HTMLElement).tagName === 'BUTTON';
+
+/**
+ * Roving-tabindex keyboard model for an ARIA grid (WAI-ARIA APG "data grid"): the grid is a
+ * single tab stop, arrow keys move between cells, Home/End jump within a row, Ctrl+Home/End
+ * to the first/last cell, PageUp/PageDown by `pageSize` rows.
+ *
+ * Cells are found by `data-grid-cell="row:col"`. A cell may mark an inner element with
+ * `data-grid-focus` to receive focus instead of the cell itself (e.g. a button or a tooltip
+ * trigger). Rows are virtualized, so focus moves are deferred until the target is rendered.
+ */
+export const useGridNavigation = ({
+  rowCount,
+  colCount,
+  pageSize = 10,
+  scrollToRow,
+  onActivateRow,
+  onActivateHeader,
+}: GridNavigationOptions) => {
+  const [active, setActive] = useState<GridPosition>({ row: 0, col: 0 });
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  // Set by keyboard moves only, so clicks and live updates never steal focus
+  const pendingFocus = useRef(false);
+
+  // Rows and columns come and go with the live feed and the column layout
+  const current: GridPosition = {
+    row: Math.min(active.row, rowCount),
+    col: Math.min(active.col, Math.max(0, colCount - 1)),
+  };
+
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    const cell = gridRef.current?.querySelector<HTMLElement>(`[data-grid-cell="${current.row}:${current.col}"]`);
+    if (!cell) return; // Not rendered yet; retried on the next render
+    pendingFocus.current = false;
+    (cell.querySelector<HTMLElement>('[data-grid-focus]') ?? cell).focus();
+  });
+
+  const moveTo = (row: number, col: number) => {
+    const next = {
+      row: Math.max(0, Math.min(rowCount, row)),
+      col: Math.max(0, Math.min(colCount - 1, col)),
+    };
+    pendingFocus.current = true;
+    if (next.row > 0) scrollToRow(next.row - 1);
+    setActive(next);
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent) => {
+    const { row, col } = current;
+    const ctrl = event.ctrlKey || event.metaKey;
+
+    switch (event.key) {
+      case 'ArrowDown': moveTo(row + 1, col); break;
+      case 'ArrowUp': moveTo(row - 1, col); break;
+      case 'ArrowRight': moveTo(row, col + 1); break;
+      case 'ArrowLeft': moveTo(row, col - 1); break;
+      case 'Home': moveTo(ctrl ? 0 : row, 0); break;
+      case 'End': moveTo(ctrl ? rowCount : row, colCount - 1); break;
+      case 'PageDown': moveTo(row + pageSize, col); break;
+      case 'PageUp': moveTo(Math.max(row === 0 ? 0 : 1, row - pageSize), col); break;
+      case 'Enter':
+        // Buttons inside cells (the watchlist star, quick buy) handle Enter themselves
+        if (isButton(event.target)) return;
+        if (row === 0) onActivateHeader(col, event);
+        else onActivateRow(row - 1);
+        break;
+      case ' ':
+        // Space keeps its native meaning on buttons inside cells too
+        if (row !== 0 || isButton(event.target)) return;
+        onActivateHeader(col, event);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  // Clicking a cell makes it the tab stop, so keyboard navigation continues from there
+  const onFocusCell = useCallback((row: number, col: number) => {
+    setActive(prev => (prev.row === row && prev.col === col ? prev : { row, col }));
+  }, []);
+
+  return { gridRef, active: current, onKeyDown, onFocusCell };
+};
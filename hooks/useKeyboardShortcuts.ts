@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { isPaletteShortcut, isShortcutBlocked } from '../lib/shortcuts';
+
+type KeyboardShortcutsOptions = {
+  // Cmd/Ctrl+K; fires everywhere, including inputs and dialogs, so it can also close the palette
+  onPalette: () => void;
+  // Single unmodified keys (`event.key`, letters lower-cased)
+  keys: Record<string, () => void>;
+};
+
+/**
+ * Global keydown listener for the App's shortcuts. Handlers are read from a ref, so callers
+ * can pass fresh closures every render without re-binding the listener.
+ */
+export const useKeyboardShortcuts = (options: KeyboardShortcutsOptions) => {
+  const latest = useRef(options);
+
+  useEffect(() => {
+    latest.current = options;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isPaletteShortcut(event)) {
+        event.preventDefault();
+        latest.current.onPalette();
+        return;
+      }
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isShortcutBlocked(event.target)) return;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const handler = latest.current.keys[key];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { TokenStore, TokenStoreState } from '../lib/tokenStore';
+
+// Manual pauses hold until resumed; hover pauses end when the pointer leaves the rows
+export type PauseReason = 'manual' | 'hover';
+
+/**
+ * Freezes what the table shows while the feed keeps running. Pausing pins the store
+ * snapshot of that moment (order, prices, sparklines); the store itself keeps committing,
+ * so alerts and the detail dialog stay live, and its ticks are counted as pending.
+ * Resuming drops the pin, which applies everything that arrived in one render.
+ */
+export const useLivePause = (store: TokenStore, live: TokenStoreState) => {
+  const [pause, setPause] = useState<{ reason: PauseReason; snapshot: TokenStoreState } | null>(null);
+  const [pending, setPending] = useState(0);
+
+  const paused = pause !== null;
+
+  useEffect(() => {
+    if (!paused) return;
+    return store.subscribeTicks(ticks => setPending(n => n + ticks.length));
+  }, [store, paused]);
+
+  const start = useCallback((reason: PauseReason) => {
+    // Already frozen: keep the original snapshot, a manual pause outranks a hover one
+    if (pause) {
+      if (reason === 'manual' && pause.reason !== 'manual') setPause({ ...pause, reason });
+      return;
+    }
+    setPending(0);
+    setPause({ reason, snapshot: store.getSnapshot() });
+  }, [pause, store]);
+
+  const resume = useCallback(() => setPause(null), []);
+
+  const toggle = useCallback(() => {
+    if (pause?.reason === 'manual') resume();
+    else start('manual');
+  }, [pause, start, resume]);
+
+  const onHoverStart = useCallback(() => start('hover'), [start]);
+  const onHoverEnd = useCallback(() => setPause(prev => (prev?.reason === 'hover' ? null : prev)), []);
+
+  return {
+    // What to render: the pinned snapshot while paused, the live store state otherwise
+    state: pause?.snapshot ?? live,
+    pauseReason: pause?.reason ?? null,
+    pending: paused ? pending : 0,
+    toggle,
+    resume,
+    onHoverStart,
+    onHoverEnd,
+  };
+};
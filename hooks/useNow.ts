@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time, refreshed every `intervalMs`. Keeps `Date.now()` out of render so
+ * time-dependent memos (launch age filters, "x ago" labels) stay pure.
+ */
+export const useNow = (intervalMs = 30000): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,151 @@
+import { useMemo } from 'react';
+import { COLUMNS } from '../components/columns';
+import type { PaletteCommand } from '../lib/commands';
+import type { SavedColumnLayout } from '../lib/columnLayout';
+import type { SavedView } from '../lib/savedViews';
+import { DEFAULT_FILTERS, FILTER_CHAINS, hasActiveFilters, type TokenFilters } from '../lib/filters';
+import type { SortState, TableTab, TableView } from '../lib/types';
+
+// Dialogs the palette can open
+export type PaletteDialog = 'filters' | 'columns' | 'views' | 'alerts' | 'export' | 'shortcuts';
+
+type PaletteCommandOptions = {
+  tabs: TableTab[];
+  activeTab: TableTab;
+  setTab: (tab: TableTab) => void;
+  view: TableView;
+  setView: (view: TableView) => void;
+  sortState: SortState;
+  setSort: (sort: SortState) => void;
+  filters: TokenFilters;
+  setFilters: (filters: TokenFilters) => void;
+  savedLayouts: SavedColumnLayout[];
+  applyLayout: (name: string) => void;
+  resetLayout: () => void;
+  savedViews: SavedView[];
+  activeViewId: string | null;
+  applyView: (view: SavedView) => void;
+  openDialog: (dialog: PaletteDialog) => void;
+  paused: boolean;
+  togglePause: () => void;
+};
+
+const VIEW_COMMANDS: { view: TableView; label: string }[] = [
+  { view: 'table', label: 'Show table view' },
+  { view: 'board', label: 'Show Pulse board' },
+];
+
+const DIALOG_COMMANDS: { dialog: PaletteDialog; label: string; shortcut?: string[] }[] = [
+  { dialog: 'filters', label: 'Open advanced filters', shortcut: ['F'] },
+  { dialog: 'columns', label: 'Configure columns', shortcut: ['C'] },
+  { dialog: 'views', label: 'Manage saved views' },
+  { dialog: 'alerts', label: 'Manage alerts' },
+  { dialog: 'export', label: 'Export current view' },
+  { dialog: 'shortcuts', label: 'Show keyboard shortcuts', shortcut: ['?'] },
+];
+
+/**
+ * Everything the command palette can do, derived from the App's current state.
+ */
+export const usePaletteCommands = ({
+  tabs,
+  activeTab,
+  setTab,
+  view,
+  setView,
+  sortState,
+  setSort,
+  filters,
+  setFilters,
+  savedLayouts,
+  applyLayout,
+  resetLayout,
+  savedViews,
+  activeViewId,
+  applyView,
+  openDialog,
+  paused,
+  togglePause,
+}: PaletteCommandOptions): PaletteCommand[] =>
+  useMemo(() => {
+    const commands: PaletteCommand[] = [];
+
+    tabs.forEach((tab, index) => {
+      commands.push({
+        id: `tab:${tab}`,
+        group: 'Tabs',
+        label: `Go to ${tab}`,
+        shortcut: index < 9 ? [String(index + 1)] : undefined,
+        active: tab === activeTab,
+        run: () => setTab(tab),
+      });
+    });
+
+    VIEW_COMMANDS.forEach(option => {
+      commands.push({
+        id: `view:${option.view}`,
+        group: 'Views',
+        label: option.label,
+        shortcut: ['B'],
+        active: option.view === view,
+        run: () => setView(option.view),
+      });
+    });
+    savedViews.forEach(savedView => {
+      commands.push({
+        id: `saved-view:${savedView.id}`,
+        group: 'Views',
+        label: `Apply view "${savedView.name}"`,
+        active: savedView.id === activeViewId,
+        run: () => applyView(savedView),
+      });
+    });
+    savedLayouts.forEach(({ name }) => {
+      commands.push({ id: `layout:${name}`, group: 'Views', label: `Apply column layout "${name}"`, run: () => applyLayout(name) });
+    });
+    commands.push({ id: 'layout:reset', group: 'Views', label: 'Reset column layout', run: resetLayout });
+
+    FILTER_CHAINS.forEach(chain => {
+      const active = filters.chains.includes(chain);
+      commands.push({
+        id: `filter:chain:${chain}`,
+        group: 'Filters',
+        label: `${active ? 'Remove' : 'Add'} chain filter ${chain}`,
+        active,
+        run: () => setFilters({
+          ...filters,
+          chains: active ? filters.chains.filter(c => c !== chain) : [...filters.chains, chain],
+        }),
+      });
+    });
+    if (hasActiveFilters(filters)) {
+      commands.push({ id: 'filter:clear', group: 'Filters', label: 'Clear all filters', run: () => setFilters(DEFAULT_FILTERS) });
+    }
+
+    const primary = sortState[0];
+    COLUMNS.forEach(({ sortKey, label }) => {
+      if (!sortKey) return;
+      (['desc', 'asc'] as const).forEach(direction => {
+        commands.push({
+          id: `sort:${sortKey}:${direction}`,
+          group: 'Sort',
+          label: `Sort by ${label} (${direction === 'desc' ? 'descending' : 'ascending'})`,
+          active: primary?.key === sortKey && primary.direction === direction,
+          run: () => setSort([{ key: sortKey, direction }]),
+        });
+      });
+    });
+
+    commands.push({
+      id: 'live:toggle',
+      group: 'Actions',
+      label: paused ? 'Resume live updates' : 'Pause live updates',
+      shortcut: ['P'],
+      run: togglePause,
+    });
+    DIALOG_COMMANDS.forEach(({ dialog, label, shortcut }) => {
+      commands.push({ id: `open:${dialog}`, group: 'Actions', label, shortcut, run: () => openDialog(dialog) });
+    });
+
+    return commands;
+  }, [tabs, activeTab, setTab, view, setView, sortState, setSort, filters, setFilters, savedLayouts, applyLayout, resetLayout, savedViews, activeViewId, applyView, openDialog, paused, togglePause]);
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import { formatUSD } from '../lib/format';
+import type { PriceState, Token } from '../lib/types';
+
+// At most one announcement per interval; prices tick far faster than anyone can listen
+export const ANNOUNCE_INTERVAL_MS = 5000;
+
+const describeMove = (token: Token, priceState: PriceState): string | null => {
+  if (priceState.trend === 'neutral' || priceState.priceUSD === 0) return null;
+  const percent = Math.abs(((token.priceUSD - priceState.priceUSD) / priceState.priceUSD) * 100);
+  return `${token.symbol} ${priceState.trend} ${percent.toFixed(2)}% to ${formatUSD(token.priceUSD)}`;
+};
+
+/**
+ * Text for a polite live region describing the latest price move of `token` (the row the
+ * keyboard is on). Throttled: a pending announcement reads the newest move when it fires,
+ * so screen readers hear the current price rather than a backlog of ticks.
+ */
+export const usePriceAnnouncements = (token: Token | null, priceState: PriceState | undefined): string => {
+  const [message, setMessage] = useState('');
+  const latest = useRef<string | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastAnnounced = useRef(0);
+
+  const description = token && priceState ? describeMove(token, priceState) : null;
+
+  useEffect(() => {
+    latest.current = description;
+    if (!description || timer.current) return;
+    const delay = Math.max(0, lastAnnounced.current + ANNOUNCE_INTERVAL_MS - Date.now());
+    timer.current = setTimeout(() => {
+      timer.current = null;
+      if (!latest.current) return;
+      lastAnnounced.current = Date.now();
+      setMessage(latest.current);
+    }, delay);
+  }, [description]);
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current);
+    timer.current = null;
+  }, []);
+
+  return message;
+};
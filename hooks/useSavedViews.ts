@@ -0,0 +1,120 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { COLUMNS } from '../components/columns';
+import { createPersistedValue } from '../lib/persistedValue';
+import {
+  EMPTY_SAVED_VIEWS,
+  SAVED_VIEWS_STORAGE_KEY,
+  createViewId,
+  parseStoredSavedViews,
+  serializeSavedViews,
+  snapshotToQuery,
+  uniqueViewName,
+  type SavedView,
+  type SavedViewsDocument,
+  type ViewSnapshot,
+} from '../lib/savedViews';
+
+const savedViewsStorage = createPersistedValue<SavedViewsDocument>({
+  key: SAVED_VIEWS_STORAGE_KEY,
+  parse: raw => parseStoredSavedViews(raw, COLUMNS),
+  serialize: serializeSavedViews,
+  empty: EMPTY_SAVED_VIEWS,
+});
+
+const update = (change: (document: SavedViewsDocument) => SavedViewsDocument) => {
+  savedViewsStorage.set(change(savedViewsStorage.getSnapshot()));
+};
+
+const toView = (id: string, name: string, snapshot: ViewSnapshot): SavedView => ({
+  id,
+  name,
+  query: snapshotToQuery(snapshot),
+  layout: snapshot.layout,
+});
+
+/**
+ * Named views (tab + filters + sort + column layout) and the default one, persisted in
+ * localStorage and kept in sync across open tabs. Empty during server rendering and hydration.
+ */
+export const useSavedViews = () => {
+  const { views, defaultViewId } = useSyncExternalStore(
+    savedViewsStorage.subscribe,
+    savedViewsStorage.getSnapshot,
+    savedViewsStorage.getServerSnapshot
+  );
+
+  // Names are unique; saving under a taken one gets a " (2)" suffix
+  const saveView = useCallback((name: string, snapshot: ViewSnapshot) => {
+    update(document => ({
+      ...document,
+      views: [...document.views, toView(createViewId(), uniqueViewName(name, document.views), snapshot)],
+    }));
+  }, []);
+
+  // Replaces what the view shows with `snapshot`, keeping its name
+  const overwriteView = useCallback((id: string, snapshot: ViewSnapshot) => {
+    update(document => ({
+      ...document,
+      views: document.views.map(view => (view.id === id ? toView(id, view.name, snapshot) : view)),
+    }));
+  }, []);
+
+  const renameView = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    update(document => {
+      const others = document.views.filter(view => view.id !== id);
+      return {
+        ...document,
+        views: document.views.map(view => (view.id === id ? { ...view, name: uniqueViewName(trimmed, others) } : view)),
+      };
+    });
+  }, []);
+
+  // The copy goes right after the original
+  const duplicateView = useCallback((id: string) => {
+    update(document => {
+      const index = document.views.findIndex(view => view.id === id);
+      if (index === -1) return document;
+      const source = document.views[index];
+      const copy = { ...source, id: createViewId(), name: uniqueViewName(`${source.name} copy`, document.views) };
+      return { ...document, views: [...document.views.slice(0, index + 1), copy, ...document.views.slice(index + 1)] };
+    });
+  }, []);
+
+  const deleteView = useCallback((id: string) => {
+    update(document => ({
+      ...document,
+      views: document.views.filter(view => view.id !== id),
+      defaultViewId: document.defaultViewId === id ? null : document.defaultViewId,
+    }));
+  }, []);
+
+  // null clears the default
+  const setDefaultView = useCallback((id: string | null) => {
+    update(document => ({ ...document, defaultViewId: id }));
+  }, []);
+
+  // Imports are merged into the current views; clashing ids or names get fresh ones
+  const importViews = useCallback((imported: SavedView[]) => {
+    update(document => {
+      const views = [...document.views];
+      imported.forEach(view => {
+        views.push({
+          ...view,
+          id: views.some(existing => existing.id === view.id) ? createViewId() : view.id,
+          name: uniqueViewName(view.name, views),
+        });
+      });
+      return { ...document, views };
+    });
+  }, []);
+
+  // Read straight from storage, so it's usable right after hydration (the hook state is still empty then)
+  const getDefaultView = useCallback((): SavedView | null => {
+    const stored = savedViewsStorage.getSnapshot();
+    return stored.views.find(view => view.id === stored.defaultViewId) ?? null;
+  }, []);
+
+  return { views, defaultViewId, getDefaultView, saveView, overwriteView, renameView, duplicateView, deleteView, setDefaultView, importViews };
+};
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { parseTableState, serializeTableState, type TableUrlState } from '../lib/tableState';
+
+type HistoryMode = 'push' | 'replace';
+
+type Updater<T> = T | ((prev: T) => T);
+
+/**
+ * Table state mirrored into the query string.
+ *
+ * Starts from the state parsed on the server, writes changes back with the History API
+ * (which the App Router picks up without a server round-trip) and re-reads the URL on
+ * back/forward. View and tab changes and opening/closing the detail dialog push a history entry;
+ * sort and filter tweaks replace the current one.
+ */
+export const useTableUrlState = (initialState: TableUrlState) => {
+  // `mode` travels with the state so the URL effect knows how the last change should be recorded
+  const [{ state, mode }, setEntry] = useState<{ state: TableUrlState; mode: HistoryMode }>({
+    state: initialState,
+    mode: 'replace',
+  });
+
+  useEffect(() => {
+    const onPopState = () => setEntry({ state: parseTableState(new URLSearchParams(window.location.search)), mode: 'replace' });
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  useEffect(() => {
+    const query = serializeTableState(state).toString();
+    if (query === window.location.search.replace(/^\?/, '')) return;
+
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (mode === 'push') window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, [state, mode]);
+
+  const update = useCallback(<K extends keyof TableUrlState>(key: K, value: Updater<TableUrlState[K]>, nextMode: HistoryMode) => {
+    setEntry(prev => {
+      const next = typeof value === 'function'
+        ? (value as (current: TableUrlState[K]) => TableUrlState[K])(prev.state[key])
+        : value;
+      return next === prev.state[key] ? prev : { state: { ...prev.state, [key]: next }, mode: nextMode };
+    });
+  }, []);
+
+  // Several fields in one history entry, e.g. everything a saved view restores
+  const setState = useCallback((patch: (prev: TableUrlState) => Partial<TableUrlState>, nextMode: HistoryMode = 'push') => {
+    setEntry(prev => ({ state: { ...prev.state, ...patch(prev.state) }, mode: nextMode }));
+  }, []);
+
+  const setView = useCallback((view: Updater<TableUrlState['view']>) => update('view', view, 'push'), [update]);
+  const setTab = useCallback((tab: Updater<TableUrlState['tab']>) => update('tab', tab, 'push'), [update]);
+  const setSort = useCallback((sort: Updater<TableUrlState['sort']>) => update('sort', sort, 'replace'), [update]);
+  const setFilters = useCallback((filters: Updater<TableUrlState['filters']>) => update('filters', filters, 'replace'), [update]);
+  const setSelected = useCallback((selected: Updater<TableUrlState['selected']>) => update('selected', selected, 'push'), [update]);
+
+  return { ...state, setState, setView, setTab, setSort, setFilters, setSelected };
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import type { PriceSample } from '../lib/candles';
+import type { TokenStore } from '../lib/tokenStore';
+
+// Longest chart window plus one bucket of slack
+const RETENTION_MS = 3600000 + 120000;
+
+/**
+ * Collects every tick for one token from the store while mounted. Ticks are buffered as they
+ * arrive and flushed into state on the store's (once per frame) commit, so a busy feed
+ * doesn't re-render the chart more often than the table itself.
+ *
+ * Seeded from the store's rolling price history (falling back to the token's current price),
+ * so the chart isn't empty on open; key the consumer by token id to reset on change.
+ */
+export const useTokenSamples = (store: TokenStore, tokenId: string, initialPrice: number): PriceSample[] => {
+  const [samples, setSamples] = useState<PriceSample[]>(() => {
+    const history = store.getPriceSamples(tokenId);
+    return history.length > 0 ? history : [{ ts: store.now(), price: initialPrice }];
+  });
+
+  useEffect(() => {
+    let buffer: PriceSample[] = [];
+
+    const stopTicks = store.subscribeTicks(ticks => {
+      for (const tick of ticks) {
+        if (tick.id === tokenId) buffer.push({ ts: tick.ts, price: tick.priceUSD });
+      }
+    });
+
+    const stopCommits = store.subscribe(() => {
+      if (buffer.length === 0) return;
+      const added = buffer;
+      buffer = [];
+      setSamples(prev => {
+        const next = [...prev, ...added];
+        const cutoff = next[next.length - 1].ts - RETENTION_MS;
+        const firstKept = next.findIndex(sample => sample.ts >= cutoff);
+        return firstKept > 0 ? next.slice(firstKept) : next;
+      });
+    });
+
+    return () => {
+      stopTicks();
+      stopCommits();
+    };
+  }, [store, tokenId]);
+
+  return samples;
+};
@@ -0,0 +1,21 @@
+import { useMemo, useState } from 'react';
+import { createSearchCache, type TokenFieldMatch } from '../lib/search';
+import type { Token } from '../lib/types';
+
+/**
+ * Matches of `query` among `tokens`, keyed by token id, or null when there is no query.
+ * Callers should pass a deferred query (useDeferredValue) so typing stays responsive.
+ */
+export const useTokenSearch = (tokens: Token[], query: string): Map<string, TokenFieldMatch> | null => {
+  const [matchCached] = useState(createSearchCache);
+
+  return useMemo(() => {
+    if (!query) return null;
+    const matches = new Map<string, TokenFieldMatch>();
+    for (const token of tokens) {
+      const match = matchCached(query, token);
+      if (match) matches.set(token.id, match);
+    }
+    return matches;
+  }, [matchCached, tokens, query]);
+};
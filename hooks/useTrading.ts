@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { createPersistedValue } from '../lib/persistedValue';
+import type { TokenStore } from '../lib/tokenStore';
+import { createPaperExecutionAdapter, type ExecutionAdapter } from '../lib/trading/execution';
+import {
+  EMPTY_PORTFOLIO,
+  PORTFOLIO_SAMPLE_MS,
+  PORTFOLIO_STORAGE_KEY,
+  appendPortfolioSample,
+  markToMarket,
+  parseStoredPortfolio,
+  serializePortfolio,
+  type PortfolioDocument,
+} from '../lib/trading/portfolio';
+import { applyFill } from '../lib/trading/positions';
+import {
+  DEFAULT_TRADE_SETTINGS,
+  TRADE_SETTINGS_STORAGE_KEY,
+  parseStoredTradeSettings,
+  serializeTradeSettings,
+  type TradeSettings,
+} from '../lib/trading/settings';
+import { createTradeStore, isOpenOrder, type OrderInput } from '../lib/trading/tradeStore';
+import type { Token } from '../lib/types';
+
+const settingsStorage = createPersistedValue<TradeSettings>({
+  key: TRADE_SETTINGS_STORAGE_KEY,
+  parse: parseStoredTradeSettings,
+  serialize: serializeTradeSettings,
+  empty: DEFAULT_TRADE_SETTINGS,
+});
+
+const portfolioStorage = createPersistedValue<PortfolioDocument>({
+  key: PORTFOLIO_STORAGE_KEY,
+  parse: parseStoredPortfolio,
+  serialize: serializePortfolio,
+  empty: EMPTY_PORTFOLIO,
+});
+
+/**
+ * Orders, the persisted paper portfolio (positions and its value/PnL series) and trade
+ * settings. Without an `adapter`, orders are paper-traded against the live prices in `tokenStore`.
+ */
+export const useTrading = (tokenStore: TokenStore, adapter?: ExecutionAdapter) => {
+  const [tradeStore] = useState(() => createTradeStore({
+    adapter: adapter ?? createPaperExecutionAdapter({
+      getToken: id => tokenStore.getSnapshot().tokens.find(token => token.id === id),
+    }),
+    getPosition: tokenId => portfolioStorage.getSnapshot().positions[tokenId],
+    onFill: (order, fill) => {
+      const portfolio = portfolioStorage.getSnapshot();
+      portfolioStorage.set({
+        ...portfolio,
+        positions: { ...portfolio.positions, [order.tokenId]: applyFill(portfolio.positions[order.tokenId], order, fill) },
+      });
+    },
+  }));
+
+  useEffect(() => () => tradeStore.dispose(), [tradeStore]);
+
+  // Value and PnL over time; nothing is recorded until the first trade
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const portfolio = portfolioStorage.getSnapshot();
+      const positions = Object.values(portfolio.positions);
+      if (positions.length === 0) return;
+      const summary = markToMarket(portfolio.positions, tokenStore.getSnapshot().tokens);
+      const history = appendPortfolioSample(portfolio.history, {
+        ts: Date.now(),
+        valueUsd: summary.valueUsd,
+        pnlUsd: summary.totalPnlUsd,
+      });
+      if (history !== portfolio.history) portfolioStorage.set({ ...portfolio, history });
+    }, PORTFOLIO_SAMPLE_MS);
+    return () => clearInterval(timer);
+  }, [tokenStore]);
+
+  const { orders } = useSyncExternalStore(tradeStore.subscribe, tradeStore.getSnapshot, tradeStore.getServerSnapshot);
+  const { positions, history } = useSyncExternalStore(portfolioStorage.subscribe, portfolioStorage.getSnapshot, portfolioStorage.getServerSnapshot);
+  const settings = useSyncExternalStore(settingsStorage.subscribe, settingsStorage.getSnapshot, settingsStorage.getServerSnapshot);
+
+  // Tokens with an order on its way, for the row buttons
+  const openOrderTokenIds = useMemo(
+    () => new Set(orders.filter(isOpenOrder).map(order => order.tokenId)),
+    [orders]
+  );
+
+  const updateSettings = useCallback((patch: Partial<TradeSettings>) => {
+    settingsStorage.set({ ...settingsStorage.getSnapshot(), ...patch });
+  }, []);
+
+  const placeOrder = useCallback((input: OrderInput) => tradeStore.placeOrder(input), [tradeStore]);
+
+  // One click, with the saved amount, slippage and priority fee
+  const quickBuy = useCallback((token: Token) => {
+    const { quickBuyUsd, slippagePct, priorityFeeUsd } = settingsStorage.getSnapshot();
+    return tradeStore.placeOrder({ token, side: 'buy', amountIn: quickBuyUsd, slippagePct, priorityFeeUsd });
+  }, [tradeStore]);
+
+  // Clears positions and history; orders of this session stay listed
+  const resetPortfolio = useCallback(() => portfolioStorage.set(EMPTY_PORTFOLIO), []);
+
+  return {
+    adapterLabel: tradeStore.adapterLabel,
+    orders,
+    positions,
+    history,
+    resetPortfolio,
+    openOrderTokenIds,
+    settings,
+    updateSettings,
+    placeOrder,
+    quickBuy,
+  };
+};
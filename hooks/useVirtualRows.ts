@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+type VirtualRowsOptions = {
+  // Stable key per row (token id), in display order
+  keys: string[];
+  // Every key the rows are drawn from (e.g. before filtering), so measured heights survive a
+  // filter; heights of other keys are dropped. Defaults to `keys`.
+  allKeys?: string[];
+  // Height used for rows that haven't been measured yet
+  estimateSize?: number;
+  // Extra rows rendered above and below the viewport
+  overscan?: number;
+};
+
+export type VirtualRow = {
+  index: number;
+  key: string;
+  start: number;
+};
+
+// Finds the last row whose start offset is <= `offset`.
+const findIndexAt = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Windowed rendering for the token table body.
+ *
+ * Rows stay in normal flow (the body is padded above/below the rendered slice), so the
+ * CSS grid row layout and the sticky header keep working. Row heights are measured with a
+ * ResizeObserver and cached per key, so taller rows (price diff line) don't drift the list.
+ * When the order or row heights change, the scroll position is re-anchored to the row (by
+ * key) at the top of the viewport, so sorting and live re-ordering don't make the view jump.
+ */
+export const useVirtualRows = <T extends HTMLElement>({ keys, allKeys = keys, estimateSize = 64, overscan = 8 }: VirtualRowsOptions) => {
+  // Callback ref, so listeners re-attach if the scroll container remounts
+  const [scrollElement, scrollRef] = useState<T | null>(null);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map());
+  const allKeysRef = useRef(allKeys);
+
+  useLayoutEffect(() => {
+    allKeysRef.current = allKeys;
+  }, [allKeys]);
+
+  // Measurement: one observer for all rendered rows, keyed by `data-key`. Heights of rows that
+  // left the data are dropped along the way once the cache outgrows the data, so a feed that
+  // keeps adding and removing tokens doesn't grow it without bound.
+  const [observer] = useState(() =>
+    typeof ResizeObserver === 'undefined'
+      ? null
+      : new ResizeObserver(entries => {
+          setSizes(prev => {
+            let next: Map<string, number> | null = null;
+            for (const entry of entries) {
+              const key = (entry.target as HTMLElement).dataset.key;
+              const height = (entry.target as HTMLElement).offsetHeight;
+              if (!key || height === 0 || prev.get(key) === height) continue;
+              next ??= new Map(prev);
+              next.set(key, height);
+            }
+            if (next && next.size > allKeysRef.current.length) {
+              const current = new Set(allKeysRef.current);
+              next = new Map([...next].filter(([key]) => current.has(key)));
+            }
+            return next ?? prev;
+          });
+        })
+  );
+
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element || !observer) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  // offsets[i] is the top of row i; offsets[keys.length] is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(keys.length + 1);
+    result[0] = 0;
+    for (let i = 0; i < keys.length; i++) {
+      result[i + 1] = result[i] + (sizes.get(keys[i]) ?? estimateSize);
+    }
+    return result;
+  }, [keys, sizes, estimateSize]);
+
+  // Anchor = the row at the top of the viewport plus how far into it we've scrolled. If that
+  // row is gone, its old slot is used instead.
+  const offsetsRef = useRef(offsets);
+  const keysRef = useRef(keys);
+  const anchorRef = useRef<{ key: string | undefined; index: number; delta: number }>({ key: undefined, index: 0, delta: 0 });
+
+  useLayoutEffect(() => {
+    offsetsRef.current = offsets;
+    keysRef.current = keys;
+    const element = scrollElement;
+    if (!element || element.scrollTop === 0) return;
+
+    const { key, index, delta } = anchorRef.current;
+    const keyIndex = key === undefined ? -1 : keys.indexOf(key);
+    const target = offsets[keyIndex >= 0 ? keyIndex : Math.min(index, keys.length)] + delta;
+    if (Math.abs(target - element.scrollTop) > 1) {
+      element.scrollTop = target;
+    }
+  }, [offsets, keys, scrollElement]);
+
+  useEffect(() => {
+    const element = scrollElement;
+    if (!element) return;
+
+    const update = () => {
+      const { scrollTop, clientHeight } = element;
+      const index = findIndexAt(offsetsRef.current, scrollTop);
+      anchorRef.current = { key: keysRef.current[index], index, delta: scrollTop - offsetsRef.current[index] };
+      setViewport(prev =>
+        prev.scrollTop === scrollTop && prev.height === clientHeight ? prev : { scrollTop, height: clientHeight }
+      );
+    };
+
+    update();
+    element.addEventListener('scroll', update, { passive: true });
+    const resizeObserver = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(update);
+    resizeObserver?.observe(element);
+    return () => {
+      element.removeEventListener('scroll', update);
+      resizeObserver?.disconnect();
+    };
+  }, [scrollElement]);
+
+  // Brings a row into the rendered window (centered), e.g. before moving keyboard focus to it.
+  // Exact positioning is left to the browser's focus scrolling.
+  const scrollToIndex = useCallback((index: number) => {
+    const element = scrollElement;
+    const current = offsetsRef.current;
+    if (!element || index < 0 || index >= current.length - 1) return;
+    const top = current[index];
+    const bottom = current[index + 1];
+    if (top >= element.scrollTop && bottom <= element.scrollTop + element.clientHeight) return;
+    element.scrollTop = Math.max(0, top - element.clientHeight / 2);
+  }, [scrollElement]);
+
+  const totalSize = offsets[keys.length];
+  // Before the first layout we don't know the viewport height; render one screen's worth
+  const height = viewport.height || estimateSize * 12;
+  const first = keys.length === 0 ? 0 : Math.max(0, findIndexAt(offsets, viewport.scrollTop) - overscan);
+  const last = keys.length === 0 ? -1 : Math.min(keys.length - 1, findIndexAt(offsets, viewport.scrollTop + height) + overscan);
+
+  const rows: VirtualRow[] = [];
+  for (let index = first; index <= last; index++) {
+    rows.push({ index, key: keys[index], start: offsets[index] });
+  }
+
+  return {
+    scrollRef,
+    measureElement,
+    scrollToIndex,
+    rows,
+    totalSize,
+    paddingTop: rows.length > 0 ? offsets[first] : 0,
+    paddingBottom: rows.length > 0 ? totalSize - offsets[last + 1] : 0,
+  };
+};
@@ -0,0 +1,36 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { createPersistedValue } from '../lib/persistedValue';
+import { parseStoredWatchlist, serializeWatchlist, WATCHLIST_STORAGE_KEY } from '../lib/watchlist';
+
+const watchlistStorage = createPersistedValue<string[]>({
+  key: WATCHLIST_STORAGE_KEY,
+  parse: parseStoredWatchlist,
+  serialize: serializeWatchlist,
+  empty: [],
+});
+
+/**
+ * Starred token ids, persisted in localStorage and kept in sync across open tabs.
+ * Empty during server rendering and hydration.
+ */
+export const useWatchlist = () => {
+  const ids = useSyncExternalStore(
+    watchlistStorage.subscribe,
+    watchlistStorage.getSnapshot,
+    watchlistStorage.getServerSnapshot
+  );
+  const watched = useMemo(() => new Set(ids), [ids]);
+
+  const toggle = useCallback((id: string) => {
+    const current = watchlistStorage.getSnapshot();
+    watchlistStorage.set(current.includes(id) ? current.filter(existing => existing !== id) : [...current, id]);
+  }, []);
+
+  // Imports are merged into the current list rather than replacing it
+  const importIds = useCallback((imported: string[]) => {
+    const current = watchlistStorage.getSnapshot();
+    watchlistStorage.set([...current, ...imported.filter(id => !current.includes(id))]);
+  }, []);
+
+  return { ids, watched, toggle, importIds };
+};
@@ -0,0 +1,242 @@
+import { CHANGE_WINDOWS, type ChangeKey } from './priceHistory';
+import type { Token } from './types';
+
+// --- Price / metric alerts ---
+// Rules are evaluated against every store commit. Each (rule, token) pair is a tiny state
+// machine: a rule fires on the rising edge of its condition, only once the condition has
+// held for `debounceMs` (so a price jittering around a level doesn't flap), and at most
+// once per `cooldownMs`.
+
+export type AlertCondition =
+  | { kind: 'price_cross'; direction: 'above' | 'below'; price: number }
+  | { kind: 'move'; window: ChangeKey; percent: number }
+  | { kind: 'score_below'; score: number }
+  | { kind: 'new_pair'; minLiquidity: number };
+
+export type AlertConditionKind = AlertCondition['kind'];
+
+export type AlertRule = {
+  id: string;
+  // null = evaluated against every token
+  tokenId: string | null;
+  condition: AlertCondition;
+  enabled: boolean;
+  // Also deliver through the Web Notifications API (when permission is granted)
+  notifyBrowser: boolean;
+  debounceMs: number;
+  cooldownMs: number;
+  createdAt: number;
+};
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  tokenId: string;
+  title: string;
+  message: string;
+  ts: number;
+};
+
+export const DEFAULT_DEBOUNCE_MS = 2000;
+export const DEFAULT_COOLDOWN_MS = 60000;
+
+export const ALERT_CONDITION_LABELS: Record<AlertConditionKind, string> = {
+  price_cross: 'Price crosses',
+  move: 'Price move',
+  score_below: 'Score drops below',
+  new_pair: 'New pair with liquidity',
+};
+
+export const CHANGE_WINDOW_LABELS: Record<ChangeKey, string> = { change1m: '1m', change5m: '5m', change1h: '1h' };
+
+export const ALERT_CONDITION_KINDS = Object.keys(ALERT_CONDITION_LABELS) as AlertConditionKind[];
+export const MOVE_WINDOWS = Object.keys(CHANGE_WINDOWS) as ChangeKey[];
+
+const isConditionMet = (condition: AlertCondition, token: Token): boolean => {
+  switch (condition.kind) {
+    case 'price_cross':
+      return condition.direction === 'above' ? token.priceUSD >= condition.price : token.priceUSD <= condition.price;
+    case 'move': {
+      const change = token[condition.window];
+      return change !== null && change !== undefined && Math.abs(change) >= condition.percent;
+    }
+    case 'score_below':
+      return token.score < condition.score;
+    case 'new_pair':
+      return token.status === 'New pairs' && token.liquidity > condition.minLiquidity;
+  }
+};
+
+const formatPrice = (value: number) => `$${value < 1 ? value.toFixed(6) : value.toFixed(2)}`;
+
+export const describeCondition = (condition: AlertCondition): string => {
+  switch (condition.kind) {
+    case 'price_cross':
+      return `Price crosses ${condition.direction} ${formatPrice(condition.price)}`;
+    case 'move':
+      return `${CHANGE_WINDOW_LABELS[condition.window]} move of ${condition.percent}% or more`;
+    case 'score_below':
+      return `Score drops below ${condition.score}`;
+    case 'new_pair':
+      return `New pair with liquidity over $${condition.minLiquidity.toLocaleString('en-US')}`;
+  }
+};
+
+const describeTrigger = (condition: AlertCondition, token: Token): string => {
+  switch (condition.kind) {
+    case 'price_cross':
+      return `Price ${condition.direction === 'above' ? 'rose above' : 'fell below'} ${formatPrice(condition.price)} (now ${formatPrice(token.priceUSD)})`;
+    case 'move': {
+      const change = token[condition.window] ?? 0;
+      return `${change > 0 ? '+' : ''}${change.toFixed(2)}% in ${CHANGE_WINDOW_LABELS[condition.window]}`;
+    }
+    case 'score_below':
+      return `Score is ${token.score} (below ${condition.score})`;
+    case 'new_pair':
+      return `Listed in New pairs with $${Math.round(token.liquidity).toLocaleString('en-US')} liquidity`;
+  }
+};
+
+type RuleState = {
+  active: boolean;
+  // When the condition became true and hasn't fired yet for this edge
+  pendingSince: number | null;
+  lastFiredAt: number;
+};
+
+/**
+ * Stateful evaluator. `evaluate` is fed the full token list after each commit and
+ * returns the alerts that fired. The first evaluation with tokens only records the
+ * baseline, so conditions that are already true when the page loads don't fire.
+ */
+export const createAlertEngine = () => {
+  // `${ruleId}:${tokenId}` -> state
+  let states = new Map<string, RuleState>();
+  let knownTokens: Set<string> | null = null;
+  let sequence = 0;
+
+  const evaluate = (rules: AlertRule[], tokens: Token[], now: number): AlertEvent[] => {
+    const events: AlertEvent[] = [];
+    const nextStates = new Map<string, RuleState>();
+    const isBaseline = knownTokens === null;
+    // An empty list (nothing loaded yet) would make every token of the snapshot look new
+    if (isBaseline && tokens.length === 0) return events;
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+      for (const token of tokens) {
+        if (rule.tokenId !== null && rule.tokenId !== token.id) continue;
+
+        const key = `${rule.id}:${token.id}`;
+        const previous = states.get(key);
+        const met = isConditionMet(rule.condition, token);
+        // A token that just appeared is a rising edge only for "new pair" rules
+        const isNewToken = !isBaseline && !knownTokens?.has(token.id);
+        const wasActive = previous ? previous.active : isBaseline || !(isNewToken && rule.condition.kind === 'new_pair');
+
+        const state: RuleState = previous ? { ...previous } : { active: met, pendingSince: null, lastFiredAt: -Infinity };
+        state.active = met;
+
+        if (!met) {
+          state.pendingSince = null;
+        } else if (!wasActive) {
+          state.pendingSince = now;
+        }
+
+        if (state.pendingSince !== null && now - state.pendingSince >= rule.debounceMs) {
+          state.pendingSince = null;
+          if (now - state.lastFiredAt >= rule.cooldownMs) {
+            state.lastFiredAt = now;
+            events.push({
+              id: `alert-${now}-${sequence++}`,
+              ruleId: rule.id,
+              tokenId: token.id,
+              title: `${token.symbol}: ${ALERT_CONDITION_LABELS[rule.condition.kind]}`,
+              message: describeTrigger(rule.condition, token),
+              ts: now,
+            });
+          }
+        }
+
+        nextStates.set(key, state);
+      }
+    }
+
+    // Dropping state for deleted rules / removed tokens keeps the map bounded
+    states = nextStates;
+    knownTokens = new Set(tokens.map(token => token.id));
+    return events;
+  };
+
+  return {
+    evaluate,
+    reset: () => {
+      states = new Map();
+      knownTokens = null;
+    },
+  };
+};
+
+// --- Persistence (same versioned-document approach as the watchlist) ---
+
+export const ALERTS_STORAGE_KEY = 'axiom.alerts';
+export const ALERTS_SCHEMA_VERSION = 1;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isValidCondition = (value: unknown): value is AlertCondition => {
+  if (typeof value !== 'object' || value === null) return false;
+  const condition = value as Record<string, unknown>;
+  switch (condition.kind as AlertConditionKind) {
+    case 'price_cross':
+      return (condition.direction === 'above' || condition.direction === 'below') && isFiniteNumber(condition.price);
+    case 'move':
+      return MOVE_WINDOWS.includes(condition.window as ChangeKey) && isFiniteNumber(condition.percent);
+    case 'score_below':
+      return isFiniteNumber(condition.score);
+    case 'new_pair':
+      return isFiniteNumber(condition.minLiquidity);
+    default:
+      return false;
+  }
+};
+
+const isValidRule = (value: unknown): value is AlertRule => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  return typeof rule.id === 'string' &&
+    (rule.tokenId === null || typeof rule.tokenId === 'string') &&
+    isValidCondition(rule.condition) &&
+    typeof rule.enabled === 'boolean' &&
+    typeof rule.notifyBrowser === 'boolean' &&
+    isFiniteNumber(rule.debounceMs) &&
+    isFiniteNumber(rule.cooldownMs) &&
+    isFiniteNumber(rule.createdAt);
+};
+
+// Invalid rules are dropped individually; an unreadable document means no rules
+export const parseStoredAlertRules = (value: string | null): AlertRule[] => {
+  if (!value) return [];
+  try {
+    const raw = JSON.parse(value) as { version?: unknown; rules?: unknown };
+    if (raw.version !== ALERTS_SCHEMA_VERSION || !Array.isArray(raw.rules)) return [];
+    return raw.rules.filter(isValidRule);
+  } catch {
+    return [];
+  }
+};
+
+export const serializeAlertRules = (rules: AlertRule[]): string =>
+  JSON.stringify({ version: ALERTS_SCHEMA_VERSION, rules });
+
+export const createAlertRule = (
+  fields: Pick<AlertRule, 'tokenId' | 'condition'> & Partial<Pick<AlertRule, 'notifyBrowser' | 'debounceMs' | 'cooldownMs'>>
+): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  enabled: true,
+  notifyBrowser: false,
+  debounceMs: DEFAULT_DEBOUNCE_MS,
+  cooldownMs: DEFAULT_COOLDOWN_MS,
+  createdAt: Date.now(),
+  ...fields,
+});
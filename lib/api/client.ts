@@ -0,0 +1,53 @@
+import type { Token } from '../types';
+import { MAX_PAGE_SIZE, serializeTokenQuery, type TokenPage, type TokenQuery } from './tokenQuery';
+
+// --- Browser client for /api/tokens ---
+
+export const TOKENS_ENDPOINT = '/api/tokens';
+
+/**
+ * A non-2xx answer from the token API (or no answer at all: `status` 0).
+ */
+export class TokenApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TokenApiError';
+  }
+}
+
+const request = async <T>(url: string, signal?: AbortSignal): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new TokenApiError(`Could not reach ${url}`, 0);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new TokenApiError(body?.error ?? `${url} answered ${response.status}`, response.status);
+  }
+  return response.json() as Promise<T>;
+};
+
+export const fetchTokenPage = (query: Partial<TokenQuery>, signal?: AbortSignal): Promise<TokenPage> => {
+  const params = serializeTokenQuery(query).toString();
+  return request<TokenPage>(`${TOKENS_ENDPOINT}${params ? `?${params}` : ''}`, signal);
+};
+
+export const fetchToken = (id: string, signal?: AbortSignal): Promise<Token> =>
+  request<Token>(`${TOKENS_ENDPOINT}/${encodeURIComponent(id)}`, signal);
+
+/**
+ * Every token matching `query`, following the cursor through all pages.
+ */
+export const fetchAllTokens = async (query: Partial<TokenQuery> = {}, signal?: AbortSignal): Promise<Token[]> => {
+  const tokens: Token[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: TokenPage = await fetchTokenPage({ limit: MAX_PAGE_SIZE, ...query, cursor }, signal);
+    tokens.push(...page.tokens);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return tokens;
+};
@@ -0,0 +1,217 @@
+import { compareTokens } from '../sorting';
+import type { NumericRange } from '../filters';
+import type { SortCriterion, SortState, Token, TokenChain, TokenStatus } from '../types';
+
+// --- Token list query (GET /api/tokens) ---
+// e.g. /api/tokens?status=new-pairs,final-stretch&chain=SOL&score=50..&sort=-volume24h&limit=50
+// Filters, sorts and pages a token list. Pages are keyset-paginated: the cursor holds the
+// sort values of the last row served, so rows moving in or out between requests don't
+// shift later pages by one (as an offset would).
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export type TokenQuery = {
+  statuses: TokenStatus[];
+  chains: TokenChain[];
+  score: NumericRange;
+  marketCap: NumericRange;
+  liquidity: NumericRange;
+  volume24h: NumericRange;
+  sort: SortState;
+  limit: number;
+  cursor: string | null;
+};
+
+export type TokenPage = {
+  tokens: Token[];
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: string | null;
+  // Tokens matching the filters, across all pages
+  total: number;
+};
+
+export const DEFAULT_TOKEN_QUERY: TokenQuery = {
+  statuses: [],
+  chains: [],
+  score: {},
+  marketCap: {},
+  liquidity: {},
+  volume24h: {},
+  sort: [],
+  limit: DEFAULT_PAGE_SIZE,
+  cursor: null,
+};
+
+/**
+ * Raised for a query parameter that can't be parsed; the route answers 400.
+ */
+export class TokenQueryError extends Error {
+  constructor(message: string, public readonly param: string) {
+    super(message);
+    this.name = 'TokenQueryError';
+  }
+}
+
+// Every Token field; `satisfies` keeps the list complete when the type grows
+const TOKEN_KEYS = {
+  id: true, name: true, symbol: true, chain: true, address: true, pairAddress: true, pair: true,
+  status: true, marketCap: true, priceUSD: true, volume24h: true, liquidity: true, launchTime: true,
+  score: true, audit: true, bondingProgress: true, previousStatus: true, statusChangedAt: true,
+  migratedAt: true, change1m: true, change5m: true, change1h: true,
+} satisfies Record<keyof Token, true>;
+
+const isTokenKey = (key: string): key is keyof Token => Object.hasOwn(TOKEN_KEYS, key);
+
+const STATUS_SLUGS: Record<string, TokenStatus> = {
+  'new-pairs': 'New pairs',
+  'final-stretch': 'Final Stretch',
+  migrated: 'Migrated',
+};
+
+const RANGE_PARAMS = { score: 'score', marketCap: 'mcap', liquidity: 'liq', volume24h: 'vol' } as const;
+
+const list = (value: string | null): string[] =>
+  value ? value.split(',').map(part => part.trim()).filter(Boolean) : [];
+
+// "min..max", "min.." or "..max", as in the table URL
+const parseRange = (value: string | null, param: string): NumericRange => {
+  if (value === null) return {};
+  const bounds = value.split('..');
+  const [min, max] = bounds.map(bound => (bound.trim() === '' ? undefined : Number(bound)));
+  if (bounds.length !== 2 || [min, max].some(bound => bound !== undefined && !Number.isFinite(bound))) {
+    throw new TokenQueryError(`"${param}" must look like min..max, min.. or ..max`, param);
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new TokenQueryError(`"${param}" minimum is above its maximum`, param);
+  }
+  return { min, max };
+};
+
+// Comma-separated keys in priority order; "-volume24h" = descending
+const parseSort = (value: string | null): SortState =>
+  list(value).map((part): SortCriterion => {
+    const descending = part.startsWith('-');
+    const key = descending ? part.slice(1) : part;
+    if (!isTokenKey(key)) throw new TokenQueryError(`Cannot sort by unknown field "${key}"`, 'sort');
+    return { key, direction: descending ? 'desc' : 'asc' };
+  });
+
+const parseLimit = (value: string | null): number => {
+  if (value === null) return DEFAULT_PAGE_SIZE;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new TokenQueryError(`"limit" must be an integer from 1 to ${MAX_PAGE_SIZE}`, 'limit');
+  }
+  return limit;
+};
+
+export const parseTokenQuery = (params: URLSearchParams): TokenQuery => ({
+  statuses: list(params.get('status')).map(slug => {
+    const status = STATUS_SLUGS[slug];
+    if (!status) throw new TokenQueryError(`Unknown status "${slug}"`, 'status');
+    return status;
+  }),
+  chains: list(params.get('chain')),
+  score: parseRange(params.get(RANGE_PARAMS.score), RANGE_PARAMS.score),
+  marketCap: parseRange(params.get(RANGE_PARAMS.marketCap), RANGE_PARAMS.marketCap),
+  liquidity: parseRange(params.get(RANGE_PARAMS.liquidity), RANGE_PARAMS.liquidity),
+  volume24h: parseRange(params.get(RANGE_PARAMS.volume24h), RANGE_PARAMS.volume24h),
+  sort: parseSort(params.get('sort')),
+  limit: parseLimit(params.get('limit')),
+  cursor: params.get('cursor'),
+});
+
+/**
+ * The inverse of `parseTokenQuery`, for clients. Defaults are left out.
+ */
+export const serializeTokenQuery = (query: Partial<TokenQuery>): URLSearchParams => {
+  const params = new URLSearchParams();
+  const slugOf = (status: TokenStatus) => Object.keys(STATUS_SLUGS).find(slug => STATUS_SLUGS[slug] === status);
+  if (query.statuses?.length) params.set('status', query.statuses.map(slugOf).join(','));
+  if (query.chains?.length) params.set('chain', query.chains.join(','));
+  (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).forEach(field => {
+    const range = query[field];
+    if (range && (range.min !== undefined || range.max !== undefined)) {
+      params.set(RANGE_PARAMS[field], `${range.min ?? ''}..${range.max ?? ''}`);
+    }
+  });
+  if (query.sort?.length) params.set('sort', query.sort.map(({ key, direction }) => (direction === 'desc' ? `-${key}` : key)).join(','));
+  if (query.limit !== undefined && query.limit !== DEFAULT_PAGE_SIZE) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+  return params;
+};
+
+// --- Applying a query ---
+
+const inRange = (value: number, { min, max }: NumericRange) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+export const matchesTokenQuery = (token: Token, query: TokenQuery): boolean =>
+  (query.statuses.length === 0 || query.statuses.includes(token.status)) &&
+  (query.chains.length === 0 || query.chains.includes(token.chain)) &&
+  inRange(token.score, query.score) &&
+  inRange(token.marketCap, query.marketCap) &&
+  inRange(token.liquidity, query.liquidity) &&
+  inRange(token.volume24h, query.volume24h);
+
+// The id breaks ties, so every row has a unique position to resume after
+const withTiebreak = (sort: SortState): SortState =>
+  sort.some(criterion => criterion.key === 'id') ? sort : [...sort, { key: 'id', direction: 'asc' }];
+
+type CursorPayload = {
+  // Sort the cursor was issued for; it means nothing under another one
+  sort: string;
+  // Sort key values of the last row served, in sort order
+  values: unknown[];
+};
+
+const sortSignature = (sort: SortState) => sort.map(({ key, direction }) => `${direction === 'desc' ? '-' : ''}${key}`).join(',');
+
+// base64url of UTF-8 JSON: opaque to clients and safe in a query string
+const encodeCursor = (payload: CursorPayload): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeCursor = (cursor: string, sort: SortState): Partial<Token> => {
+  let payload: CursorPayload;
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    payload = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+  } catch {
+    throw new TokenQueryError('Malformed cursor', 'cursor');
+  }
+  if (payload?.sort !== sortSignature(sort) || !Array.isArray(payload.values) || payload.values.length !== sort.length) {
+    throw new TokenQueryError('Cursor does not belong to this sort order', 'cursor');
+  }
+  return Object.fromEntries(sort.map(({ key }, i) => [key, payload.values[i]]));
+};
+
+/**
+ * Filters, sorts and cuts one page out of `tokens`. Throws a TokenQueryError for a bad cursor.
+ */
+export const queryTokens = (tokens: Token[], query: TokenQuery): TokenPage => {
+  const sort = withTiebreak(query.sort);
+  const matching = tokens.filter(token => matchesTokenQuery(token, query)).sort((a, b) => compareTokens(a, b, sort));
+
+  let start = 0;
+  if (query.cursor) {
+    // Only the sort keys are set on the cursor row, which is all the comparator reads
+    const after = decodeCursor(query.cursor, sort) as Token;
+    start = matching.findIndex(token => compareTokens(token, after, sort) > 0);
+    if (start === -1) start = matching.length;
+  }
+
+  const page = matching.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start + page.length < matching.length;
+
+  return {
+    tokens: page,
+    nextCursor: hasMore && last
+      ? encodeCursor({ sort: sortSignature(sort), values: sort.map(({ key }) => last[key] ?? null) })
+      : null,
+    total: matching.length,
+  };
+};
@@ -0,0 +1,54 @@
+import { createMockTokens, createSeededRandom } from '../mockTokens';
+import type { Token } from '../types';
+import { queryTokens, type TokenPage, type TokenQuery } from './tokenQuery';
+
+// --- Token data sources ---
+// The API route handlers only talk to a TokenDataSource, so the seeded in-memory set used
+// for local development and tests can be swapped for a database or an indexer without
+// touching the routes.
+
+export interface TokenDataSource {
+  /** One page of tokens matching `query`. Throws a TokenQueryError for a bad cursor. */
+  list: (query: TokenQuery) => Promise<TokenPage>;
+  /** A single token, or null when the id is unknown. */
+  get: (id: string) => Promise<Token | null>;
+}
+
+/**
+ * Serves a fixed token list from memory.
+ */
+export const createInMemoryTokenSource = (tokens: Token[]): TokenDataSource => {
+  const byId = new Map(tokens.map(token => [token.id, token]));
+  return {
+    list: async (query) => queryTokens(tokens, query),
+    get: async (id) => byId.get(id) ?? null,
+  };
+};
+
+type SeededSourceOptions = {
+  seed?: number;
+  count?: number;
+  // Launch times are spread back from here; fix it too for byte-identical data
+  now?: number;
+};
+
+/**
+ * In-memory source over mock tokens generated from `seed`: the same seed always serves
+ * the same tokens.
+ */
+export const createSeededTokenSource = ({ seed = 1, count = 15, now = Date.now() }: SeededSourceOptions = {}): TokenDataSource =>
+  createInMemoryTokenSource(createMockTokens(count, { random: createSeededRandom(seed), now }));
+
+let defaultSource: TokenDataSource | null = null;
+
+/**
+ * The source behind /api/tokens. Seeded from TOKEN_SOURCE_SEED / TOKEN_SOURCE_COUNT;
+ * created once per server process.
+ */
+export const getTokenSource = (): TokenDataSource => {
+  defaultSource ??= createSeededTokenSource({
+    seed: Number(process.env.TOKEN_SOURCE_SEED ?? 1),
+    count: Number(process.env.TOKEN_SOURCE_COUNT ?? 15),
+  });
+  return defaultSource;
+};
@@ -0,0 +1,55 @@
+// --- OHLC candle aggregation for the token detail chart ---
+
+export type PriceSample = { ts: number; price: number };
+
+export type Candle = {
+  start: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+};
+
+export type ChartWindow = '1m' | '5m' | '1h';
+
+// Each window is drawn as roughly 30 candles
+export const CHART_WINDOWS: Record<ChartWindow, { windowMs: number; bucketMs: number }> = {
+  '1m': { windowMs: 60000, bucketMs: 2000 },
+  '5m': { windowMs: 300000, bucketMs: 10000 },
+  '1h': { windowMs: 3600000, bucketMs: 120000 },
+};
+
+export const CHART_WINDOW_KEYS = Object.keys(CHART_WINDOWS) as ChartWindow[];
+
+/**
+ * Buckets time-ordered samples into candles of `bucketMs`, keeping only buckets that
+ * overlap the last `windowMs` before `now`. Empty buckets between two samples are
+ * filled with a flat candle at the previous close so the chart has no gaps.
+ */
+export const aggregateCandles = (samples: PriceSample[], window: ChartWindow, now: number): Candle[] => {
+  const { windowMs, bucketMs } = CHART_WINDOWS[window];
+  const from = Math.floor((now - windowMs) / bucketMs) * bucketMs;
+  const candles: Candle[] = [];
+
+  for (const { ts, price } of samples) {
+    const start = Math.floor(ts / bucketMs) * bucketMs;
+    const last = candles[candles.length - 1];
+
+    if (last && last.start === start) {
+      last.high = Math.max(last.high, price);
+      last.low = Math.min(last.low, price);
+      last.close = price;
+      continue;
+    }
+
+    if (last) {
+      for (let gap = last.start + bucketMs; gap < start; gap += bucketMs) {
+        candles.push({ start: gap, open: last.close, high: last.close, low: last.close, close: last.close });
+      }
+    }
+    const open = last ? last.close : price;
+    candles.push({ start, open, high: Math.max(open, price), low: Math.min(open, price), close: price });
+  }
+
+  return candles.filter(candle => candle.start >= from);
+};
@@ -0,0 +1,91 @@
+import type { Token, TokenChain } from './types';
+
+// --- Chain registry ---
+// Everything chain-specific lives in this table: display name, the native quote asset pairs
+// trade against, explorer and chart URL templates and the icon. Supporting another chain is a
+// new entry here; `TokenChain` is an open id, so the feed may also send chains not (yet)
+// listed, which render with their raw id and no links.
+
+export type ChainInfo = {
+  id: TokenChain;
+  name: string;
+  // Asset new pairs are quoted in (the `WETH` of `WETH/PEPE`)
+  quoteSymbol: string;
+  // URL templates; `{address}` is replaced with the token contract, `{pair}` with the pair address
+  explorer: { name: string; tokenUrl: string; addressUrl: string };
+  chart: { name: string; pairUrl: string };
+  // Glyph and brand color for the chain badge
+  icon: { glyph: string; color: string };
+};
+
+export const CHAINS: ChainInfo[] = [
+  {
+    id: 'ETH',
+    name: 'Ethereum',
+    quoteSymbol: 'WETH',
+    explorer: { name: 'Etherscan', tokenUrl: 'https://etherscan.io/token/{address}', addressUrl: 'https://etherscan.io/address/{address}' },
+    chart: { name: 'DEX Screener', pairUrl: 'https://dexscreener.com/ethereum/{pair}' },
+    icon: { glyph: 'Ξ', color: '#627eea' },
+  },
+  {
+    id: 'BSC',
+    name: 'BNB Chain',
+    quoteSymbol: 'WBNB',
+    explorer: { name: 'BscScan', tokenUrl: 'https://bscscan.com/token/{address}', addressUrl: 'https://bscscan.com/address/{address}' },
+    chart: { name: 'DEX Screener', pairUrl: 'https://dexscreener.com/bsc/{pair}' },
+    icon: { glyph: 'B', color: '#f0b90b' },
+  },
+  {
+    id: 'SOL',
+    name: 'Solana',
+    quoteSymbol: 'SOL',
+    explorer: { name: 'Solscan', tokenUrl: 'https://solscan.io/token/{address}', addressUrl: 'https://solscan.io/account/{address}' },
+    chart: { name: 'DEX Screener', pairUrl: 'https://dexscreener.com/solana/{pair}' },
+    icon: { glyph: '◎', color: '#9945ff' },
+  },
+  {
+    id: 'BASE',
+    name: 'Base',
+    quoteSymbol: 'WETH',
+    explorer: { name: 'BaseScan', tokenUrl: 'https://basescan.org/token/{address}', addressUrl: 'https://basescan.org/address/{address}' },
+    chart: { name: 'DEX Screener', pairUrl: 'https://dexscreener.com/base/{pair}' },
+    icon: { glyph: 'b', color: '#0052ff' },
+  },
+  {
+    id: 'ARB',
+    name: 'Arbitrum',
+    quoteSymbol: 'WETH',
+    explorer: { name: 'Arbiscan', tokenUrl: 'https://arbiscan.io/token/{address}', addressUrl: 'https://arbiscan.io/address/{address}' },
+    chart: { name: 'DEX Screener', pairUrl: 'https://dexscreener.com/arbitrum/{pair}' },
+    icon: { glyph: 'A', color: '#28a0f0' },
+  },
+];
+
+export const CHAIN_IDS: TokenChain[] = CHAINS.map(chain => chain.id);
+
+const CHAIN_BY_ID = new Map(CHAINS.map(chain => [chain.id, chain]));
+
+export const getChain = (id: TokenChain): ChainInfo | undefined => CHAIN_BY_ID.get(id);
+
+export const isKnownChain = (id: string): id is TokenChain => CHAIN_BY_ID.has(id);
+
+const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? encodeURIComponent(values[key]) : match));
+
+// --- Deep links ---
+// Undefined for chains missing from the registry
+
+export const explorerTokenUrl = (token: Pick<Token, 'chain' | 'address'>): string | undefined => {
+  const chain = getChain(token.chain);
+  return chain && fillTemplate(chain.explorer.tokenUrl, { address: token.address });
+};
+
+export const explorerAddressUrl = (chainId: TokenChain, address: string): string | undefined => {
+  const chain = getChain(chainId);
+  return chain && fillTemplate(chain.explorer.addressUrl, { address });
+};
+
+export const chartUrl = (token: Pick<Token, 'chain' | 'pairAddress'>): string | undefined => {
+  const chain = getChain(token.chain);
+  return chain && fillTemplate(chain.chart.pairUrl, { pair: token.pairAddress });
+};
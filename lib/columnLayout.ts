@@ -0,0 +1,130 @@
+// --- Column layout model ---
+// Order, per-breakpoint visibility and width of the table columns, plus named layouts.
+// Column ids are plain strings here; the registry (components/columns.tsx) supplies the
+// specs, so stored layouts survive columns being added or removed between releases.
+
+export type Breakpoint = 'mobile' | 'desktop';
+
+export const BREAKPOINTS: Breakpoint[] = ['mobile', 'desktop'];
+
+export type ColumnVisibility = Record<Breakpoint, boolean>;
+
+export type ColumnLayout = {
+  order: string[];
+  visibility: Record<string, ColumnVisibility>;
+  // Pixels; also the column's share of any extra space (see gridTemplate)
+  widths: Record<string, number>;
+};
+
+export type ColumnLayoutSpec = {
+  id: string;
+  defaultWidth: number;
+  minWidth: number;
+  defaultVisibility: ColumnVisibility;
+  // Can't be hidden (the row needs something to identify the token)
+  required?: boolean;
+};
+
+export type SavedColumnLayout = { name: string; layout: ColumnLayout };
+
+export type ColumnLayoutState = {
+  version: typeof COLUMN_LAYOUT_SCHEMA_VERSION;
+  current: ColumnLayout;
+  saved: SavedColumnLayout[];
+};
+
+export const COLUMN_LAYOUT_STORAGE_KEY = 'axiom.columnLayout';
+export const COLUMN_LAYOUT_SCHEMA_VERSION = 1;
+
+// Upper bound for a resized column
+export const MAX_COLUMN_WIDTH = 600;
+
+export const createDefaultLayout = (specs: ColumnLayoutSpec[]): ColumnLayout => ({
+  order: specs.map(spec => spec.id),
+  visibility: Object.fromEntries(specs.map(spec => [spec.id, { ...spec.defaultVisibility }])),
+  widths: Object.fromEntries(specs.map(spec => [spec.id, spec.defaultWidth])),
+});
+
+export const clampWidth = (spec: ColumnLayoutSpec, width: number) =>
+  Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(spec.minWidth, width)));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reconciles a stored (or hand-edited) layout with the current column specs: unknown ids
+ * are dropped, new columns are appended with their defaults, widths are clamped and
+ * required columns stay visible. Never throws.
+ */
+export const normalizeLayout = (raw: unknown, specs: ColumnLayoutSpec[]): ColumnLayout => {
+  const defaults = createDefaultLayout(specs);
+  if (!isRecord(raw)) return defaults;
+
+  const specById = new Map(specs.map(spec => [spec.id, spec]));
+  const storedOrder = Array.isArray(raw.order) ? raw.order.filter((id): id is string => typeof id === 'string') : [];
+  const order = Array.from(new Set(storedOrder.filter(id => specById.has(id))));
+  specs.forEach(spec => {
+    if (!order.includes(spec.id)) order.push(spec.id);
+  });
+
+  const storedVisibility = isRecord(raw.visibility) ? raw.visibility : {};
+  const storedWidths = isRecord(raw.widths) ? raw.widths : {};
+  const visibility: Record<string, ColumnVisibility> = {};
+  const widths: Record<string, number> = {};
+
+  specs.forEach(spec => {
+    const stored = storedVisibility[spec.id];
+    visibility[spec.id] = {
+      mobile: spec.required || (isRecord(stored) && typeof stored.mobile === 'boolean' ? stored.mobile : spec.defaultVisibility.mobile),
+      desktop: spec.required || (isRecord(stored) && typeof stored.desktop === 'boolean' ? stored.desktop : spec.defaultVisibility.desktop),
+    };
+    const width = storedWidths[spec.id];
+    widths[spec.id] = typeof width === 'number' && Number.isFinite(width) ? clampWidth(spec, width) : spec.defaultWidth;
+  });
+
+  return { order, visibility, widths };
+};
+
+export const parseStoredColumnLayouts = (value: string | null, specs: ColumnLayoutSpec[]): ColumnLayoutState => {
+  const empty: ColumnLayoutState = { version: COLUMN_LAYOUT_SCHEMA_VERSION, current: createDefaultLayout(specs), saved: [] };
+  if (!value) return empty;
+  try {
+    const raw: unknown = JSON.parse(value);
+    if (!isRecord(raw) || raw.version !== COLUMN_LAYOUT_SCHEMA_VERSION) return empty;
+    const saved = Array.isArray(raw.saved)
+      ? raw.saved
+        .filter((entry): entry is Record<string, unknown> => isRecord(entry) && typeof entry.name === 'string')
+        .map(entry => ({ name: entry.name as string, layout: normalizeLayout(entry.layout, specs) }))
+      : [];
+    return { version: COLUMN_LAYOUT_SCHEMA_VERSION, current: normalizeLayout(raw.current, specs), saved };
+  } catch {
+    return empty;
+  }
+};
+
+export const serializeColumnLayouts = (state: ColumnLayoutState): string => JSON.stringify(state);
+
+/** Ids visible at a breakpoint, in display order. */
+export const visibleColumnIds = (layout: ColumnLayout, breakpoint: Breakpoint): string[] =>
+  layout.order.filter(id => layout.visibility[id]?.[breakpoint]);
+
+/**
+ * CSS grid-template-columns for a breakpoint. Each column gets at least its width and
+ * grows in proportion to it when the table is wider than the sum.
+ */
+export const gridTemplate = (layout: ColumnLayout, breakpoint: Breakpoint): string =>
+  visibleColumnIds(layout, breakpoint)
+    .map(id => `minmax(${layout.widths[id]}px, ${layout.widths[id]}fr)`)
+    .join(' ');
+
+/** Sum of the visible column widths, for the table's minimum width. */
+export const totalWidth = (layout: ColumnLayout, breakpoint: Breakpoint): number =>
+  visibleColumnIds(layout, breakpoint).reduce((sum, id) => sum + layout.widths[id], 0);
+
+export const moveColumn = (layout: ColumnLayout, id: string, toIndex: number): ColumnLayout => {
+  const from = layout.order.indexOf(id);
+  if (from === -1) return layout;
+  const order = layout.order.filter(existing => existing !== id);
+  order.splice(Math.max(0, Math.min(order.length, toIndex)), 0, id);
+  return { ...layout, order };
+};
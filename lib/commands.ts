@@ -0,0 +1,36 @@
+import { fuzzyMatch } from './fuzzy';
+
+// --- Command palette commands ---
+// Built by the App from its current state (hooks/usePaletteCommands.ts); the palette only
+// filters, lists and runs them.
+
+export type CommandGroup = 'Tabs' | 'Sort' | 'Filters' | 'Views' | 'Actions';
+
+export const COMMAND_GROUPS: CommandGroup[] = ['Tabs', 'Views', 'Filters', 'Sort', 'Actions'];
+
+export type PaletteCommand = {
+  id: string;
+  group: CommandGroup;
+  label: string;
+  // Keys shown next to the label, e.g. ['1'] for the first tab
+  shortcut?: string[];
+  // Marks toggles that are currently on (e.g. an active chain filter)
+  active?: boolean;
+  run: () => void;
+};
+
+/**
+ * Commands matching `query` (fuzzy, on "<group> <label>"), best first. An empty query keeps
+ * every command in group order.
+ */
+export const matchCommands = (commands: PaletteCommand[], query: string): PaletteCommand[] => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return COMMAND_GROUPS.flatMap(group => commands.filter(command => command.group === group));
+  }
+  return commands
+    .map(command => ({ command, match: fuzzyMatch(trimmed, `${command.group} ${command.label}`) }))
+    .filter((entry): entry is { command: PaletteCommand; match: NonNullable<typeof entry.match> } => entry.match !== null)
+    .sort((a, b) => b.match.score - a.match.score)
+    .map(entry => entry.command);
+};
@@ -0,0 +1,136 @@
+import type { PriceSample } from './candles';
+import type { PositionMark } from './trading/portfolio';
+import type { Token } from './types';
+
+// --- Table export ---
+// Serializes the current table view (rows in their on-screen order, visible columns only)
+// as CSV, TSV or JSON. Pure: the caller decides whether it goes to a file or the clipboard.
+
+export type ExportFormat = 'csv' | 'tsv' | 'json';
+
+// Raw numeric values, or the strings the table displays (formatUSD / formatCompactNumber)
+export type ExportMode = 'raw' | 'display';
+
+export type ExportValue = string | number | null;
+
+// What a row knows besides its token: the paper position held in it, if any, and the
+// feed time ages are measured against
+export type ExportRowContext = {
+  position: PositionMark | undefined;
+  now: number;
+};
+
+export type ExportField = {
+  label: string;
+  raw: (token: Token, row: ExportRowContext) => ExportValue;
+  display: (token: Token, row: ExportRowContext) => string;
+};
+
+export type ExportOptions = {
+  format: ExportFormat;
+  mode: ExportMode;
+  // Recent price history per token id; included when present ("snapshot" export)
+  history?: Record<string, PriceSample[]>;
+  // Export time, recorded in JSON output
+  now: number;
+  // Feed time for launch ages; differs from `now` during a replay
+  feedNow?: number;
+  // Marked positions by token id, for the Position / PnL columns
+  positions?: Record<string, PositionMark>;
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+  json: 'application/json',
+};
+
+const readField = (field: ExportField, token: Token, row: ExportRowContext, mode: ExportMode): ExportValue =>
+  mode === 'raw' ? field.raw(token, row) : field.display(token, row);
+
+// A number as the table displays it (-$3.10, +12.5%, -1.2K)
+type FormattedNumber = { formatted: string };
+
+type Cell = ExportValue | FormattedNumber;
+
+// Like readField, but display text of a numeric field stays marked as the table's own output
+const readCell = (field: ExportField, token: Token, row: ExportRowContext, mode: ExportMode): Cell => {
+  const raw = field.raw(token, row);
+  if (mode === 'raw') return raw;
+  const text = field.display(token, row);
+  return typeof raw === 'number' ? { formatted: text } : text;
+};
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Text (names, symbols, anything from the feed) is neutralized with a leading apostrophe;
+// formatted numbers start with a sign but are safe as they are
+const toCellText = (cell: Exclude<Cell, null>): string => {
+  if (typeof cell === 'number') return String(cell);
+  if (typeof cell === 'object') return cell.formatted;
+  return FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+};
+
+// RFC 4180: quote when the value contains the delimiter, a quote or a line break
+const escapeCsv = (cell: Cell): string => {
+  if (cell === null) return '';
+  const text = toCellText(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// TSV has no quoting convention; tabs and line breaks are flattened to spaces
+const escapeTsv = (cell: Cell): string => (cell === null ? '' : toCellText(cell).replace(/[\t\r\n]+/g, ' '));
+
+const toDelimited = (lines: Cell[][], format: 'csv' | 'tsv') => {
+  const escape = format === 'csv' ? escapeCsv : escapeTsv;
+  const delimiter = format === 'csv' ? ',' : '\t';
+  return lines.map(line => line.map(escape).join(delimiter)).join('\r\n');
+};
+
+/**
+ * Builds the export document. For CSV / TSV a snapshot appends a second table, separated by
+ * a blank line, with one row per history sample (long format, so it pastes cleanly into a
+ * spreadsheet). For JSON each token record gets a `priceHistory` array.
+ */
+export const exportTokens = (tokens: Token[], fields: ExportField[], { format, mode, history, now, feedNow = now, positions }: ExportOptions): string => {
+  const rowOf = (token: Token): ExportRowContext => ({ position: positions?.[token.id], now: feedNow });
+  if (format === 'json') {
+    const rows = tokens.map(token => {
+      const record: Record<string, ExportValue | { ts: number; time: string; priceUSD: number }[]> = { id: token.id };
+      const row = rowOf(token);
+      fields.forEach(field => {
+        record[field.label] = readField(field, token, row, mode);
+      });
+      if (history) {
+        record.priceHistory = (history[token.id] ?? []).map(({ ts, price }) => ({
+          ts,
+          time: new Date(ts).toISOString(),
+          priceUSD: price,
+        }));
+      }
+      return record;
+    });
+    return JSON.stringify({ exportedAt: new Date(now).toISOString(), mode, rows }, null, 2);
+  }
+
+  const table: Cell[][] = [
+    fields.map(field => field.label),
+    ...tokens.map(token => {
+      const row = rowOf(token);
+      return fields.map(field => readCell(field, token, row, mode));
+    }),
+  ];
+  if (!history) return toDelimited(table, format);
+
+  const historyTable: ExportValue[][] = [['Token ID', 'Symbol', 'Timestamp', 'Time (UTC)', 'Price (USD)']];
+  tokens.forEach(token => {
+    (history[token.id] ?? []).forEach(({ ts, price }) => {
+      historyTable.push([token.id, token.symbol, ts, new Date(ts).toISOString(), price]);
+    });
+  });
+  return `${toDelimited(table, format)}\r\n\r\n${toDelimited(historyTable, format)}`;
+};
+
+export const exportFileName = (format: ExportFormat, now: number) =>
+  `axiom-pulse-${new Date(now).toISOString().replace(/[:.]/g, '-').slice(0, 19)}.${format}`;
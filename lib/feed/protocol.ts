@@ -0,0 +1,126 @@
+import type { Token, TokenAudit } from '../types';
+
+// --- Pulse feed wire protocol ---
+// Every frame is a JSON object carrying the protocol version `v` and a `type`.
+// The server answers a `subscribe` with a full `snapshot`, then streams deltas.
+// v2: every token carries its `audit` inputs (the Score column is computed from them).
+
+export const FEED_PROTOCOL_VERSION = 2;
+
+type ProtocolVersion = typeof FEED_PROTOCOL_VERSION;
+
+export const DEFAULT_FEED_CHANNELS = ['pulse'];
+
+// A single price update for one token. Optional fields are only sent when they changed.
+export type PriceTick = {
+  id: string;
+  priceUSD: number;
+  volume24h?: number;
+  marketCap?: number;
+  liquidity?: number;
+  bondingProgress?: number;
+  ts: number;
+};
+
+export type SnapshotMessage = { v: ProtocolVersion; type: 'snapshot'; tokens: Token[]; ts: number };
+export type PriceTickMessage = { v: ProtocolVersion; type: 'price_tick'; ticks: PriceTick[] };
+export type TokenAddedMessage = { v: ProtocolVersion; type: 'token_added'; token: Token };
+export type TokenRemovedMessage = { v: ProtocolVersion; type: 'token_removed'; id: string };
+
+export type ServerMessage =
+  | SnapshotMessage
+  | PriceTickMessage
+  | TokenAddedMessage
+  | TokenRemovedMessage;
+
+export type ClientMessage =
+  | { v: ProtocolVersion; type: 'subscribe'; channels: string[] }
+  | { v: ProtocolVersion; type: 'unsubscribe'; channels: string[] };
+
+/**
+ * Raised when a frame cannot be decoded or speaks an unsupported protocol version.
+ */
+export class FeedProtocolError extends Error {
+  constructor(message: string, public readonly code: 'malformed' | 'version' = 'malformed') {
+    super(message);
+    this.name = 'FeedProtocolError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isAuthorityFlag = (value: unknown) => typeof value === 'boolean' || value === null;
+
+export const isTokenAudit = (value: unknown): value is TokenAudit =>
+  isRecord(value) &&
+  isFiniteNumber(value.liquidityLockedPct) && isFiniteNumber(value.lpBurnedPct) &&
+  isFiniteNumber(value.topHoldersPct) && isFiniteNumber(value.devHoldingsPct) &&
+  isAuthorityFlag(value.mintAuthority) && isAuthorityFlag(value.freezeAuthority) &&
+  typeof value.honeypot === 'boolean';
+
+/**
+ * Minimal shape check for a token on the wire (also used for recordings): an id, a price
+ * and the audit inputs the score is computed from.
+ */
+export const isTokenLike = (value: unknown): value is Token =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.priceUSD === 'number' && isTokenAudit(value.audit);
+
+const isTickLike = (value: unknown): value is PriceTick =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.priceUSD === 'number';
+
+/**
+ * Decodes and validates a raw frame. Throws a FeedProtocolError for anything malformed.
+ */
+export const parseServerMessage = (raw: string): ServerMessage => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    throw new FeedProtocolError('Frame is not valid JSON');
+  }
+
+  if (!isRecord(payload)) throw new FeedProtocolError('Frame is not an object');
+  if (payload.v !== FEED_PROTOCOL_VERSION) {
+    throw new FeedProtocolError(`Unsupported protocol version: ${String(payload.v)}`, 'version');
+  }
+
+  switch (payload.type) {
+    case 'snapshot':
+      if (Array.isArray(payload.tokens) && payload.tokens.every(isTokenLike)) {
+        return payload as SnapshotMessage;
+      }
+      break;
+    case 'price_tick':
+      if (Array.isArray(payload.ticks) && payload.ticks.every(isTickLike)) {
+        return payload as PriceTickMessage;
+      }
+      break;
+    case 'token_added':
+      if (isTokenLike(payload.token)) return payload as TokenAddedMessage;
+      break;
+    case 'token_removed':
+      if (typeof payload.id === 'string') return payload as TokenRemovedMessage;
+      break;
+    default:
+      throw new FeedProtocolError(`Unknown message type: ${String(payload.type)}`);
+  }
+
+  throw new FeedProtocolError(`Malformed "${String(payload.type)}" message`);
+};
+
+export const encodeClientMessage = (message: ClientMessage): string => JSON.stringify(message);
+
+/**
+ * Merges a tick into its token, keeping fields the tick didn't carry.
+ */
+export const applyPriceTick = (token: Token, tick: PriceTick): Token => ({
+  ...token,
+  priceUSD: tick.priceUSD,
+  volume24h: tick.volume24h ?? token.volume24h,
+  marketCap: tick.marketCap ?? token.marketCap,
+  liquidity: tick.liquidity ?? token.liquidity,
+  bondingProgress: tick.bondingProgress ?? token.bondingProgress,
+});
@@ -0,0 +1,287 @@
+import { applyPriceTick, FEED_PROTOCOL_VERSION, isTokenLike, type PriceTick, type ServerMessage } from './protocol';
+import type { FeedTransport } from './transport';
+import type { Token } from '../types';
+
+// --- Feed recordings ---
+// The message stream behind `useRealtimeTokens`, saved as one JSON document for replay
+// (lib/feed/replay.ts). Frames are tuples with their offset from the start of the
+// recording; token ids are stored once and referenced by index, and ticks are arrays
+// with trailing unchanged fields dropped. A recording always opens with a snapshot.
+
+export const FEED_RECORDING_FORMAT = 'axiom-feed-recording';
+export const FEED_RECORDING_VERSION = 1;
+
+// [index into `ids`, priceUSD, ts - frame time, volume24h, marketCap, liquidity, bondingProgress]
+// Fields the tick didn't carry are null, trailing ones are left out.
+export type RecordedTick = [number, number, number, ...(number | null)[]];
+
+export type RecordedFrame =
+  | [offsetMs: number, kind: 's', tokens: Token[]]
+  | [offsetMs: number, kind: 't', ticks: RecordedTick[]]
+  | [offsetMs: number, kind: 'a', token: Token]
+  | [offsetMs: number, kind: 'r', idIndex: number];
+
+export type FeedRecording = {
+  format: typeof FEED_RECORDING_FORMAT;
+  version: typeof FEED_RECORDING_VERSION;
+  // Wall-clock time of the first frame
+  startedAt: number;
+  durationMs: number;
+  ids: string[];
+  frames: RecordedFrame[];
+};
+
+// A decoded frame: the original message and when it arrived, relative to `startedAt`
+export type RecordedMessage = {
+  at: number;
+  message: ServerMessage;
+};
+
+/**
+ * Raised when a recording file can't be read; the message is shown to the user.
+ */
+export class FeedRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedRecordingError';
+  }
+}
+
+const OPTIONAL_TICK_FIELDS = ['volume24h', 'marketCap', 'liquidity', 'bondingProgress'] as const;
+
+const encodeTick = (tick: PriceTick, idIndex: number, frameTs: number): RecordedTick => {
+  const optional = OPTIONAL_TICK_FIELDS.map(field => tick[field] ?? null);
+  while (optional.length > 0 && optional[optional.length - 1] === null) optional.pop();
+  return [idIndex, tick.priceUSD, tick.ts - frameTs, ...optional];
+};
+
+const decodeTick = ([idIndex, priceUSD, tsDelta, ...optional]: RecordedTick, ids: string[], frameTs: number): PriceTick => {
+  const tick: PriceTick = { id: ids[idIndex], priceUSD, ts: frameTs + tsDelta };
+  OPTIONAL_TICK_FIELDS.forEach((field, i) => {
+    const value = optional[i];
+    if (typeof value === 'number') tick[field] = value;
+  });
+  return tick;
+};
+
+/**
+ * Expands a recording back into protocol messages with their original timestamps.
+ */
+export const decodeRecording = (recording: FeedRecording): RecordedMessage[] =>
+  recording.frames.map((frame): RecordedMessage => {
+    const at = frame[0];
+    const ts = recording.startedAt + at;
+    switch (frame[1]) {
+      case 's':
+        return { at, message: { v: FEED_PROTOCOL_VERSION, type: 'snapshot', tokens: frame[2], ts } };
+      case 't':
+        return { at, message: { v: FEED_PROTOCOL_VERSION, type: 'price_tick', ticks: frame[2].map(tick => decodeTick(tick, recording.ids, ts)) } };
+      case 'a':
+        return { at, message: { v: FEED_PROTOCOL_VERSION, type: 'token_added', token: frame[2] } };
+      case 'r':
+        return { at, message: { v: FEED_PROTOCOL_VERSION, type: 'token_removed', id: recording.ids[frame[2]] } };
+    }
+  });
+
+export const serializeFeedRecording = (recording: FeedRecording): string => JSON.stringify(recording);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isIdIndex = (value: unknown, ids: string[]): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < ids.length;
+
+const isRecordedTick = (value: unknown, ids: string[]): value is RecordedTick =>
+  Array.isArray(value) && value.length >= 3 && value.length <= 3 + OPTIONAL_TICK_FIELDS.length &&
+  isIdIndex(value[0], ids) && isFiniteNumber(value[1]) && isFiniteNumber(value[2]) &&
+  value.slice(3).every(field => field === null || isFiniteNumber(field));
+
+const isRecordedFrame = (value: unknown, ids: string[]): value is RecordedFrame => {
+  if (!Array.isArray(value) || value.length !== 3 || !isFiniteNumber(value[0]) || value[0] < 0) return false;
+  switch (value[1]) {
+    case 's': return Array.isArray(value[2]) && value[2].every(isTokenLike);
+    case 't': return Array.isArray(value[2]) && value[2].every(tick => isRecordedTick(tick, ids));
+    case 'a': return isTokenLike(value[2]);
+    case 'r': return isIdIndex(value[2], ids);
+    default: return false;
+  }
+};
+
+/**
+ * Reads a recording file. Unlike stored settings nothing is dropped silently: a file with
+ * a bad frame is rejected as a whole, with a FeedRecordingError saying why.
+ */
+export const parseFeedRecording = (text: string): FeedRecording => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new FeedRecordingError('File is not valid JSON');
+  }
+  if (!isRecord(raw) || raw.format !== FEED_RECORDING_FORMAT) {
+    throw new FeedRecordingError('Not a feed recording');
+  }
+  if (raw.version !== FEED_RECORDING_VERSION) {
+    throw new FeedRecordingError(`Unsupported recording version: ${String(raw.version)}`);
+  }
+  const { startedAt, durationMs, ids, frames } = raw;
+  if (!isFiniteNumber(startedAt) || !isFiniteNumber(durationMs) || durationMs < 0) {
+    throw new FeedRecordingError('Recording has no valid start time or duration');
+  }
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    throw new FeedRecordingError('Recording has no valid token id table');
+  }
+  if (!Array.isArray(frames) || frames.length === 0) throw new FeedRecordingError('Recording is empty');
+
+  let previous = 0;
+  frames.forEach((frame, i) => {
+    if (!isRecordedFrame(frame, ids)) throw new FeedRecordingError(`Frame ${i + 1} is malformed`);
+    if (frame[0] < previous || frame[0] > durationMs) throw new FeedRecordingError(`Frame ${i + 1} is out of order`);
+    previous = frame[0];
+  });
+  if (frames[0][1] !== 's' || frames[0][0] !== 0) throw new FeedRecordingError('Recording does not start with a snapshot');
+
+  return {
+    format: FEED_RECORDING_FORMAT,
+    version: FEED_RECORDING_VERSION,
+    startedAt,
+    durationMs,
+    ids,
+    frames: frames as RecordedFrame[],
+  };
+};
+
+// --- Recorder ---
+
+export type FeedRecorderState = {
+  // Wall-clock start of the recording in progress, null when idle
+  recordingSince: number | null;
+};
+
+const IDLE_STATE: FeedRecorderState = { recordingSince: null };
+
+export type FeedRecorder = ReturnType<typeof createFeedRecorder>;
+
+/**
+ * Wraps a transport and records what flows through it on demand. The recorder mirrors the
+ * token list from the first snapshot on, so a recording started mid-stream opens with a
+ * snapshot of that moment. External store for useSyncExternalStore.
+ */
+export const createFeedRecorder = (source: FeedTransport, now: () => number = Date.now) => {
+  let state = IDLE_STATE;
+  const listeners = new Set<() => void>();
+  // Current token list, null until the feed sent a snapshot
+  let mirror: Map<string, Token> | null = null;
+  let frames: RecordedFrame[] = [];
+  let idIndex = new Map<string, number>();
+  let startedAt = 0;
+
+  const setState = (next: FeedRecorderState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const indexOf = (id: string) => {
+    let index = idIndex.get(id);
+    if (index === undefined) {
+      index = idIndex.size;
+      idIndex.set(id, index);
+    }
+    return index;
+  };
+
+  const track = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'snapshot':
+        mirror = new Map(message.tokens.map(token => [token.id, token]));
+        break;
+      case 'price_tick':
+        message.ticks.forEach(tick => {
+          const token = mirror?.get(tick.id);
+          if (token) mirror?.set(tick.id, applyPriceTick(token, tick));
+        });
+        break;
+      case 'token_added':
+        mirror?.set(message.token.id, message.token);
+        break;
+      case 'token_removed':
+        mirror?.delete(message.id);
+        break;
+    }
+  };
+
+  const record = (message: ServerMessage, ts: number) => {
+    // Nothing is kept until there's a snapshot to start from; the recording starts with it
+    if (frames.length === 0) {
+      if (message.type !== 'snapshot') return;
+      startedAt = ts;
+    }
+    const offset = Math.max(0, ts - startedAt);
+    switch (message.type) {
+      case 'snapshot':
+        frames.push([offset, 's', message.tokens]);
+        break;
+      case 'price_tick':
+        frames.push([offset, 't', message.ticks.map(tick => encodeTick(tick, indexOf(tick.id), ts))]);
+        break;
+      case 'token_added':
+        frames.push([offset, 'a', message.token]);
+        break;
+      case 'token_removed':
+        frames.push([offset, 'r', indexOf(message.id)]);
+        break;
+    }
+  };
+
+  const transport: FeedTransport = {
+    connect: handlers => source.connect({
+      ...handlers,
+      onMessage: message => {
+        track(message);
+        if (state.recordingSince !== null) record(message, now());
+        handlers.onMessage(message);
+      },
+    }),
+  };
+
+  return {
+    /** The wrapped transport; connect this instead of the source. */
+    transport,
+    start: () => {
+      if (state.recordingSince !== null) return;
+      startedAt = now();
+      frames = [];
+      idIndex = new Map();
+      if (mirror) frames.push([0, 's', [...mirror.values()]]);
+      setState({ recordingSince: startedAt });
+    },
+    /** Ends the recording; null if no snapshot arrived while it ran. */
+    stop: (): FeedRecording | null => {
+      if (state.recordingSince === null) return null;
+      const recording: FeedRecording | null = frames.length > 0
+        ? {
+            format: FEED_RECORDING_FORMAT,
+            version: FEED_RECORDING_VERSION,
+            startedAt,
+            durationMs: Math.max(0, now() - startedAt),
+            ids: [...idIndex.keys()],
+            frames,
+          }
+        : null;
+      frames = [];
+      idIndex = new Map();
+      setState(IDLE_STATE);
+      return recording;
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => state,
+    getServerSnapshot: () => IDLE_STATE,
+  };
+};
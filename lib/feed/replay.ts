@@ -0,0 +1,180 @@
+import { decodeRecording, type FeedRecording } from './recording';
+import type { FeedHandlers, FeedTransport } from './transport';
+
+// --- Feed replay ---
+// Plays a recording (lib/feed/recording.ts) back as a FeedTransport, in place of the mock
+// interval or the WebSocket. Messages go out with their recorded timestamps and the
+// transport's clock follows the playback position, so the token store derives change
+// windows, sparklines and lifecycle stages exactly as it did live, at any speed.
+//
+// Seeking re-sends the stream from the last snapshot before the target in one go: the store
+// keeps every tick in its price history, so the change windows are rebuilt as well.
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 20] as const;
+
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+export type ReplayState = {
+  playing: boolean;
+  speed: ReplaySpeed;
+  // Offset from the start of the recording
+  positionMs: number;
+  durationMs: number;
+  // Wall-clock time the recording started at
+  startedAt: number;
+  // Bumped whenever playback jumps and the stream is re-sent; anything collected from the
+  // feed since (e.g. a chart's ticks) is stale then
+  seeks: number;
+};
+
+// Longest wait between position updates while playing (drives the seek bar)
+const POSITION_UPDATE_MS = 250;
+
+const wallClock = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>;
+
+/**
+ * Playback controls plus the transport to connect. Starts playing at 1x from the beginning.
+ * External store for useSyncExternalStore; the position only advances while connected.
+ */
+export const createReplayPlayer = (recording: FeedRecording) => {
+  const messages = decodeRecording(recording);
+  const listeners = new Set<() => void>();
+  let state: ReplayState = {
+    playing: true,
+    speed: 1,
+    positionMs: 0,
+    durationMs: recording.durationMs,
+    startedAt: recording.startedAt,
+    seeks: 0,
+  };
+  let handlers: FeedHandlers | null = null;
+  // Next message to send
+  let cursor = 0;
+  // Position at a wall-clock instant; playback advances from there at `speed`
+  let anchor = { positionMs: 0, wall: 0 };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (patch: Partial<ReplayState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const running = () => state.playing && handlers !== null;
+
+  const position = () => running()
+    ? Math.min(state.durationMs, anchor.positionMs + (wallClock() - anchor.wall) * state.speed)
+    : state.positionMs;
+
+  // While seeking, the clock stands at the message being re-sent
+  let seekingAt: number | null = null;
+  const now = () => recording.startedAt + (seekingAt ?? position());
+
+  const send = (until: number) => {
+    while (cursor < messages.length && messages[cursor].at <= until) {
+      handlers?.onMessage(messages[cursor].message);
+      cursor += 1;
+    }
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const schedule = () => {
+    clearTimer();
+    if (!running()) return;
+    const next = messages[cursor];
+    const untilNext = next ? (next.at - position()) / state.speed : Infinity;
+    timer = setTimeout(step, Math.max(0, Math.min(POSITION_UPDATE_MS, untilNext)));
+  };
+
+  const step = () => {
+    timer = null;
+    const positionMs = position();
+    send(positionMs);
+    if (positionMs >= state.durationMs) {
+      setState({ playing: false, positionMs: state.durationMs });
+      return;
+    }
+    setState({ positionMs });
+    schedule();
+  };
+
+  const anchorAt = (positionMs: number) => {
+    anchor = { positionMs, wall: wallClock() };
+  };
+
+  // Sends everything from the last snapshot up to `target`, as if it had just streamed in
+  const rebuild = (target: number) => {
+    let start = 0;
+    for (let i = 0; i < messages.length && messages[i].at <= target; i++) {
+      if (messages[i].message.type === 'snapshot') start = i;
+    }
+    cursor = start;
+    while (cursor < messages.length && messages[cursor].at <= target) {
+      seekingAt = messages[cursor].at;
+      handlers?.onMessage(messages[cursor].message);
+      cursor += 1;
+    }
+    seekingAt = null;
+  };
+
+  const seek = (positionMs: number) => {
+    const target = Math.min(state.durationMs, Math.max(0, positionMs));
+    anchorAt(target);
+    setState({ positionMs: target, seeks: state.seeks + 1 });
+    if (handlers) rebuild(target);
+    schedule();
+  };
+
+  const transport: FeedTransport = {
+    connect: (next) => {
+      handlers = next;
+      next.onStatusChange?.('open');
+      rebuild(state.positionMs);
+      anchorAt(state.positionMs);
+      schedule();
+      return () => {
+        // Hold the position until the next connect
+        const positionMs = position();
+        clearTimer();
+        handlers = null;
+        state = { ...state, positionMs };
+      };
+    },
+    now,
+  };
+
+  return {
+    transport,
+    play: () => {
+      if (state.playing) return;
+      const from = state.positionMs >= state.durationMs ? 0 : state.positionMs;
+      if (from !== state.positionMs && handlers) rebuild(from);
+      anchorAt(from);
+      setState({ playing: true, positionMs: from, seeks: from !== state.positionMs ? state.seeks + 1 : state.seeks });
+      schedule();
+    },
+    pause: () => {
+      if (!state.playing) return;
+      setState({ playing: false, positionMs: position() });
+      clearTimer();
+    },
+    seek,
+    setSpeed: (speed: ReplaySpeed) => {
+      anchorAt(position());
+      setState({ speed, positionMs: anchor.positionMs });
+      schedule();
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => state,
+  };
+};
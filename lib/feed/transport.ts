@@ -0,0 +1,198 @@
+import { fetchAllTokens } from '../api/client';
+import { nextMockTick } from '../mockTokens';
+import {
+  DEFAULT_FEED_CHANNELS,
+  FEED_PROTOCOL_VERSION,
+  applyPriceTick,
+  FeedProtocolError,
+  encodeClientMessage,
+  parseServerMessage,
+  type PriceTick,
+  type ServerMessage,
+} from './protocol';
+import type { Token } from '../types';
+
+// --- Pluggable feed transports ---
+// `useRealtimeTokens` only talks to a FeedTransport, so the mock interval, a live
+// WebSocket endpoint and a recorded replay (lib/feed/replay.ts) are interchangeable.
+
+export type FeedStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface FeedHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatusChange?: (status: FeedStatus) => void;
+  // Only called for failures that end the connection for good (retries exhausted, bad protocol version).
+  onError?: (error: Error) => void;
+}
+
+export interface FeedTransport {
+  /** Opens the feed and returns a function that tears it down. */
+  connect: (handlers: FeedHandlers) => () => void;
+  /** Clock the feed's timestamps follow; defaults to `Date.now`. A replay runs on the recording's time. */
+  now?: () => number;
+}
+
+/**
+ * Raised once the WebSocket transport gives up reconnecting.
+ */
+export class FeedConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FeedConnectionError';
+  }
+}
+
+export type BackoffOptions = {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  factor: number;
+  maxRetries: number;
+};
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  factor: 2,
+  maxRetries: 10,
+};
+
+/**
+ * Exponential backoff with "equal jitter": half of the delay is fixed, the other half random,
+ * so a fleet of clients dropped by the same server restart doesn't reconnect in lockstep.
+ */
+export const getBackoffDelay = (attempt: number, options: BackoffOptions = DEFAULT_BACKOFF): number => {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * options.factor ** attempt);
+  return base / 2 + Math.random() * (base / 2);
+};
+
+type WebSocketTransportOptions = {
+  url: string;
+  channels?: string[];
+  backoff?: BackoffOptions;
+};
+
+/**
+ * Connects to a real Pulse feed. Reconnects with exponential backoff and re-sends
+ * the subscription after every (re)connect; the server answers with a fresh snapshot.
+ */
+export const createWebSocketTransport = ({
+  url,
+  channels = DEFAULT_FEED_CHANNELS,
+  backoff = DEFAULT_BACKOFF,
+}: WebSocketTransportOptions): FeedTransport => ({
+  connect: (handlers) => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let disposed = false;
+
+    const fail = (error: Error) => {
+      disposed = true;
+      handlers.onStatusChange?.('closed');
+      handlers.onError?.(error);
+    };
+
+    const scheduleReconnect = () => {
+      if (attempt >= backoff.maxRetries) {
+        fail(new FeedConnectionError(`Lost connection to ${url} after ${attempt} reconnect attempts`));
+        return;
+      }
+      handlers.onStatusChange?.('reconnecting');
+      retryTimer = setTimeout(open, getBackoffDelay(attempt, backoff));
+      attempt += 1;
+    };
+
+    const open = () => {
+      retryTimer = null;
+      if (attempt === 0) handlers.onStatusChange?.('connecting');
+
+      const ws = new WebSocket(url);
+      socket = ws;
+
+      ws.onopen = () => {
+        attempt = 0;
+        handlers.onStatusChange?.('open');
+        ws.send(encodeClientMessage({ v: FEED_PROTOCOL_VERSION, type: 'subscribe', channels }));
+      };
+
+      ws.onmessage = (event: MessageEvent) => {
+        if (disposed) return;
+        try {
+          handlers.onMessage(parseServerMessage(String(event.data)));
+        } catch (err) {
+          if (err instanceof FeedProtocolError && err.code === 'version') {
+            // Reconnecting would only hit the same version again.
+            fail(err);
+            ws.close();
+            return;
+          }
+          console.warn('[feed] Dropping frame:', err);
+        }
+      };
+
+      // `error` is always followed by `close`, which drives the reconnect.
+      ws.onclose = () => {
+        if (socket === ws) socket = null;
+        if (!disposed) scheduleReconnect();
+      };
+    };
+
+    open();
+
+    return () => {
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+    };
+  },
+});
+
+type MockTransportOptions = {
+  // Initial token list; defaults to every token from GET /api/tokens
+  loadSnapshot?: (signal: AbortSignal) => Promise<Token[]>;
+  intervalMs?: number;
+};
+
+/**
+ * In-browser stand-in for the live feed: the snapshot is loaded from the token API, then
+ * every token gets a random-walk price / bonding progress tick each interval. A failed
+ * load ends the connection with an error (retry reconnects and loads again).
+ */
+export const createMockTransport = ({
+  loadSnapshot = signal => fetchAllTokens({}, signal),
+  intervalMs = 1000,
+}: MockTransportOptions = {}): FeedTransport => ({
+  connect: (handlers) => {
+    const controller = new AbortController();
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    handlers.onStatusChange?.('connecting');
+
+    loadSnapshot(controller.signal).then(
+      (initial) => {
+        if (controller.signal.aborted) return;
+        let tokens = initial;
+        handlers.onStatusChange?.('open');
+        handlers.onMessage({ v: FEED_PROTOCOL_VERSION, type: 'snapshot', tokens, ts: Date.now() });
+
+        interval = setInterval(() => {
+          const ts = Date.now();
+          const ticks: PriceTick[] = tokens.map(token => nextMockTick(token, ts));
+          tokens = tokens.map((token, i) => applyPriceTick(token, ticks[i]));
+          handlers.onMessage({ v: FEED_PROTOCOL_VERSION, type: 'price_tick', ticks });
+        }, intervalMs);
+      },
+      (err: unknown) => {
+        if (controller.signal.aborted) return;
+        handlers.onStatusChange?.('closed');
+        handlers.onError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    );
+
+    return () => {
+      controller.abort();
+      if (interval) clearInterval(interval);
+    };
+  },
+});
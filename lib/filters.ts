@@ -0,0 +1,86 @@
+import { CHAIN_IDS } from './chains';
+import type { Token, TokenChain } from './types';
+
+// --- Advanced filter model ---
+// Applied in the table's `filteredTokens` memo alongside the active tab.
+
+// Inclusive bounds; `undefined` means unbounded on that side
+export type NumericRange = { min?: number; max?: number };
+
+// Token fields that can be filtered by a numeric range
+export type RangeField = 'score' | 'marketCap' | 'liquidity' | 'volume24h';
+
+export const RANGE_FIELDS: RangeField[] = ['score', 'marketCap', 'liquidity', 'volume24h'];
+
+// Chain chips offered by the filter UIs: every chain in the registry
+export const FILTER_CHAINS: TokenChain[] = CHAIN_IDS;
+
+export type TokenFilters = {
+  // Empty = every chain
+  chains: TokenChain[];
+  ranges: Record<RangeField, NumericRange>;
+  // Time since launch, in hours
+  launchAgeHours: NumericRange;
+  // Toolbar search: fuzzy match on name, symbol or pair, or an exact token id / address (lib/search.ts)
+  text: string;
+};
+
+export const DEFAULT_FILTERS: TokenFilters = {
+  chains: [],
+  ranges: { score: {}, marketCap: {}, liquidity: {}, volume24h: {} },
+  launchAgeHours: {},
+  text: '',
+};
+
+const inRange = (value: number, { min, max }: NumericRange) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+const isRangeActive = ({ min, max }: NumericRange) => min !== undefined || max !== undefined;
+
+/**
+ * Returns true when the token passes every active filter except the text search, which
+ * is applied separately (lib/search.ts) so the tab counts can reflect it. `now` is passed
+ * in so callers control when launch ages are re-evaluated.
+ */
+export const matchesFilters = (token: Token, filters: TokenFilters, now: number): boolean => {
+  if (filters.chains.length > 0 && !filters.chains.includes(token.chain)) return false;
+
+  for (const field of RANGE_FIELDS) {
+    if (!inRange(token[field], filters.ranges[field])) return false;
+  }
+
+  if (isRangeActive(filters.launchAgeHours) && !inRange((now - token.launchTime) / 3600000, filters.launchAgeHours)) {
+    return false;
+  }
+
+  return true;
+};
+
+// Identifies a single removable filter (one chip in the toolbar)
+export type FilterKey = 'chains' | 'text' | 'launchAgeHours' | RangeField;
+
+export const getActiveFilterKeys = (filters: TokenFilters): FilterKey[] => {
+  const keys: FilterKey[] = [];
+  if (filters.chains.length > 0) keys.push('chains');
+  RANGE_FIELDS.forEach(field => {
+    if (isRangeActive(filters.ranges[field])) keys.push(field);
+  });
+  if (isRangeActive(filters.launchAgeHours)) keys.push('launchAgeHours');
+  if (filters.text.trim()) keys.push('text');
+  return keys;
+};
+
+export const hasActiveFilters = (filters: TokenFilters): boolean => getActiveFilterKeys(filters).length > 0;
+
+export const clearFilter = (filters: TokenFilters, key: FilterKey): TokenFilters => {
+  switch (key) {
+    case 'chains':
+      return { ...filters, chains: [] };
+    case 'text':
+      return { ...filters, text: '' };
+    case 'launchAgeHours':
+      return { ...filters, launchAgeHours: {} };
+    default:
+      return { ...filters, ranges: { ...filters.ranges, [key]: {} } };
+  }
+};
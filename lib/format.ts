@@ -0,0 +1,58 @@
+// Number and time formatting shared by the table, detail views and exports.
+
+/**
+ * Formats a number into a compact, locale-aware string (e.g., 1.2M).
+ */
+export const formatCompactNumber = (num: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    notation: 'compact',
+    compactDisplay: 'short',
+    maximumFractionDigits: 1
+  }).format(num);
+};
+
+/**
+ * Formats a number into a USD currency string.
+ */
+export const formatUSD = (num: number): string => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 6
+  }).format(num);
+};
+
+/**
+ * A token quantity: four significant digits, compact from 1000 up (e.g. 0.0125, 223.2, 1.2K).
+ */
+export const formatTokenAmount = (amount: number): string =>
+  amount >= 1000 ? formatCompactNumber(amount) : amount.toPrecision(4).replace(/\.?0+$/, '');
+
+/**
+ * A USD amount with an explicit sign, for PnL (e.g. +$12.50, -$3.10).
+ */
+export const formatSignedUSD = (value: number): string =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}${formatUSD(Math.abs(value))}`;
+
+/**
+ * Elapsed time as "12m ago", "3h 5m ago" or "2d ago".
+ */
+export const formatAge = (ms: number): string => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+/**
+ * A playback position or length as "m:ss", or "h:mm:ss" from an hour up.
+ */
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  const minutes = Math.floor(totalSeconds / 60);
+  if (minutes < 60) return `${minutes}:${seconds}`;
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}:${seconds}`;
+};
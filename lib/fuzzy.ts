@@ -0,0 +1,74 @@
+// --- Fuzzy matching ---
+// Subsequence matcher for the command palette and the table search. Scores favour
+// contiguous runs, matches at word starts and matches near the beginning of the text.
+
+export type FuzzyMatch = {
+  score: number;
+  // Positions in the text of the matched query characters, ascending
+  indices: number[];
+};
+
+const SCORE_MATCH = 1;
+const BONUS_CONSECUTIVE = 4;
+const BONUS_WORD_START = 6;
+const BONUS_PREFIX = 8;
+const BONUS_EXACT = 20;
+const PENALTY_GAP = 0.2;
+
+// Start of the text, or a character following a separator / a lower-to-upper case change
+const isWordStart = (text: string, index: number) => {
+  if (index === 0) return true;
+  const prev = text[index - 1];
+  const char = text[index];
+  return /[\s\-_/.]/.test(prev) || (prev === prev.toLowerCase() && char !== char.toLowerCase());
+};
+
+/**
+ * Matches `query` against `text` (case-insensitive). Returns null when the query is not a
+ * subsequence of the text. The alignment is found greedily left to right and then tightened
+ * right to left, which is enough for short labels like token names and symbols.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase();
+  if (needle.length === 0) return { score: 0, indices: [] };
+  const haystack = text.toLowerCase();
+  if (needle.length > haystack.length) return null;
+
+  // Fast path: substrings score best and are highlighted as one run
+  const substring = haystack.indexOf(needle);
+  if (substring !== -1) {
+    const indices = Array.from({ length: needle.length }, (_, i) => substring + i);
+    let score = needle.length * (SCORE_MATCH + BONUS_CONSECUTIVE) - substring * PENALTY_GAP;
+    if (substring === 0) score += BONUS_PREFIX;
+    else if (isWordStart(text, substring)) score += BONUS_WORD_START;
+    if (needle.length === haystack.length) score += BONUS_EXACT;
+    return { score, indices };
+  }
+
+  // Forward pass: earliest position where the whole query fits
+  let end = -1;
+  for (let i = 0, q = 0; i < haystack.length; i++) {
+    if (haystack[i] === needle[q] && ++q === needle.length) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  // Backward pass from that end: latest start, i.e. the tightest window
+  const indices = new Array<number>(needle.length);
+  for (let i = end, q = needle.length - 1; q >= 0; i--) {
+    if (haystack[i] === needle[q]) indices[q--] = i;
+  }
+
+  let score = 0;
+  indices.forEach((index, q) => {
+    score += SCORE_MATCH;
+    if (q > 0 && indices[q - 1] === index - 1) score += BONUS_CONSECUTIVE;
+    else if (q > 0) score -= (index - indices[q - 1] - 1) * PENALTY_GAP;
+    if (isWordStart(text, index)) score += BONUS_WORD_START;
+  });
+  if (indices[0] === 0) score += BONUS_PREFIX;
+  score -= indices[0] * PENALTY_GAP;
+  return { score, indices };
+};
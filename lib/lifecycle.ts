@@ -0,0 +1,65 @@
+import type { Token, TokenStatus } from './types';
+
+// --- Token lifecycle ---
+// Tokens graduate New pairs -> Final Stretch -> Migrated as their bonding curve fills.
+// The feed only streams `bondingProgress`; the stage is derived here, on every commit of
+// the token store, so a token moves between tabs as soon as the update arrives.
+
+// Bonding progress (percent) at which a new pair enters the Final Stretch
+export const FINAL_STRETCH_PROGRESS = 70;
+// Falling below this sends a Final Stretch token back to New pairs. Lower than the entry
+// threshold, so progress hovering around 70% doesn't flip the stage on every tick.
+export const FINAL_STRETCH_EXIT_PROGRESS = 60;
+// A full curve migrates the token to the DEX; Migrated is terminal
+export const MIGRATION_PROGRESS = 100;
+
+// How long a token keeps showing in the tab it just left (animating out)
+export const STAGE_TRANSITION_MS = 1200;
+// How long a migration is highlighted in the table
+export const RECENTLY_MIGRATED_MS = 5 * 60 * 1000;
+
+/**
+ * The state machine: the stage a token in `status` moves to at `progress`.
+ */
+export const nextStatus = (status: TokenStatus, progress: number): TokenStatus => {
+  if (!Number.isFinite(progress)) return status;
+  switch (status) {
+    case 'New pairs':
+      if (progress >= MIGRATION_PROGRESS) return 'Migrated';
+      return progress >= FINAL_STRETCH_PROGRESS ? 'Final Stretch' : status;
+    case 'Final Stretch':
+      if (progress >= MIGRATION_PROGRESS) return 'Migrated';
+      return progress < FINAL_STRETCH_EXIT_PROGRESS ? 'New pairs' : status;
+    case 'Migrated':
+      return status;
+  }
+};
+
+/**
+ * Applies the state machine to a token; returns the same object when its stage holds.
+ * For `live` changes (a tick just moved the token) the old stage is kept in `previousStatus`
+ * for STAGE_TRANSITION_MS, so the table can animate the row out of its old tab, and a
+ * migration is timestamped for the highlight. Snapshots only correct the stage.
+ */
+export const applyLifecycle = (token: Token, now: number, live: boolean): Token => {
+  const status = nextStatus(token.status, token.bondingProgress);
+  if (status === token.status) return token;
+  return {
+    ...token,
+    status,
+    previousStatus: live ? token.status : undefined,
+    statusChangedAt: now,
+    migratedAt: live && status === 'Migrated' ? now : token.migratedAt,
+  };
+};
+
+/**
+ * Ends the exit animation once STAGE_TRANSITION_MS has passed.
+ */
+export const settleTransition = (token: Token, now: number): Token =>
+  token.previousStatus !== undefined && now - (token.statusChangedAt ?? 0) >= STAGE_TRANSITION_MS
+    ? { ...token, previousStatus: undefined }
+    : token;
+
+export const isRecentlyMigrated = (token: Token, now: number): boolean =>
+  token.migratedAt !== undefined && now - token.migratedAt < RECENTLY_MIGRATED_MS;
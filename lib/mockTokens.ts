@@ -0,0 +1,124 @@
+import type { PriceTick } from './feed/protocol';
+import { CHAINS } from './chains';
+import { computeRiskScore } from './scoring';
+import type { Token, TokenAudit, TokenChain, TokenStatus } from './types';
+
+const HEX = '0123456789abcdef';
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// A deterministic, well-formed (but fake) address: 0x + 40 hex on EVM chains, 44 base58 on Solana
+const mockAddress = (chain: TokenChain, seed: string): string => {
+  const alphabet = chain === 'SOL' ? BASE58 : HEX;
+  // FNV-1a over the seed, then keep stirring it for each output character
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619) >>> 0;
+  let out = '';
+  for (let i = 0; out.length < (chain === 'SOL' ? 44 : 40); i++) {
+    hash = Math.imul(hash ^ (hash >>> 15) ^ i, 16777619) >>> 0;
+    out += alphabet[hash % alphabet.length];
+  }
+  return chain === 'SOL' ? out : `0x${out}`;
+};
+
+// A bonding progress consistent with the stage (see lib/lifecycle.ts thresholds)
+const mockBondingProgress = (status: TokenStatus, random: () => number): number => {
+  switch (status) {
+    case 'New pairs': return random() * 55;
+    case 'Final Stretch': return 72 + random() * 20;
+    case 'Migrated': return 100;
+  }
+};
+
+// Plausible audit inputs: migrated tokens mostly have their LP burned, a few percent are honeypots.
+// Only Solana has mint / freeze authorities; EVM tokens get an owner-mint flag and no freeze.
+const mockAudit = (chain: TokenChain, status: TokenStatus, random: () => number): TokenAudit => ({
+  liquidityLockedPct: random() < 0.3 ? 0 : 40 + random() * 60,
+  lpBurnedPct: status === 'Migrated' && random() < 0.8 ? 100 : random() < 0.5 ? 0 : random() * 100,
+  topHoldersPct: 10 + random() * 60,
+  devHoldingsPct: random() < 0.4 ? 0 : random() * 25,
+  mintAuthority: random() < 0.15,
+  freezeAuthority: chain === 'SOL' ? random() < 0.1 : null,
+  honeypot: random() < 0.03,
+});
+
+/**
+ * Deterministic replacement for Math.random (mulberry32): the same seed yields the same
+ * sequence, so a seeded data set is identical across restarts and test runs.
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type MockTokenOptions = {
+  random?: () => number;
+  // Launch times are spread back from here
+  now?: number;
+};
+
+/**
+ * Builds a single mock token. The index drives the deterministic fields so that
+ * the client-side mock and the local mock server produce the same shape of data;
+ * pass a seeded `random` and a fixed `now` for fully reproducible tokens.
+ */
+export const createMockToken = (
+  i: number,
+  status?: TokenStatus,
+  { random = Math.random, now = Date.now() }: MockTokenOptions = {}
+): Token => {
+  const stage = status ?? (i % 15 < 5 ? 'New pairs' : i % 15 < 10 ? 'Final Stretch' : 'Migrated');
+  const chain = CHAINS[i % CHAINS.length];
+  const audit = mockAudit(chain.id, stage, random);
+  return {
+    id: `token-${i}`,
+    name: `Axiom Token ${i + 1}`,
+    symbol: `AXM${i + 1}`,
+    chain: chain.id,
+    address: mockAddress(chain.id, `token-${i}`),
+    pairAddress: mockAddress(chain.id, `pair-${i}`),
+    pair: `${chain.quoteSymbol}/AXM${i + 1}`,
+    status: stage,
+    marketCap: 1000000 + i * 500000,
+    priceUSD: 0.05 + random() * 1.5,
+    volume24h: 100000 + i * 20000,
+    liquidity: 50000 + i * 10000,
+    launchTime: now - (i + 1) * 3600000 * random(),
+    score: computeRiskScore(audit).total,
+    audit,
+    bondingProgress: mockBondingProgress(stage, random),
+  };
+};
+
+/**
+ * Generates `count` mock tokens.
+ */
+export const createMockTokens = (count: number, options?: MockTokenOptions): Token[] =>
+  Array.from({ length: count }).map((_, i) => createMockToken(i, undefined, options));
+
+/**
+ * Moves a value randomly by at most ±range/2 (e.g. 0.02 => ±1%).
+ */
+export const randomWalk = (value: number, range: number): number =>
+  value * (1 + (Math.random() - 0.5) * range);
+
+/**
+ * The next random tick for a token, shared by the in-browser mock transport and the mock
+ * server. Unfinished bonding curves mostly fill up (about 0.1% per tick on average), so
+ * tokens graduate through the lifecycle stages over a few minutes.
+ */
+export const nextMockTick = (token: Token, ts: number): PriceTick => ({
+  id: token.id,
+  // Randomly update price within a small percentage range (max 2%)
+  priceUSD: randomWalk(token.priceUSD, 0.02),
+  volume24h: randomWalk(token.volume24h, 0.05),
+  bondingProgress: token.bondingProgress >= 100
+    ? undefined
+    : Math.min(100, Math.max(0, token.bondingProgress + (Math.random() - 0.35) * 0.6)),
+  ts,
+});
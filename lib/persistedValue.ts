@@ -0,0 +1,68 @@
+// --- localStorage-backed value for useSyncExternalStore ---
+// localStorage is the source of truth; the parsed value is cached per raw string so
+// snapshots stay referentially stable between writes. Writes in other tabs of the
+// same origin arrive through the `storage` event.
+
+export type PersistedValueOptions<T> = {
+  key: string;
+  // Must never throw: corrupt or foreign data should come back as `empty`
+  parse: (raw: string | null) => T;
+  serialize: (value: T) => string;
+  // Returned on the server, during hydration and when nothing is stored
+  empty: T;
+};
+
+export type PersistedValue<T> = ReturnType<typeof createPersistedValue<T>>;
+
+export const createPersistedValue = <T>({ key, parse, serialize, empty }: PersistedValueOptions<T>) => {
+  const listeners = new Set<() => void>();
+  let cachedRaw: string | null = null;
+  let cachedValue: T = empty;
+
+  const readRaw = (): string | null => {
+    try {
+      return window.localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  };
+
+  const getSnapshot = (): T => {
+    const raw = readRaw();
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cachedValue = raw === null ? empty : parse(raw);
+    }
+    return cachedValue;
+  };
+
+  return {
+    getSnapshot,
+    getServerSnapshot: () => empty,
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === key || event.key === null) listener();
+      };
+      window.addEventListener('storage', onStorage);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', onStorage);
+      };
+    },
+
+    set: (value: T) => {
+      try {
+        window.localStorage.setItem(key, serialize(value));
+      } catch (err) {
+        // Quota exceeded or storage disabled (e.g. some private modes). The value still
+        // applies for this page: it's cached against what storage holds, until that changes.
+        console.warn(`[storage] could not persist "${key}"`, err);
+        cachedRaw = readRaw();
+        cachedValue = value;
+      }
+      listeners.forEach(listener => listener());
+    },
+  };
+};
@@ -0,0 +1,130 @@
+import type { PriceSample } from './candles';
+
+// --- Rolling price history ---
+// One fixed-size ring buffer per token id. Slots are fixed-width time buckets (last price
+// in the bucket wins), so memory per token is constant no matter how fast it ticks, and
+// "price N minutes ago" is an index lookup. Buckets with no tick carry the previous price.
+
+export type PriceHistoryOptions = {
+  // Width of one slot
+  resolutionMs?: number;
+  // Number of slots kept per token
+  capacity?: number;
+};
+
+type Series = {
+  prices: Float64Array;
+  // Bucket number (ts / resolution) of the newest slot
+  headBucket: number;
+  // Filled slots, up to capacity
+  length: number;
+};
+
+// Windows exposed as `change1m` / `change5m` / `change1h` on tokens
+export const CHANGE_WINDOWS = {
+  change1m: 60000,
+  change5m: 300000,
+  change1h: 3600000,
+} as const;
+
+export type ChangeKey = keyof typeof CHANGE_WINDOWS;
+
+export type PriceHistory = ReturnType<typeof createPriceHistory>;
+
+// 10s slots for a little over an hour: enough for the 1h change at ~3KB per token
+export const createPriceHistory = ({ resolutionMs = 10000, capacity = 362 }: PriceHistoryOptions = {}) => {
+  const series = new Map<string, Series>();
+
+  const slotIndex = (s: Series, bucket: number) =>
+    ((bucket % capacity) + capacity) % capacity;
+
+  const record = (id: string, ts: number, price: number) => {
+    const bucket = Math.floor(ts / resolutionMs);
+    let s = series.get(id);
+
+    if (!s) {
+      s = { prices: new Float64Array(capacity), headBucket: bucket, length: 1 };
+      s.prices[slotIndex(s, bucket)] = price;
+      series.set(id, s);
+      return;
+    }
+
+    if (bucket < s.headBucket) {
+      // Late tick: only patch it in if its slot is still retained
+      if (s.headBucket - bucket < s.length) s.prices[slotIndex(s, bucket)] = price;
+      return;
+    }
+
+    // Carry the last price through any skipped buckets
+    const last = s.prices[slotIndex(s, s.headBucket)];
+    const gap = Math.min(bucket - s.headBucket, capacity);
+    for (let step = gap - 1; step >= 1; step--) {
+      s.prices[slotIndex(s, bucket - step)] = last;
+    }
+    s.prices[slotIndex(s, bucket)] = price;
+    s.length = Math.min(capacity, s.length + (bucket - s.headBucket));
+    s.headBucket = bucket;
+  };
+
+  // Price at `ts`, or null if that's older than what we retained (or we've never seen the token)
+  const priceAt = (id: string, ts: number): number | null => {
+    const s = series.get(id);
+    if (!s) return null;
+    const bucket = Math.min(Math.floor(ts / resolutionMs), s.headBucket);
+    if (s.headBucket - bucket >= s.length) return null;
+    return s.prices[slotIndex(s, bucket)];
+  };
+
+  const latest = (id: string): number | null => {
+    const s = series.get(id);
+    return s ? s.prices[slotIndex(s, s.headBucket)] : null;
+  };
+
+  return {
+    record,
+    remove: (id: string) => {
+      series.delete(id);
+    },
+    clear: () => series.clear(),
+    has: (id: string) => series.has(id),
+
+    /**
+     * Percent change over `windowMs` ending at `now`; null until the history covers the window.
+     */
+    getChange: (id: string, windowMs: number, now: number): number | null => {
+      const current = latest(id);
+      const past = priceAt(id, now - windowMs);
+      if (current === null || past === null || past === 0) return null;
+      return ((current - past) / past) * 100;
+    },
+
+    /**
+     * `points` evenly spaced prices over the last `windowMs`, oldest first. Points before
+     * the retained history are skipped, so new tokens get a shorter line.
+     */
+    getSparkline: (id: string, windowMs: number, points: number, now: number): number[] => {
+      const result: number[] = [];
+      for (let i = points - 1; i >= 0; i--) {
+        const price = priceAt(id, now - (windowMs * i) / (points - 1));
+        if (price !== null) result.push(price);
+      }
+      return result;
+    },
+
+    /**
+     * Every retained slot for one token, oldest first (used to seed the detail chart).
+     */
+    getSamples: (id: string): PriceSample[] => {
+      const s = series.get(id);
+      if (!s) return [];
+      const samples: PriceSample[] = [];
+      for (let bucket = s.headBucket - s.length + 1; bucket <= s.headBucket; bucket++) {
+        samples.push({ ts: bucket * resolutionMs, price: s.prices[slotIndex(s, bucket)] });
+      }
+      return samples;
+    },
+
+    /** Bucket number for a timestamp; changes in value signal a slot rollover. */
+    bucketOf: (ts: number) => Math.floor(ts / resolutionMs),
+  };
+};
@@ -0,0 +1,143 @@
+import { normalizeLayout, type ColumnLayout, type ColumnLayoutSpec } from './columnLayout';
+import { DEFAULT_TABLE_STATE, parseTableState, serializeTableState } from './tableState';
+import type { TokenFilters } from './filters';
+import type { SortState, TableTab } from './types';
+
+// --- Saved views ---
+// Named presets of tab + filters + sort + column layout ("SOL new pairs, liq > 20k, by volume").
+// Stored in localStorage as a versioned document, which is also the JSON import/export format.
+// The table part is kept as its shareable query string (lib/tableState.ts), so a stored view
+// goes through the same validation as a URL and reads like one in an export file.
+
+export const SAVED_VIEWS_STORAGE_KEY = 'axiom.savedViews';
+export const SAVED_VIEWS_SCHEMA_VERSION = 1;
+
+export type SavedView = {
+  id: string;
+  name: string;
+  // Tab, filters and sort as URL query parameters, e.g. "tab=new-pairs&chain=SOL&liq=20000.."
+  query: string;
+  layout: ColumnLayout;
+};
+
+export type SavedViewsDocument = {
+  version: typeof SAVED_VIEWS_SCHEMA_VERSION;
+  views: SavedView[];
+  // Applied when the app opens without table state in the URL
+  defaultViewId: string | null;
+};
+
+// What a view captures and restores
+export type ViewSnapshot = {
+  tab: TableTab;
+  // The toolbar search isn't part of a view
+  filters: TokenFilters;
+  sort: SortState;
+  layout: ColumnLayout;
+};
+
+export class SavedViewsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedViewsImportError';
+  }
+}
+
+export const EMPTY_SAVED_VIEWS: SavedViewsDocument = {
+  version: SAVED_VIEWS_SCHEMA_VERSION,
+  views: [],
+  defaultViewId: null,
+};
+
+export const createViewId = () => `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const snapshotToQuery = ({ tab, filters, sort }: Omit<ViewSnapshot, 'layout'>): string =>
+  serializeTableState({ ...DEFAULT_TABLE_STATE, tab, sort, filters: { ...filters, text: '' } }).toString();
+
+export const viewToSnapshot = (view: SavedView): ViewSnapshot => {
+  const { tab, filters, sort } = parseTableState(new URLSearchParams(view.query));
+  return { tab, filters, sort, layout: view.layout };
+};
+
+const sameLayout = (a: ColumnLayout, b: ColumnLayout) =>
+  a.order.length === b.order.length &&
+  a.order.every((id, i) =>
+    b.order[i] === id &&
+    a.widths[id] === b.widths[id] &&
+    a.visibility[id]?.mobile === b.visibility[id]?.mobile &&
+    a.visibility[id]?.desktop === b.visibility[id]?.desktop);
+
+/**
+ * Whether the table currently shows exactly `view` (ignoring the search box).
+ */
+export const isViewActive = (view: SavedView, current: ViewSnapshot): boolean =>
+  snapshotToQuery(current) === view.query && sameLayout(view.layout, current.layout);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Normalized through the URL parser and the layout reconciler; null if it isn't a view at all
+const normalizeView = (raw: unknown, specs: ColumnLayoutSpec[]): SavedView | null => {
+  if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim() || typeof raw.query !== 'string') return null;
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createViewId(),
+    name: raw.name.trim(),
+    query: snapshotToQuery(parseTableState(new URLSearchParams(raw.query))),
+    layout: normalizeLayout(raw.layout, specs),
+  };
+};
+
+const normalizeViews = (raw: unknown, specs: ColumnLayoutSpec[]): SavedView[] =>
+  Array.isArray(raw) ? raw.map(entry => normalizeView(entry, specs)).filter((view): view is SavedView => view !== null) : [];
+
+// Corrupt or foreign data in storage is treated as no views rather than an error
+export const parseStoredSavedViews = (value: string | null, specs: ColumnLayoutSpec[]): SavedViewsDocument => {
+  if (!value) return EMPTY_SAVED_VIEWS;
+  try {
+    const raw: unknown = JSON.parse(value);
+    if (!isRecord(raw) || raw.version !== SAVED_VIEWS_SCHEMA_VERSION) return EMPTY_SAVED_VIEWS;
+    const views = normalizeViews(raw.views, specs);
+    const defaultViewId = views.some(view => view.id === raw.defaultViewId) ? raw.defaultViewId as string : null;
+    return { version: SAVED_VIEWS_SCHEMA_VERSION, views, defaultViewId };
+  } catch {
+    return EMPTY_SAVED_VIEWS;
+  }
+};
+
+export const serializeSavedViews = (document: SavedViewsDocument): string => JSON.stringify(document);
+
+/**
+ * Export file for sharing: the given views, without the local default.
+ */
+export const serializeSavedViewsExport = (views: SavedView[]): string =>
+  JSON.stringify({ version: SAVED_VIEWS_SCHEMA_VERSION, views, defaultViewId: null }, null, 2);
+
+/**
+ * Parses a user-supplied export file. Unlike storage reads, failures are reported.
+ */
+export const parseSavedViewsImport = (text: string, specs: ColumnLayoutSpec[]): SavedView[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SavedViewsImportError('File is not valid JSON');
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.views)) throw new SavedViewsImportError('File is not a saved views export');
+  if (typeof raw.version === 'number' && raw.version > SAVED_VIEWS_SCHEMA_VERSION) {
+    throw new SavedViewsImportError(`Views were exported by a newer version (schema v${raw.version})`);
+  }
+  const views = normalizeViews(raw.views, specs);
+  if (views.length === 0) throw new SavedViewsImportError('File contains no valid views');
+  return views;
+};
+
+/**
+ * `name`, or "name (2)", "name (3)"... whichever isn't taken yet.
+ */
+export const uniqueViewName = (name: string, views: SavedView[]): string => {
+  const taken = new Set(views.map(view => view.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n += 1;
+  return `${name} (${n})`;
+};
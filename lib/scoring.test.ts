@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeRiskScore, createRiskScorer, DEFAULT_SCORE_WEIGHTS, type ScoreFactorId, type ScoreWeights } from './scoring';
+import type { TokenAudit } from './types';
+
+// --- Fixture audits ---
+
+// Every factor at its best: locked and burned LP, spread-out holders, renounced authorities
+const SAFE_SOLANA: TokenAudit = {
+  liquidityLockedPct: 100,
+  lpBurnedPct: 100,
+  topHoldersPct: 10,
+  devHoldingsPct: 0,
+  mintAuthority: false,
+  freezeAuthority: false,
+  honeypot: false,
+};
+
+// Every factor at its worst except the honeypot check
+const RISKY_SOLANA: TokenAudit = {
+  liquidityLockedPct: 0,
+  lpBurnedPct: 0,
+  topHoldersPct: 80,
+  devHoldingsPct: 30,
+  mintAuthority: true,
+  freezeAuthority: true,
+  honeypot: false,
+};
+
+// EVM tokens have no mint / freeze authority
+const EVM: TokenAudit = { ...SAFE_SOLANA, mintAuthority: null, freezeAuthority: null };
+
+const factorScore = (audit: TokenAudit, id: ScoreFactorId) =>
+  computeRiskScore(audit).factors.find(factor => factor.id === id)?.score;
+
+// Only `id` counts; everything else weighs nothing
+const only = (id: ScoreFactorId): ScoreWeights => ({
+  liquidityLock: 0, lpBurn: 0, holderConcentration: 0, devHoldings: 0,
+  mintAuthority: 0, freezeAuthority: 0, honeypot: 0,
+  [id]: 1,
+});
+
+describe('computeRiskScore', () => {
+  it('scores a clean audit 100 and leaves the riskiest non-honeypot only the honeypot share', () => {
+    assert.equal(computeRiskScore(SAFE_SOLANA).total, 100);
+    const totalWeight = Object.values(DEFAULT_SCORE_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+    assert.equal(computeRiskScore(RISKY_SOLANA).total, Math.round((DEFAULT_SCORE_WEIGHTS.honeypot / totalWeight) * 100));
+  });
+
+  it('scores liquidity lock and LP burn by their share', () => {
+    const audit = { ...SAFE_SOLANA, liquidityLockedPct: 40, lpBurnedPct: 75 };
+    assert.equal(factorScore(audit, 'liquidityLock'), 40);
+    assert.equal(factorScore(audit, 'lpBurn'), 75);
+  });
+
+  it('scales holder concentration linearly between floor and ceiling', () => {
+    assert.equal(factorScore({ ...SAFE_SOLANA, topHoldersPct: 15 }, 'holderConcentration'), 100);
+    assert.equal(factorScore({ ...SAFE_SOLANA, topHoldersPct: 40 }, 'holderConcentration'), 50);
+    assert.equal(factorScore({ ...SAFE_SOLANA, topHoldersPct: 65 }, 'holderConcentration'), 0);
+  });
+
+  it('scales dev holdings linearly down to 0 at 20%', () => {
+    assert.equal(factorScore({ ...SAFE_SOLANA, devHoldingsPct: 5 }, 'devHoldings'), 75);
+    assert.equal(factorScore({ ...SAFE_SOLANA, devHoldingsPct: 20 }, 'devHoldings'), 0);
+  });
+
+  it('fails active authorities and leaves inapplicable ones out of the mean', () => {
+    assert.equal(factorScore({ ...SAFE_SOLANA, mintAuthority: true }, 'mintAuthority'), 0);
+    assert.equal(factorScore({ ...SAFE_SOLANA, freezeAuthority: true }, 'freezeAuthority'), 0);
+    assert.equal(factorScore(EVM, 'mintAuthority'), null);
+    assert.equal(factorScore(EVM, 'freezeAuthority'), null);
+    assert.equal(computeRiskScore(EVM).total, 100);
+  });
+
+  it('weights each factor by DEFAULT_SCORE_WEIGHTS', () => {
+    // Only liquidity lock fails: the total loses exactly its share of the weight
+    const totalWeight = Object.values(DEFAULT_SCORE_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+    const expected = Math.round(((totalWeight - DEFAULT_SCORE_WEIGHTS.liquidityLock) / totalWeight) * 100);
+    assert.equal(computeRiskScore({ ...SAFE_SOLANA, liquidityLockedPct: 0 }).total, expected);
+  });
+
+  it('forces the total to 0 for a honeypot', () => {
+    const result = computeRiskScore({ ...SAFE_SOLANA, honeypot: true });
+    assert.equal(result.total, 0);
+    assert.equal(result.factors.find(factor => factor.id === 'honeypot')?.critical, true);
+    // Even when the honeypot check itself weighs nothing
+    assert.equal(computeRiskScore({ ...SAFE_SOLANA, honeypot: true }, only('liquidityLock')).total, 0);
+  });
+
+  it('clamps out-of-range inputs to 0-100', () => {
+    const audit = { ...SAFE_SOLANA, liquidityLockedPct: 150, lpBurnedPct: -20, topHoldersPct: 0, devHoldingsPct: 45 };
+    assert.equal(factorScore(audit, 'liquidityLock'), 100);
+    assert.equal(factorScore(audit, 'lpBurn'), 0);
+    assert.equal(factorScore(audit, 'holderConcentration'), 100);
+    assert.equal(factorScore(audit, 'devHoldings'), 0);
+    const { total } = computeRiskScore(audit);
+    assert.ok(total >= 0 && total <= 100);
+  });
+
+  it('uses custom weights', () => {
+    const audit = { ...SAFE_SOLANA, liquidityLockedPct: 30, lpBurnedPct: 90 };
+    assert.equal(computeRiskScore(audit, only('liquidityLock')).total, 30);
+    assert.equal(computeRiskScore(audit, only('lpBurn')).total, 90);
+    assert.equal(computeRiskScore(audit, { ...only('liquidityLock'), lpBurn: 3 }).total, 75);
+    const result = computeRiskScore(audit, only('lpBurn'));
+    assert.equal(result.factors.find(factor => factor.id === 'lpBurn')?.weight, 1);
+  });
+
+  it('scores 0 when no applicable factor carries weight', () => {
+    assert.equal(computeRiskScore(EVM, only('mintAuthority')).total, 0);
+  });
+
+  it('explains every factor', () => {
+    for (const factor of computeRiskScore(RISKY_SOLANA).factors) {
+      assert.ok(factor.explanation.length > 0, factor.id);
+    }
+  });
+});
+
+describe('createRiskScorer', () => {
+  it('scores with its weights and once per audit object', () => {
+    const score = createRiskScorer(only('lpBurn'));
+    const audit = { ...SAFE_SOLANA, lpBurnedPct: 40 };
+    assert.equal(score(audit).total, 40);
+    assert.equal(score(audit), score(audit));
+    assert.notEqual(score({ ...audit }), score(audit));
+  });
+});
@@ -0,0 +1,156 @@
+import type { TokenAudit } from './types';
+
+// --- Risk / audit score ---
+// The Score column is computed here from the token's on-chain audit inputs (TokenAudit).
+// Each factor scores 0-100 with a one-line explanation; the total is their weighted mean.
+// Factors that don't apply on a chain (e.g. freeze authority outside Solana) are left out
+// of the mean, and a critical failure (honeypot) forces the total to 0.
+
+export type ScoreFactorId =
+  | 'liquidityLock' | 'lpBurn' | 'holderConcentration' | 'devHoldings'
+  | 'mintAuthority' | 'freezeAuthority' | 'honeypot';
+
+// Relative weights; they don't need to add up to anything
+export type ScoreWeights = Record<ScoreFactorId, number>;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  liquidityLock: 25,
+  lpBurn: 10,
+  holderConcentration: 20,
+  devHoldings: 15,
+  mintAuthority: 15,
+  freezeAuthority: 10,
+  honeypot: 5,
+};
+
+export type ScoreFactor = {
+  id: ScoreFactorId;
+  label: string;
+  // 0-100, higher is safer; null when the factor doesn't apply
+  score: number | null;
+  weight: number;
+  explanation: string;
+  // A failed critical factor zeroes the total
+  critical: boolean;
+};
+
+export type RiskScore = {
+  total: number;
+  factors: ScoreFactor[];
+};
+
+// Top-10 holders at or below this share are fine; at or above the ceiling they score 0
+const HOLDER_CONCENTRATION_FLOOR = 15;
+const HOLDER_CONCENTRATION_CEILING = 65;
+// Dev wallet share that scores 0
+const DEV_HOLDINGS_CEILING = 20;
+
+const clampScore = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+
+// 100 at `good`, 0 at `bad`, linear in between
+const linear = (value: number, good: number, bad: number) => clampScore(((bad - value) / (bad - good)) * 100);
+
+const percent = (value: number) => `${Math.round(value)}%`;
+
+type FactorSpec = {
+  label: string;
+  critical?: boolean;
+  evaluate: (audit: TokenAudit) => { score: number | null; explanation: string };
+};
+
+const FACTORS: Record<ScoreFactorId, FactorSpec> = {
+  liquidityLock: {
+    label: 'Liquidity locked',
+    evaluate: ({ liquidityLockedPct }) => ({
+      score: clampScore(liquidityLockedPct),
+      explanation: liquidityLockedPct > 0
+        ? `${percent(liquidityLockedPct)} of the pool's liquidity is time-locked`
+        : 'No liquidity is locked; it can be pulled at any time',
+    }),
+  },
+  lpBurn: {
+    label: 'LP burned',
+    evaluate: ({ lpBurnedPct }) => ({
+      score: clampScore(lpBurnedPct),
+      explanation: lpBurnedPct > 0
+        ? `${percent(lpBurnedPct)} of the LP tokens are burned (permanently locked)`
+        : 'No LP tokens are burned',
+    }),
+  },
+  holderConcentration: {
+    label: 'Holder concentration',
+    evaluate: ({ topHoldersPct }) => ({
+      score: linear(topHoldersPct, HOLDER_CONCENTRATION_FLOOR, HOLDER_CONCENTRATION_CEILING),
+      explanation: `Top 10 holders own ${percent(topHoldersPct)} of the supply`,
+    }),
+  },
+  devHoldings: {
+    label: 'Dev wallet',
+    evaluate: ({ devHoldingsPct }) => ({
+      score: linear(devHoldingsPct, 0, DEV_HOLDINGS_CEILING),
+      explanation: devHoldingsPct > 0
+        ? `The deployer still holds ${percent(devHoldingsPct)} of the supply`
+        : 'The deployer holds none of the supply',
+    }),
+  },
+  mintAuthority: {
+    label: 'Mint authority',
+    evaluate: ({ mintAuthority }) => mintAuthority === null
+      ? { score: null, explanation: 'Not applicable on this chain' }
+      : mintAuthority
+        ? { score: 0, explanation: 'Mint authority is active: new supply can be created' }
+        : { score: 100, explanation: 'Mint authority is renounced' },
+  },
+  freezeAuthority: {
+    label: 'Freeze authority',
+    evaluate: ({ freezeAuthority }) => freezeAuthority === null
+      ? { score: null, explanation: 'Not applicable on this chain' }
+      : freezeAuthority
+        ? { score: 0, explanation: 'Freeze authority is active: holder accounts can be frozen' }
+        : { score: 100, explanation: 'Freeze authority is renounced' },
+  },
+  honeypot: {
+    label: 'Honeypot check',
+    critical: true,
+    evaluate: ({ honeypot }) => honeypot
+      ? { score: 0, explanation: 'Simulated sells fail: holders cannot sell' }
+      : { score: 100, explanation: 'Simulated buy and sell both succeed' },
+  },
+};
+
+export const SCORE_FACTOR_IDS = Object.keys(FACTORS) as ScoreFactorId[];
+
+/**
+ * Scores a token's audit inputs. `weights` defaults to DEFAULT_SCORE_WEIGHTS.
+ */
+export const computeRiskScore = (audit: TokenAudit, weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS): RiskScore => {
+  const factors: ScoreFactor[] = SCORE_FACTOR_IDS.map(id => {
+    const { label, critical = false, evaluate } = FACTORS[id];
+    return { id, label, weight: weights[id], critical, ...evaluate(audit) };
+  });
+
+  const applicable = factors.filter(factor => factor.score !== null && factor.weight > 0);
+  const totalWeight = applicable.reduce((sum, factor) => sum + factor.weight, 0);
+  const failedCritical = factors.some(factor => factor.critical && factor.score === 0);
+  const total = failedCritical || totalWeight === 0
+    ? 0
+    : clampScore(applicable.reduce((sum, factor) => sum + factor.weight * (factor.score as number), 0) / totalWeight);
+
+  return { total, factors };
+};
+
+/**
+ * computeRiskScore with fixed weights, memoized per audit object. Tokens keep their audit
+ * object across price ticks, so each token is scored once.
+ */
+export const createRiskScorer = (weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS) => {
+  const cache = new WeakMap<TokenAudit, RiskScore>();
+  return (audit: TokenAudit): RiskScore => {
+    let result = cache.get(audit);
+    if (!result) {
+      result = computeRiskScore(audit, weights);
+      cache.set(audit, result);
+    }
+    return result;
+  };
+};
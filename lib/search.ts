@@ -0,0 +1,71 @@
+import { fuzzyMatch } from './fuzzy';
+import type { Token } from './types';
+
+// --- Token search ---
+// Fuzzy search over the fields a user would type (name, symbol, trading pair), plus an
+// exact match on the token id or contract address.
+
+export type TokenSearchField = 'name' | 'symbol' | 'pair' | 'id';
+
+const FUZZY_FIELDS: Exclude<TokenSearchField, 'id'>[] = ['name', 'symbol', 'pair'];
+
+// An exact id / address always ranks above any fuzzy match
+const ID_MATCH_SCORE = 1000;
+
+// Best-scoring field and the matched character positions within it
+export type TokenFieldMatch = {
+  score: number;
+  field: TokenSearchField;
+  indices: number[];
+};
+
+export type TokenMatch = TokenFieldMatch & { token: Token };
+
+export const matchToken = (query: string, token: Token): TokenFieldMatch | null => {
+  if (query === token.id || query === token.address) {
+    return { score: ID_MATCH_SCORE, field: 'id', indices: Array.from({ length: query.length }, (_, i) => i) };
+  }
+  let best: TokenFieldMatch | null = null;
+  for (const field of FUZZY_FIELDS) {
+    const match = fuzzyMatch(query, token[field]);
+    if (match && (!best || match.score > best.score)) best = { field, ...match };
+  }
+  return best;
+};
+
+/**
+ * The `limit` best matches for `query`, best first. An empty query matches nothing.
+ */
+export const searchTokens = (tokens: Token[], query: string, limit: number): TokenMatch[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const matches: TokenMatch[] = [];
+  for (const token of tokens) {
+    const match = matchToken(trimmed, token);
+    if (match) matches.push({ token, ...match });
+  }
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * `matchToken` memoized per token id for the current query. The searched fields never
+ * change on price ticks, so re-filtering 10k live tokens is a map lookup each until the
+ * query changes. Results are shared objects, which keeps memoized rows from re-rendering.
+ */
+export const createSearchCache = () => {
+  let cachedQuery = '';
+  let results = new Map<string, TokenFieldMatch | null>();
+
+  return (query: string, token: Token): TokenFieldMatch | null => {
+    if (query !== cachedQuery) {
+      cachedQuery = query;
+      results = new Map();
+    }
+    let match = results.get(token.id);
+    if (match === undefined) {
+      match = matchToken(query, token);
+      results.set(token.id, match);
+    }
+    return match;
+  };
+};
@@ -0,0 +1,35 @@
+// --- Keyboard shortcuts ---
+// Global single-key shortcuts and the command palette binding. The help overlay lists
+// SHORTCUT_HELP; the bindings themselves live in the App (hooks/useKeyboardShortcuts.ts).
+
+export type ShortcutHelp = { keys: string[]; description: string };
+
+export const SHORTCUT_HELP: ShortcutHelp[] = [
+  { keys: ['Ctrl', 'K'], description: 'Open the command palette (Cmd+K on macOS)' },
+  { keys: ['/'], description: 'Focus the search box' },
+  { keys: ['1', '–', '6'], description: 'Switch tab' },
+  { keys: ['P'], description: 'Pause / resume live updates (hovering the rows also pauses)' },
+  { keys: ['B'], description: 'Toggle between the table and the Pulse board' },
+  { keys: ['F'], description: 'Open advanced filters' },
+  { keys: ['C'], description: 'Open column settings' },
+  { keys: ['?'], description: 'Show this help' },
+  { keys: ['↑', '↓', '←', '→'], description: 'Move between table cells' },
+  { keys: ['Enter'], description: 'Open token details / sort by the focused header' },
+  { keys: ['Esc'], description: 'Close the open dialog' },
+];
+
+/**
+ * Single-key shortcuts must not fire while the user types (form fields, editable content)
+ * or while a dialog is open.
+ */
+export const isShortcutBlocked = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target.closest('[role="dialog"]')) return true;
+  const tag = target.tagName;
+  return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT';
+};
+
+// Cmd+K on macOS, Ctrl+K elsewhere; both are accepted everywhere
+export const isPaletteShortcut = (event: KeyboardEvent): boolean =>
+  (event.metaKey || event.ctrlKey) && !event.altKey && event.key.toLowerCase() === 'k';
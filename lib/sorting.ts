@@ -0,0 +1,43 @@
+import type { SortState, Token } from './types';
+
+// --- Token ordering ---
+// Multi-key comparator shared by the table, the board columns and the API routes.
+
+// Custom sort for status order (lifecycle, not alphabetical)
+export const STATUS_ORDER: Token['status'][] = ['New pairs', 'Final Stretch', 'Migrated'];
+
+// Missing values (e.g. a price change the history doesn't cover yet) sort last in either direction
+const compareMissingLast = (a: Token, b: Token, key: keyof Token): number =>
+  Number(a[key] === null || a[key] === undefined) - Number(b[key] === null || b[key] === undefined);
+
+const compareByKey = (a: Token, b: Token, key: keyof Token): number => {
+  const aVal = a[key];
+  const bVal = b[key];
+
+  if (key === 'status') {
+    return STATUS_ORDER.indexOf(aVal as Token['status']) - STATUS_ORDER.indexOf(bVal as Token['status']);
+  }
+  if (typeof aVal === 'number' && typeof bVal === 'number') {
+    return aVal - bVal;
+  }
+  if (typeof aVal === 'string' && typeof bVal === 'string') {
+    return aVal.localeCompare(bVal);
+  }
+  return 0;
+};
+
+export const compareTokens = (a: Token, b: Token, sortState: SortState): number => {
+  for (const { key, direction } of sortState) {
+    const missing = compareMissingLast(a, b, key);
+    if (missing !== 0) return missing;
+    const comparison = compareByKey(a, b, key);
+    if (comparison !== 0) return direction === 'asc' ? comparison : -comparison;
+  }
+  return 0;
+};
+
+/**
+ * A sorted copy of `tokens` (the input itself when there is nothing to sort by).
+ */
+export const sortTokens = (tokens: Token[], sortState: SortState): Token[] =>
+  sortState.length === 0 ? tokens : [...tokens].sort((a, b) => compareTokens(a, b, sortState));
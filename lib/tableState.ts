@@ -0,0 +1,145 @@
+import { DEFAULT_FILTERS, FILTER_CHAINS, RANGE_FIELDS, type NumericRange, type RangeField, type TokenFilters } from './filters';
+import type { SortCriterion, SortState, TableTab, TableView, Token, TokenChain } from './types';
+
+// --- Shareable table state <-> URL query parameters ---
+// e.g. ?tab=final-stretch&sort=status,-liquidity&chain=SOL&liq=20000..&token=token-4&view=board
+// Parsed on the server in app/page.tsx (App Router `searchParams`) and on the client
+// for back/forward navigation. Anything invalid or unknown falls back to the default.
+
+export type TableUrlState = {
+  view: TableView;
+  tab: TableTab;
+  sort: SortState;
+  filters: TokenFilters;
+  // Token id whose detail dialog is open
+  selected: string | null;
+};
+
+export const DEFAULT_SORT: SortState = [{ key: 'marketCap', direction: 'desc' }];
+
+// Primary + secondary + tertiary
+export const MAX_SORT_KEYS = 3;
+
+export const DEFAULT_TABLE_STATE: TableUrlState = {
+  view: 'table',
+  tab: 'All',
+  sort: DEFAULT_SORT,
+  filters: DEFAULT_FILTERS,
+  selected: null,
+};
+
+const TAB_SLUGS: Record<string, TableTab> = {
+  all: 'All',
+  'new-pairs': 'New pairs',
+  'final-stretch': 'Final Stretch',
+  migrated: 'Migrated',
+  watchlist: 'Watchlist',
+  holdings: 'Holdings',
+};
+
+const tabToSlug = (tab: TableTab): string =>
+  Object.keys(TAB_SLUGS).find(slug => TAB_SLUGS[slug] === tab) ?? 'all';
+
+export const SORTABLE_KEYS: (keyof Token)[] = [
+  'name', 'symbol', 'chain', 'pair', 'status', 'marketCap', 'priceUSD', 'volume24h', 'liquidity', 'launchTime', 'score',
+  'change1m', 'change5m', 'change1h', 'bondingProgress',
+];
+
+const RANGE_PARAMS: Record<RangeField, string> = {
+  score: 'score',
+  marketCap: 'mcap',
+  liquidity: 'liq',
+  volume24h: 'vol',
+};
+
+// Accepts both URLSearchParams (client) and the App Router `searchParams` object (server)
+export type SearchParamsInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+const readParam = (params: SearchParamsInput, name: string): string | null => {
+  if (params instanceof URLSearchParams) return params.get(name);
+  const value = params[name];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+};
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// "min..max", "min.." or "..max"
+const parseRange = (value: string | null): NumericRange => {
+  if (!value || !value.includes('..')) return {};
+  const [min, max] = value.split('..');
+  const range: NumericRange = { min: parseNumber(min), max: parseNumber(max) };
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) return {};
+  return range;
+};
+
+const formatRange = ({ min, max }: NumericRange): string | null =>
+  min === undefined && max === undefined ? null : `${min ?? ''}..${max ?? ''}`;
+
+// Comma-separated keys in priority order; "-liquidity" = liquidity descending, "name" = name ascending
+const parseSort = (value: string | null): SortState => {
+  if (!value) return DEFAULT_SORT;
+  const criteria: SortCriterion[] = [];
+  for (const part of value.split(',')) {
+    const descending = part.startsWith('-');
+    const key = (descending ? part.slice(1) : part) as keyof Token;
+    if (!SORTABLE_KEYS.includes(key) || criteria.some(c => c.key === key)) return DEFAULT_SORT;
+    criteria.push({ key, direction: descending ? 'desc' : 'asc' });
+  }
+  return criteria.length > MAX_SORT_KEYS ? DEFAULT_SORT : criteria;
+};
+
+const formatSort = (sort: SortState): string | null => {
+  const isDefault = sort.length === DEFAULT_SORT.length &&
+    sort.every((c, i) => c.key === DEFAULT_SORT[i].key && c.direction === DEFAULT_SORT[i].direction);
+  if (isDefault || sort.length === 0) return null;
+  return sort.map(({ key, direction }) => (direction === 'desc' ? `-${key}` : key)).join(',');
+};
+
+export const parseTableState = (params: SearchParamsInput): TableUrlState => {
+  const chains = (readParam(params, 'chain') ?? '')
+    .split(',')
+    .filter((chain): chain is TokenChain => FILTER_CHAINS.includes(chain as TokenChain));
+
+  const ranges = { ...DEFAULT_FILTERS.ranges };
+  RANGE_FIELDS.forEach(field => {
+    ranges[field] = parseRange(readParam(params, RANGE_PARAMS[field]));
+  });
+
+  return {
+    view: readParam(params, 'view') === 'board' ? 'board' : DEFAULT_TABLE_STATE.view,
+    tab: TAB_SLUGS[readParam(params, 'tab') ?? ''] ?? DEFAULT_TABLE_STATE.tab,
+    sort: parseSort(readParam(params, 'sort')),
+    filters: {
+      chains: Array.from(new Set(chains)),
+      ranges,
+      launchAgeHours: parseRange(readParam(params, 'age')),
+      text: readParam(params, 'q') ?? '',
+    },
+    selected: readParam(params, 'token') || null,
+  };
+};
+
+/**
+ * Serializes the state, omitting anything at its default so shared links stay short.
+ */
+export const serializeTableState = (state: TableUrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string | null) => {
+    if (value) params.set(name, value);
+  };
+
+  if (state.view !== DEFAULT_TABLE_STATE.view) set('view', state.view);
+  if (state.tab !== DEFAULT_TABLE_STATE.tab) set('tab', tabToSlug(state.tab));
+  set('sort', formatSort(state.sort));
+  set('chain', state.filters.chains.join(','));
+  RANGE_FIELDS.forEach(field => set(RANGE_PARAMS[field], formatRange(state.filters.ranges[field])));
+  set('age', formatRange(state.filters.launchAgeHours));
+  set('q', state.filters.text.trim());
+  set('token', state.selected);
+
+  return params;
+};
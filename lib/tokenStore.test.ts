@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FEED_PROTOCOL_VERSION } from './feed/protocol';
+import { createMockToken } from './mockTokens';
+import { computeRiskScore, type ScoreWeights } from './scoring';
+import { createTokenStore, timeoutScheduler } from './tokenStore';
+
+const WEIGHTS: ScoreWeights = {
+  liquidityLock: 1, lpBurn: 0, holderConcentration: 0, devHoldings: 0,
+  mintAuthority: 0, freezeAuthority: 0, honeypot: 0,
+};
+
+const token = (i: number) => ({ ...createMockToken(i, 'New pairs', { random: () => 0.5, now: 0 }), score: 99 });
+
+describe('createTokenStore', () => {
+  it('scores incoming tokens from their audit with the configured weights', () => {
+    const store = createTokenStore({ schedule: timeoutScheduler(1000), scoreWeights: WEIGHTS });
+    store.dispatch({ v: FEED_PROTOCOL_VERSION, type: 'snapshot', tokens: [token(0)], ts: 0 });
+    store.dispatch({ v: FEED_PROTOCOL_VERSION, type: 'token_added', token: token(1) });
+    store.flush();
+
+    for (const scored of store.getSnapshot().tokens) {
+      const expected = computeRiskScore(scored.audit, WEIGHTS);
+      assert.equal(scored.score, expected.total);
+      assert.deepEqual(store.getRiskScore(scored), expected);
+    }
+  });
+});
@@ -0,0 +1,339 @@
+import { applyPriceTick, type PriceTick, type ServerMessage } from './feed/protocol';
+import type { FeedStatus, FeedTransport } from './feed/transport';
+import { applyLifecycle, settleTransition, STAGE_TRANSITION_MS } from './lifecycle';
+import { CHANGE_WINDOWS, createPriceHistory } from './priceHistory';
+import { createRiskScorer, DEFAULT_SCORE_WEIGHTS, type RiskScore, type ScoreWeights } from './scoring';
+import type { PriceState, Token } from './types';
+
+// --- Token store (outside React state) ---
+// Feed messages are queued as they arrive and committed at most once per animation frame.
+// Commits are structurally shared: only tokens that actually changed get a new object, so
+// memoized rows skip re-rendering for everything else. Read through `useSyncExternalStore`.
+// Each commit also derives the change windows and the lifecycle stage (lib/lifecycle.ts).
+// Tokens are scored from their audit as they come in (lib/scoring.ts), whatever score the
+// feed sent, so every view shows the same number as the breakdown. Time comes from the connected transport's clock, so a replay derives them on recorded time.
+
+export type TokenStoreState = {
+  tokens: Token[];
+  // Previous price + trend per token id, used for the price flash and one-tick diff
+  priceHistory: Record<string, PriceState>;
+  // Last 5 minutes of prices per token id, for the row sparkline
+  sparklines: Record<string, number[]>;
+  loading: boolean;
+  status: FeedStatus;
+  error: string | null;
+};
+
+export type TokenStoreStats = {
+  messages: number;
+  ticks: number;
+  commits: number;
+  totalCommitMs: number;
+  maxCommitMs: number;
+};
+
+// Schedules the next commit. Defaults to requestAnimationFrame; the benchmark (Node)
+// passes a timer-based scheduler instead.
+export type FrameScheduler = (flush: () => void) => () => void;
+
+export const animationFrameScheduler: FrameScheduler = (flush) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const handle = requestAnimationFrame(flush);
+    return () => cancelAnimationFrame(handle);
+  }
+  return timeoutScheduler(16)(flush);
+};
+
+export const timeoutScheduler = (ms: number): FrameScheduler => (flush) => {
+  const handle = setTimeout(flush, ms);
+  return () => clearTimeout(handle);
+};
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+export const SPARKLINE_WINDOW_MS = CHANGE_WINDOWS.change5m;
+const SPARKLINE_POINTS = 30;
+
+const INITIAL_STATE: TokenStoreState = {
+  tokens: [],
+  priceHistory: {},
+  sparklines: {},
+  loading: true,
+  status: 'connecting',
+  error: null,
+};
+
+export type TokenStore = ReturnType<typeof createTokenStore>;
+
+export type TokenStoreOptions = {
+  schedule?: FrameScheduler;
+  // Weights of the audit factors behind `Token.score`
+  scoreWeights?: ScoreWeights;
+};
+
+export const createTokenStore = ({ schedule = animationFrameScheduler, scoreWeights = DEFAULT_SCORE_WEIGHTS }: TokenStoreOptions = {}) => {
+  let state: TokenStoreState = INITIAL_STATE;
+  let indexById = new Map<string, number>();
+  // Rolling per-token price history behind change1m/5m/1h and the sparklines
+  const history = createPriceHistory();
+  let derivedBucket = -1;
+  const listeners = new Set<() => void>();
+  // Raw ticks as they arrive (before coalescing), for consumers that need every price point
+  const tickListeners = new Set<(ticks: PriceTick[]) => void>();
+
+  // Structural messages (snapshot/add/remove) are applied in arrival order; ticks are
+  // coalesced to the latest one per token since only the newest price gets rendered.
+  let pendingStructural: ServerMessage[] = [];
+  let pendingTicks = new Map<string, PriceTick>();
+  let cancelScheduled: (() => void) | null = null;
+  let settleTimer: ReturnType<typeof setTimeout> | null = null;
+  let clock: () => number = Date.now;
+
+  const stats: TokenStoreStats = { messages: 0, ticks: 0, commits: 0, totalCommitMs: 0, maxCommitMs: 0 };
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  const riskScore = createRiskScorer(scoreWeights);
+
+  const withScore = (token: Token): Token => {
+    const { total } = riskScore(token.audit);
+    return token.score === total ? token : { ...token, score: total };
+  };
+
+  const reindex = (tokens: Token[]) => {
+    indexById = new Map(tokens.map((token, i) => [token.id, i]));
+  };
+
+  const applyStructural = (
+    tokens: Token[],
+    history: Record<string, PriceState>,
+    message: ServerMessage
+  ): [Token[], Record<string, PriceState>] => {
+    switch (message.type) {
+      case 'snapshot': {
+        const initialHistory: Record<string, PriceState> = {};
+        message.tokens.forEach(token => {
+          initialHistory[token.id] = { priceUSD: token.priceUSD, trend: 'neutral' };
+        });
+        return [message.tokens.map(withScore), initialHistory];
+      }
+      case 'token_added': {
+        const token = withScore(message.token);
+        return [
+          [...tokens.filter(t => t.id !== token.id), token],
+          { ...history, [token.id]: { priceUSD: token.priceUSD, trend: 'neutral' } },
+        ];
+      }
+      case 'token_removed': {
+        const nextHistory = { ...history };
+        delete nextHistory[message.id];
+        return [tokens.filter(t => t.id !== message.id), nextHistory];
+      }
+      default:
+        return [tokens, history];
+    }
+  };
+
+  // Price history is kept as messages arrive rather than on commit, so it gets every tick
+  // and not only the newest per frame (a replay seek re-sends minutes of ticks at once)
+  const recordHistory = (message: ServerMessage, ts: number) => {
+    switch (message.type) {
+      case 'snapshot':
+        history.clear();
+        message.tokens.forEach(token => history.record(token.id, ts, token.priceUSD));
+        break;
+      case 'token_added':
+        history.record(message.token.id, ts, message.token.priceUSD);
+        break;
+      case 'token_removed':
+        history.remove(message.id);
+        break;
+      case 'price_tick':
+        message.ticks.forEach(tick => {
+          if (history.has(tick.id)) history.record(tick.id, tick.ts, tick.priceUSD);
+        });
+        break;
+    }
+  };
+
+  // Refreshes the derived change fields; returns the same object when nothing moved
+  const withChanges = (token: Token, at: number): Token => {
+    const change1m = history.getChange(token.id, CHANGE_WINDOWS.change1m, at);
+    const change5m = history.getChange(token.id, CHANGE_WINDOWS.change5m, at);
+    const change1h = history.getChange(token.id, CHANGE_WINDOWS.change1h, at);
+    if (token.change1m === change1m && token.change5m === change5m && token.change1h === change1h) return token;
+    return { ...token, change1m, change5m, change1h };
+  };
+
+  const flush = () => {
+    cancelScheduled = null;
+    const start = now();
+    const commitTs = clock();
+
+    let { tokens, priceHistory } = state;
+    const hadSnapshot = pendingStructural.some(message => message.type === 'snapshot');
+    // Ids whose price moved or that were just added; everything else keeps its derived values
+    const touched = new Set<string>();
+    // Ids updated by a tick in this commit; only these animate a stage change
+    const ticked = new Set<string>();
+
+    if (pendingStructural.length > 0) {
+      for (const message of pendingStructural) {
+        [tokens, priceHistory] = applyStructural(tokens, priceHistory, message);
+        if (message.type === 'token_added') touched.add(message.token.id);
+      }
+      pendingStructural = [];
+      reindex(tokens);
+    }
+
+    const nextTokens = tokens === state.tokens ? [...tokens] : tokens;
+
+    if (pendingTicks.size > 0) {
+      const changes: Record<string, PriceState> = {};
+      pendingTicks.forEach((tick, id) => {
+        const index = indexById.get(id);
+        if (index === undefined) return;
+        const token = nextTokens[index];
+        // Store current price as 'old' price for visual comparison
+        changes[id] = {
+          priceUSD: token.priceUSD,
+          trend: tick.priceUSD > token.priceUSD ? 'up' : tick.priceUSD < token.priceUSD ? 'down' : 'neutral',
+        };
+        nextTokens[index] = applyPriceTick(token, tick);
+        touched.add(id);
+        ticked.add(id);
+      });
+      pendingTicks = new Map();
+      priceHistory = { ...priceHistory, ...changes };
+    }
+
+    // Change windows slide with the clock: on a history slot rollover every token is refreshed
+    const bucket = history.bucketOf(commitTs);
+    const refreshAll = hadSnapshot || bucket !== derivedBucket;
+    derivedBucket = bucket;
+
+    let sparklines = state.sparklines;
+    const nextSparklines: Record<string, number[]> = {};
+    let sparklinesChanged = false;
+    let transitionsPending = false;
+    nextTokens.forEach((token, index) => {
+      const moved = refreshAll || touched.has(token.id);
+      let next = token;
+      // Lifecycle: an updated token may change stage; finished stage animations are cleared
+      if (moved) next = applyLifecycle(next, commitTs, ticked.has(token.id) && !hadSnapshot);
+      next = settleTransition(next, commitTs);
+      if (next.previousStatus !== undefined) transitionsPending = true;
+      if (moved) {
+        next = withChanges(next, commitTs);
+        nextSparklines[token.id] = history.getSparkline(token.id, SPARKLINE_WINDOW_MS, SPARKLINE_POINTS, commitTs);
+        sparklinesChanged = true;
+      }
+      nextTokens[index] = next;
+    });
+    if (sparklinesChanged) {
+      sparklines = refreshAll ? nextSparklines : { ...sparklines, ...nextSparklines };
+    }
+    // Make sure animating rows leave their old tab even if the feed goes quiet
+    if (transitionsPending && !settleTimer) {
+      settleTimer = setTimeout(() => {
+        settleTimer = null;
+        requestFlush();
+      }, STAGE_TRANSITION_MS);
+    }
+
+    const tokensChanged = nextTokens.some((token, i) => token !== tokens[i]) || tokens !== state.tokens;
+    tokens = tokensChanged ? nextTokens : state.tokens;
+
+    state = { ...state, tokens, priceHistory, sparklines, loading: state.loading && !hadSnapshot };
+
+    const elapsed = now() - start;
+    stats.commits += 1;
+    stats.totalCommitMs += elapsed;
+    stats.maxCommitMs = Math.max(stats.maxCommitMs, elapsed);
+    emit();
+  };
+
+  const requestFlush = () => {
+    if (!cancelScheduled) cancelScheduled = schedule(flush);
+  };
+
+  const dispatch = (message: ServerMessage) => {
+    stats.messages += 1;
+    recordHistory(message, clock());
+    if (message.type === 'price_tick') {
+      stats.ticks += message.ticks.length;
+      message.ticks.forEach(tick => pendingTicks.set(tick.id, tick));
+      tickListeners.forEach(listener => listener(message.ticks));
+    } else {
+      if (message.type === 'snapshot') {
+        // A snapshot supersedes everything queued before it
+        pendingStructural = [];
+        pendingTicks = new Map();
+      } else if (message.type === 'token_removed') {
+        pendingTicks.delete(message.id);
+      }
+      pendingStructural.push(message);
+    }
+    requestFlush();
+  };
+
+  const setConnection = (patch: Partial<Pick<TokenStoreState, 'status' | 'error'>>) => {
+    state = { ...state, ...patch };
+    emit();
+  };
+
+  return {
+    dispatch,
+    /** Forces pending messages to commit synchronously (used by the benchmark). */
+    flush: () => {
+      cancelScheduled?.();
+      flush();
+    },
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /**
+     * Receives every tick as it arrives. Pair with `subscribe` to render collected ticks on commit.
+     */
+    subscribeTicks: (listener: (ticks: PriceTick[]) => void) => {
+      tickListeners.add(listener);
+      return () => {
+        tickListeners.delete(listener);
+      };
+    },
+    /** Retained price history for one token, oldest first. */
+    getPriceSamples: (id: string) => history.getSamples(id),
+    getSnapshot: () => state,
+    getServerSnapshot: () => INITIAL_STATE,
+    /** Score breakdown behind `token.score`, computed once per audit. */
+    getRiskScore: (token: Token): RiskScore => riskScore(token.audit),
+    /** Current time on the connected feed's clock. */
+    now: () => clock(),
+    getStats: (): TokenStoreStats => ({ ...stats }),
+    /**
+     * Pipes a transport into the store. Returns the transport's teardown.
+     */
+    connect: (transport: FeedTransport) => {
+      clock = transport.now ?? Date.now;
+      setConnection({ error: null });
+      const disconnect = transport.connect({
+        onMessage: dispatch,
+        onStatusChange: status => setConnection({ status }),
+        onError: err => setConnection({ error: err.message }),
+      });
+      return () => {
+        disconnect();
+        cancelScheduled?.();
+        cancelScheduled = null;
+        if (settleTimer) clearTimeout(settleTimer);
+        settleTimer = null;
+        pendingStructural = [];
+        pendingTicks = new Map();
+        clock = Date.now;
+      };
+    },
+  };
+};
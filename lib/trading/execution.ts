@@ -0,0 +1,116 @@
+import type { Token, TokenChain } from '../types';
+import { quoteTrade, type TradeQuote, type TradeSide } from './quote';
+
+// --- Order execution ---
+// The trade store only talks to an ExecutionAdapter, so the paper adapter below (simulated
+// fills against the live feed, no wallet needed) and a real router or wallet integration
+// are interchangeable.
+
+// pending: accepted locally, not sent yet; submitted: sent, waiting to land
+export type OrderStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export type OrderRequest = {
+  id: string;
+  tokenId: string;
+  symbol: string;
+  chain: TokenChain;
+  side: TradeSide;
+  // USD for a buy, tokens for a sell
+  amountIn: number;
+  slippagePct: number;
+  // Paid on top of the trade to land it sooner
+  priorityFeeUsd: number;
+  // The estimate shown when the order was placed; its minAmountOut is binding
+  quote: TradeQuote;
+  createdAt: number;
+};
+
+export type OrderFill = {
+  amountIn: number;
+  amountOut: number;
+  // USD per token, pool fee included
+  executionPrice: number;
+  priorityFeeUsd: number;
+  filledAt: number;
+};
+
+export type OrderUpdate =
+  | { status: 'submitted'; txHash: string }
+  | { status: 'confirmed'; fill: OrderFill }
+  | { status: 'failed'; error: string };
+
+export type Order = OrderRequest & {
+  status: OrderStatus;
+  txHash: string | null;
+  fill: OrderFill | null;
+  error: string | null;
+  updatedAt: number;
+};
+
+export interface ExecutionAdapter {
+  /** Shown next to the submit button, e.g. "Paper trading". */
+  label: string;
+  /** Sends the order and reports its progress through `onUpdate`. Returns a function that stops the reports. */
+  submit: (order: OrderRequest, onUpdate: (update: OrderUpdate) => void) => () => void;
+}
+
+// --- Paper trading ---
+
+type PaperAdapterOptions = {
+  // The token as it is now (read at fill time); undefined once it left the feed
+  getToken: (id: string) => Token | undefined;
+  // Time from submit to fill with no priority fee
+  baseLatencyMs?: number;
+};
+
+const SUBMIT_DELAY_MS = 150;
+const MIN_LATENCY_MS = 200;
+// Each this many USD of priority fee cuts the wait by another base latency
+const PRIORITY_FEE_STEP_USD = 0.05;
+
+export const paperLatency = (priorityFeeUsd: number, baseLatencyMs: number) =>
+  Math.max(MIN_LATENCY_MS, baseLatencyMs / (1 + Math.max(0, priorityFeeUsd) / PRIORITY_FEE_STEP_USD));
+
+const paperTxHash = () =>
+  `paper-${Array.from({ length: 16 }, () => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+
+/**
+ * Simulated execution: the order "lands" after a delay that shrinks with the priority fee
+ * and fills at the pool price of that moment, so a price move during the wait can push the
+ * fill below `minAmountOut` and fail the order, as on chain.
+ */
+export const createPaperExecutionAdapter = ({ getToken, baseLatencyMs = 2000 }: PaperAdapterOptions): ExecutionAdapter => ({
+  label: 'Paper trading',
+  submit: (order, onUpdate) => {
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    timers.push(setTimeout(() => {
+      onUpdate({ status: 'submitted', txHash: paperTxHash() });
+
+      timers.push(setTimeout(() => {
+        const token = getToken(order.tokenId);
+        if (!token) {
+          onUpdate({ status: 'failed', error: `${order.symbol} is no longer listed` });
+          return;
+        }
+        const quote = quoteTrade(token, order.side, order.amountIn, order.slippagePct);
+        if (!quote || quote.amountOut < order.quote.minAmountOut) {
+          onUpdate({ status: 'failed', error: `Price moved beyond the ${order.slippagePct}% slippage tolerance` });
+          return;
+        }
+        onUpdate({
+          status: 'confirmed',
+          fill: {
+            amountIn: quote.amountIn,
+            amountOut: quote.amountOut,
+            executionPrice: quote.executionPrice,
+            priorityFeeUsd: order.priorityFeeUsd,
+            filledAt: Date.now(),
+          },
+        });
+      }, paperLatency(order.priorityFeeUsd, baseLatencyMs)));
+    }, SUBMIT_DELAY_MS));
+
+    return () => timers.forEach(clearTimeout);
+  },
+});
@@ -0,0 +1,127 @@
+import type { Token } from '../types';
+import type { Position } from './positions';
+
+// --- Paper portfolio ---
+// Positions plus a time series of the portfolio's value and PnL, stored in localStorage as
+// one versioned document. Positions are marked to market against the live token list on
+// every feed commit; the series is sampled on a timer (see hooks/useTrading.ts).
+
+export const PORTFOLIO_STORAGE_KEY = 'axiom.portfolio';
+export const PORTFOLIO_SCHEMA_VERSION = 1;
+
+// Sampling interval and cap of the value/PnL series: 12 hours at one point per 15 seconds
+export const PORTFOLIO_SAMPLE_MS = 15000;
+export const MAX_PORTFOLIO_SAMPLES = 2880;
+
+export type PortfolioSample = {
+  ts: number;
+  valueUsd: number;
+  // Realized + unrealized at that moment
+  pnlUsd: number;
+};
+
+export type PortfolioDocument = {
+  version: typeof PORTFOLIO_SCHEMA_VERSION;
+  positions: Record<string, Position>;
+  history: PortfolioSample[];
+};
+
+export const EMPTY_PORTFOLIO: PortfolioDocument = { version: PORTFOLIO_SCHEMA_VERSION, positions: {}, history: [] };
+
+// A position valued at the current price
+export type PositionMark = {
+  position: Position;
+  // null while the token isn't in the feed (valued at cost then)
+  priceUSD: number | null;
+  valueUsd: number;
+  unrealizedPnlUsd: number;
+  unrealizedPnlPct: number;
+};
+
+export type PortfolioSummary = {
+  // Marks of the positions still held, by token id
+  marks: Record<string, PositionMark>;
+  valueUsd: number;
+  costBasisUsd: number;
+  unrealizedPnlUsd: number;
+  // Includes positions that were sold off
+  realizedPnlUsd: number;
+  totalPnlUsd: number;
+};
+
+export const markPosition = (position: Position, priceUSD: number | null): PositionMark => {
+  const valueUsd = priceUSD === null ? position.costBasisUsd : position.amount * priceUSD;
+  const unrealizedPnlUsd = valueUsd - position.costBasisUsd;
+  return {
+    position,
+    priceUSD,
+    valueUsd,
+    unrealizedPnlUsd,
+    unrealizedPnlPct: position.costBasisUsd > 0 ? (unrealizedPnlUsd / position.costBasisUsd) * 100 : 0,
+  };
+};
+
+/**
+ * Values every held position at its token's current price.
+ */
+export const markToMarket = (positions: Record<string, Position>, tokens: Token[]): PortfolioSummary => {
+  const held = Object.values(positions).filter(position => position.amount > 0);
+  const priceById = new Map<string, number>();
+  if (held.length > 0) tokens.forEach(token => priceById.set(token.id, token.priceUSD));
+
+  const marks: Record<string, PositionMark> = {};
+  let valueUsd = 0;
+  let costBasisUsd = 0;
+  held.forEach(position => {
+    const mark = markPosition(position, priceById.get(position.tokenId) ?? null);
+    marks[position.tokenId] = mark;
+    valueUsd += mark.valueUsd;
+    costBasisUsd += position.costBasisUsd;
+  });
+  const realizedPnlUsd = Object.values(positions).reduce((sum, position) => sum + position.realizedPnlUsd, 0);
+  const unrealizedPnlUsd = valueUsd - costBasisUsd;
+
+  return { marks, valueUsd, costBasisUsd, unrealizedPnlUsd, realizedPnlUsd, totalPnlUsd: realizedPnlUsd + unrealizedPnlUsd };
+};
+
+/**
+ * Adds a sample, unless the last one is younger than half an interval; drops the oldest past the cap.
+ */
+export const appendPortfolioSample = (history: PortfolioSample[], sample: PortfolioSample): PortfolioSample[] => {
+  const last = history[history.length - 1];
+  if (last && sample.ts - last.ts < PORTFOLIO_SAMPLE_MS / 2) return history;
+  const next = [...history, sample];
+  return next.length > MAX_PORTFOLIO_SAMPLES ? next.slice(next.length - MAX_PORTFOLIO_SAMPLES) : next;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPosition = (value: unknown): value is Position =>
+  isRecord(value) &&
+  typeof value.tokenId === 'string' && typeof value.symbol === 'string' && typeof value.chain === 'string' &&
+  isFiniteNumber(value.amount) && value.amount >= 0 && isFiniteNumber(value.costBasisUsd) &&
+  isFiniteNumber(value.realizedPnlUsd) && isFiniteNumber(value.openedAt) && isFiniteNumber(value.updatedAt);
+
+const isSample = (value: unknown): value is PortfolioSample =>
+  isRecord(value) && isFiniteNumber(value.ts) && isFiniteNumber(value.valueUsd) && isFiniteNumber(value.pnlUsd);
+
+// Corrupt or foreign data in storage is treated as an empty portfolio; bad entries are dropped
+export const parseStoredPortfolio = (value: string | null): PortfolioDocument => {
+  if (!value) return EMPTY_PORTFOLIO;
+  try {
+    const raw: unknown = JSON.parse(value);
+    if (!isRecord(raw) || raw.version !== PORTFOLIO_SCHEMA_VERSION) return EMPTY_PORTFOLIO;
+    const positions = isRecord(raw.positions)
+      ? Object.fromEntries(Object.values(raw.positions).filter(isPosition).map(position => [position.tokenId, position]))
+      : {};
+    const history = Array.isArray(raw.history) ? raw.history.filter(isSample).slice(-MAX_PORTFOLIO_SAMPLES) : [];
+    return { version: PORTFOLIO_SCHEMA_VERSION, positions, history };
+  } catch {
+    return EMPTY_PORTFOLIO;
+  }
+};
+
+export const serializePortfolio = (portfolio: PortfolioDocument): string => JSON.stringify(portfolio);
@@ -0,0 +1,63 @@
+import type { TokenChain } from '../types';
+import type { Order, OrderFill } from './execution';
+
+// --- Positions ---
+// Holdings built up from confirmed fills, at average cost: a buy adds its tokens and
+// what they cost (priority fee included); a sell releases the matching share of the cost
+// basis and books the difference to its proceeds as realized PnL.
+
+export type Position = {
+  tokenId: string;
+  symbol: string;
+  chain: TokenChain;
+  // Tokens held; 0 once fully sold (the position stays for its realized PnL)
+  amount: number;
+  // USD paid for the tokens still held
+  costBasisUsd: number;
+  realizedPnlUsd: number;
+  openedAt: number;
+  updatedAt: number;
+};
+
+// Leftovers below this many tokens after a sell count as a closed position
+const DUST = 1e-9;
+
+export const averageEntryPrice = (position: Position): number | null =>
+  position.amount > 0 ? position.costBasisUsd / position.amount : null;
+
+export const applyFill = (position: Position | undefined, order: Order, fill: OrderFill): Position => {
+  const current: Position = position ?? {
+    tokenId: order.tokenId,
+    symbol: order.symbol,
+    chain: order.chain,
+    amount: 0,
+    costBasisUsd: 0,
+    realizedPnlUsd: 0,
+    openedAt: fill.filledAt,
+    updatedAt: fill.filledAt,
+  };
+
+  if (order.side === 'buy') {
+    return {
+      ...current,
+      // A fully sold position that is bought again starts over
+      openedAt: current.amount > 0 ? current.openedAt : fill.filledAt,
+      amount: current.amount + fill.amountOut,
+      costBasisUsd: current.costBasisUsd + fill.amountIn + fill.priorityFeeUsd,
+      updatedAt: fill.filledAt,
+    };
+  }
+
+  // Only what is still held can be sold; proceeds for the rest aren't booked
+  const sold = Math.min(fill.amountIn, current.amount);
+  const proceeds = fill.amountIn > 0 ? fill.amountOut * (sold / fill.amountIn) : 0;
+  const releasedCost = current.amount > 0 ? current.costBasisUsd * (sold / current.amount) : 0;
+  const remaining = current.amount - sold;
+  return {
+    ...current,
+    amount: remaining > DUST ? remaining : 0,
+    costBasisUsd: remaining > DUST ? current.costBasisUsd - releasedCost : 0,
+    realizedPnlUsd: current.realizedPnlUsd + proceeds - fill.priorityFeeUsd - releasedCost,
+    updatedAt: fill.filledAt,
+  };
+};
@@ -0,0 +1,74 @@
+import type { Token } from '../types';
+
+// --- Trade quotes (constant-product AMM) ---
+// The pool is modelled as x * y = k with the token's `liquidity` split evenly between the
+// two sides at the current `priceUSD`: buys spend USD into the quote side, sells spend
+// tokens into the base side. The pool fee is taken from the input before the swap, so
+// price impact is the move the trade itself causes and the fee is reported separately.
+
+export type TradeSide = 'buy' | 'sell';
+
+// Uniswap v2 style 0.3%
+export const POOL_FEE_RATE = 0.003;
+
+export type PoolReserves = {
+  // USD side
+  quote: number;
+  // Token side
+  base: number;
+};
+
+export type TradeQuote = {
+  side: TradeSide;
+  // USD for a buy, tokens for a sell
+  amountIn: number;
+  // Tokens for a buy, USD for a sell
+  amountOut: number;
+  // Least `amountOut` the order accepts at its slippage tolerance
+  minAmountOut: number;
+  // USD per token actually paid or received, fee included
+  executionPrice: number;
+  spotPrice: number;
+  // How far the swap moves the pool price, in percent
+  priceImpactPct: number;
+  // In units of the input
+  fee: number;
+};
+
+export const poolReserves = (token: Pick<Token, 'liquidity' | 'priceUSD'>): PoolReserves | null => {
+  if (!(token.liquidity > 0) || !(token.priceUSD > 0)) return null;
+  const quote = token.liquidity / 2;
+  return { quote, base: quote / token.priceUSD };
+};
+
+/**
+ * Quotes a swap of `amountIn` against the token's modelled pool, or null when there is
+ * nothing to trade (empty pool or non-positive amount). `slippagePct` only sets `minAmountOut`.
+ */
+export const quoteTrade = (
+  token: Pick<Token, 'liquidity' | 'priceUSD'>,
+  side: TradeSide,
+  amountIn: number,
+  slippagePct: number
+): TradeQuote | null => {
+  const pool = poolReserves(token);
+  if (!pool || !(amountIn > 0)) return null;
+
+  const [reserveIn, reserveOut] = side === 'buy' ? [pool.quote, pool.base] : [pool.base, pool.quote];
+  const fee = amountIn * POOL_FEE_RATE;
+  const amountInAfterFee = amountIn - fee;
+  const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+  // Average price of the swap before the fee, against the pool price
+  const swapPrice = side === 'buy' ? amountInAfterFee / amountOut : amountOut / amountInAfterFee;
+
+  return {
+    side,
+    amountIn,
+    amountOut,
+    minAmountOut: amountOut * (1 - Math.max(0, slippagePct) / 100),
+    executionPrice: side === 'buy' ? amountIn / amountOut : amountOut / amountIn,
+    spotPrice: token.priceUSD,
+    priceImpactPct: Math.abs(swapPrice / token.priceUSD - 1) * 100,
+    fee,
+  };
+};
@@ -0,0 +1,60 @@
+// --- Trade settings ---
+// Quick-buy amount, slippage tolerance and priority fee, shared by the row "Buy" buttons and
+// the trade panel. Stored in localStorage as a versioned document.
+
+export const TRADE_SETTINGS_STORAGE_KEY = 'axiom.tradeSettings';
+export const TRADE_SETTINGS_SCHEMA_VERSION = 1;
+
+export type TradeSettings = {
+  // USD spent by a quick buy
+  quickBuyUsd: number;
+  slippagePct: number;
+  priorityFeeUsd: number;
+};
+
+export const BUY_AMOUNT_PRESETS_USD = [25, 50, 100, 250, 500];
+export const SELL_AMOUNT_PRESETS_PCT = [25, 50, 100];
+export const SLIPPAGE_PRESETS_PCT = [0.5, 1, 5, 10];
+export const PRIORITY_FEE_PRESETS: { label: string; usd: number }[] = [
+  { label: 'Normal', usd: 0.01 },
+  { label: 'Fast', usd: 0.1 },
+  { label: 'Turbo', usd: 0.5 },
+];
+
+export const MAX_SLIPPAGE_PCT = 50;
+
+export const DEFAULT_TRADE_SETTINGS: TradeSettings = {
+  quickBuyUsd: 50,
+  slippagePct: 1,
+  priorityFeeUsd: PRIORITY_FEE_PRESETS[0].usd,
+};
+
+const readNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+
+/**
+ * Fills in or replaces anything missing or out of range with the default.
+ */
+export const normalizeTradeSettings = (raw: unknown): TradeSettings => {
+  const record = typeof raw === 'object' && raw !== null ? raw as Record<string, unknown> : {};
+  return {
+    quickBuyUsd: readNumber(record.quickBuyUsd, Number.MIN_VALUE, Infinity, DEFAULT_TRADE_SETTINGS.quickBuyUsd),
+    slippagePct: readNumber(record.slippagePct, 0, MAX_SLIPPAGE_PCT, DEFAULT_TRADE_SETTINGS.slippagePct),
+    priorityFeeUsd: readNumber(record.priorityFeeUsd, 0, Infinity, DEFAULT_TRADE_SETTINGS.priorityFeeUsd),
+  };
+};
+
+// Corrupt or foreign data in storage falls back to the defaults rather than an error
+export const parseStoredTradeSettings = (value: string | null): TradeSettings => {
+  if (!value) return DEFAULT_TRADE_SETTINGS;
+  try {
+    const raw: unknown = JSON.parse(value);
+    const version = typeof raw === 'object' && raw !== null ? (raw as Record<string, unknown>).version : undefined;
+    return version === TRADE_SETTINGS_SCHEMA_VERSION ? normalizeTradeSettings(raw) : DEFAULT_TRADE_SETTINGS;
+  } catch {
+    return DEFAULT_TRADE_SETTINGS;
+  }
+};
+
+export const serializeTradeSettings = (settings: TradeSettings): string =>
+  JSON.stringify({ version: TRADE_SETTINGS_SCHEMA_VERSION, ...settings });
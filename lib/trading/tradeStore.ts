@@ -0,0 +1,139 @@
+import type { Token } from '../types';
+import type { ExecutionAdapter, Order, OrderFill, OrderUpdate } from './execution';
+import type { Position } from './positions';
+import { quoteTrade, type TradeSide } from './quote';
+
+// --- Trade store ---
+// Orders of this session (newest first) as an external store for useSyncExternalStore.
+// Orders go out through the ExecutionAdapter and its status reports are folded in as they
+// arrive; fills are handed to `onFill`, which keeps the positions (lib/trading/portfolio.ts).
+
+export type TradeState = {
+  orders: Order[];
+};
+
+type TradeStoreOptions = {
+  adapter: ExecutionAdapter;
+  // Current holding of a token, to reject selling more than that
+  getPosition: (tokenId: string) => Position | undefined;
+  onFill: (order: Order, fill: OrderFill) => void;
+};
+
+export type OrderInput = {
+  token: Token;
+  side: TradeSide;
+  amountIn: number;
+  slippagePct: number;
+  priorityFeeUsd: number;
+};
+
+// Older finished orders are dropped beyond this
+const MAX_ORDERS = 100;
+
+const INITIAL_STATE: TradeState = { orders: [] };
+
+const createOrderId = () => `order-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isOpenOrder = (order: Order) => order.status === 'pending' || order.status === 'submitted';
+
+export type TradeStore = ReturnType<typeof createTradeStore>;
+
+export const createTradeStore = ({ adapter, getPosition, onFill }: TradeStoreOptions) => {
+  let state = INITIAL_STATE;
+  const listeners = new Set<() => void>();
+  // Stops the adapter's reports for each open order
+  const inFlight = new Map<string, () => void>();
+
+  const setState = (next: TradeState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const trimmed = (orders: Order[]) => {
+    if (orders.length <= MAX_ORDERS) return orders;
+    const open = orders.filter(isOpenOrder);
+    return [...open, ...orders.filter(order => !isOpenOrder(order)).slice(0, MAX_ORDERS - open.length)]
+      .sort((a, b) => b.createdAt - a.createdAt);
+  };
+
+  const handleUpdate = (id: string, update: OrderUpdate) => {
+    const order = state.orders.find(entry => entry.id === id);
+    if (!order || !isOpenOrder(order)) return;
+
+    const now = Date.now();
+    const next: Order = update.status === 'submitted'
+      ? { ...order, status: 'submitted', txHash: update.txHash, updatedAt: now }
+      : update.status === 'confirmed'
+        ? { ...order, status: 'confirmed', fill: update.fill, updatedAt: now }
+        : { ...order, status: 'failed', error: update.error, updatedAt: now };
+
+    if (next.status !== 'submitted') inFlight.delete(id);
+    setState({ orders: state.orders.map(entry => (entry.id === id ? next : entry)) });
+    if (next.fill) onFill(next, next.fill);
+  };
+
+  // Tokens already promised to sell orders that haven't filled yet
+  const openSellAmount = (tokenId: string) => state.orders
+    .filter(order => isOpenOrder(order) && order.side === 'sell' && order.tokenId === tokenId)
+    .reduce((sum, order) => sum + order.amountIn, 0);
+
+  // Orders that can't go out are recorded as failed, so they show up in the order list too
+  const validate = ({ token, side, amountIn }: OrderInput): string | null => {
+    if (!(amountIn > 0)) return 'Enter an amount';
+    if (side === 'sell' && amountIn > (getPosition(token.id)?.amount ?? 0) - openSellAmount(token.id)) {
+      return `Not enough ${token.symbol} to sell`;
+    }
+    if (!(token.liquidity > 0)) return `${token.symbol} has no liquidity`;
+    return null;
+  };
+
+  const placeOrder = (input: OrderInput): Order => {
+    const { token, side, amountIn, slippagePct, priorityFeeUsd } = input;
+    const now = Date.now();
+    const quote = quoteTrade(token, side, amountIn, slippagePct);
+    const error = validate(input);
+    const order: Order = {
+      id: createOrderId(),
+      tokenId: token.id,
+      symbol: token.symbol,
+      chain: token.chain,
+      side,
+      amountIn,
+      slippagePct,
+      priorityFeeUsd,
+      quote: quote ?? {
+        side, amountIn, amountOut: 0, minAmountOut: 0, executionPrice: 0, spotPrice: token.priceUSD, priceImpactPct: 0, fee: 0,
+      },
+      createdAt: now,
+      status: error || !quote ? 'failed' : 'pending',
+      txHash: null,
+      fill: null,
+      error: error ?? (quote ? null : 'Nothing to trade'),
+      updatedAt: now,
+    };
+
+    setState({ orders: trimmed([order, ...state.orders]) });
+    if (order.status === 'pending') {
+      inFlight.set(order.id, adapter.submit(order, update => handleUpdate(order.id, update)));
+    }
+    return order;
+  };
+
+  return {
+    adapterLabel: adapter.label,
+    placeOrder,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => state,
+    getServerSnapshot: () => INITIAL_STATE,
+    /** Stops tracking the open orders (they stay pending). */
+    dispose: () => {
+      inFlight.forEach(stop => stop());
+      inFlight.clear();
+    },
+  };
+};
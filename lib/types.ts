@@ -0,0 +1,76 @@
+// Shared domain types for the Pulse discovery table, the realtime feed and the mock server.
+
+// Chain id; what each chain means (quote asset, explorers, icon) lives in lib/chains.ts
+export type TokenChain = string;
+
+export type TokenStatus = 'New pairs' | 'Final Stretch' | 'Migrated';
+
+// On-chain audit inputs behind the risk score (lib/scoring.ts). Percentages are 0-100;
+// authority flags are null where the chain has no such authority.
+export type TokenAudit = {
+  liquidityLockedPct: number;
+  lpBurnedPct: number;
+  // Share of the supply held by the 10 largest holders
+  topHoldersPct: number;
+  devHoldingsPct: number;
+  mintAuthority: boolean | null;
+  freezeAuthority: boolean | null;
+  honeypot: boolean;
+};
+
+// Type for a single Token entry
+export type Token = {
+  id: string;
+  name: string;
+  symbol: string;
+  chain: TokenChain;
+  // Token contract (mint on Solana) and its trading pair / pool on the chain
+  address: string;
+  pairAddress: string;
+  // Quote asset / symbol, e.g. WETH/PEPE
+  pair: string;
+  status: TokenStatus;
+  marketCap: number;
+  priceUSD: number;
+  volume24h: number;
+  liquidity: number;
+  launchTime: number; // Unix timestamp
+  // Risk score 0-100 computed from `audit` with the default weights (lib/scoring.ts)
+  score: number;
+  audit: TokenAudit;
+  // Bonding curve fill, 0-100; drives the lifecycle stage (lib/lifecycle.ts)
+  bondingProgress: number;
+  // Set on the client by the lifecycle state machine: the stage the token just left
+  // (while it animates out of that tab), when it last changed stage, and when it migrated
+  previousStatus?: TokenStatus;
+  statusChangedAt?: number;
+  migratedAt?: number;
+  // Percent price change, derived on the client from the rolling price history
+  // (lib/priceHistory.ts); null until the history covers the window
+  change1m?: number | null;
+  change5m?: number | null;
+  change1h?: number | null;
+};
+
+// Type for the price history state used for smooth transitions
+export type PriceState = {
+  priceUSD: number;
+  trend: 'up' | 'down' | 'neutral';
+};
+
+// Table tab: one lifecycle stage, everything, the starred tokens or the paper portfolio's holdings
+export type TableTab = TokenStatus | 'All' | 'Watchlist' | 'Holdings';
+
+// Tabbed table, or the three-column Pulse board (one live column per stage)
+export type TableView = 'table' | 'board';
+
+export type SortDirection = 'asc' | 'desc';
+
+// One sort key; ties fall through to the next key in SortState
+export type SortCriterion = {
+  key: keyof Token;
+  direction: SortDirection;
+};
+
+// Type for sorting state: ordered by priority (primary first). Empty = feed order.
+export type SortState = SortCriterion[];
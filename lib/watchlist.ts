@@ -0,0 +1,85 @@
+// --- Watchlist persistence ---
+// Starred token ids, stored in localStorage as a versioned document so the shape can
+// change later without wiping anyone's list. Also used as the JSON import/export format.
+
+export const WATCHLIST_STORAGE_KEY = 'axiom.watchlist';
+export const WATCHLIST_SCHEMA_VERSION = 1;
+
+export type WatchlistDocument = {
+  version: typeof WATCHLIST_SCHEMA_VERSION;
+  // Token ids in the order they were starred
+  ids: string[];
+  updatedAt: number;
+};
+
+export class WatchlistImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WatchlistImportError';
+  }
+}
+
+const toIds = (value: unknown): string[] | null => {
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string')) return null;
+  return Array.from(new Set(value as string[]));
+};
+
+/**
+ * Upgrades any stored or imported shape to the current schema. Version 0 is a bare
+ * array of ids (what early exports looked like). Returns null for anything unrecognized.
+ */
+export const migrateWatchlist = (raw: unknown): WatchlistDocument | null => {
+  if (Array.isArray(raw)) {
+    const ids = toIds(raw);
+    return ids && { version: WATCHLIST_SCHEMA_VERSION, ids, updatedAt: 0 };
+  }
+  if (typeof raw !== 'object' || raw === null) return null;
+
+  const { version, ids, updatedAt } = raw as Record<string, unknown>;
+  if (version !== WATCHLIST_SCHEMA_VERSION) return null;
+  const parsedIds = toIds(ids);
+  return parsedIds && {
+    version: WATCHLIST_SCHEMA_VERSION,
+    ids: parsedIds,
+    updatedAt: typeof updatedAt === 'number' ? updatedAt : 0,
+  };
+};
+
+export const createWatchlist = (ids: string[]): WatchlistDocument => ({
+  version: WATCHLIST_SCHEMA_VERSION,
+  ids,
+  updatedAt: Date.now(),
+});
+
+// Corrupt or foreign data in storage is treated as an empty list rather than an error
+export const parseStoredWatchlist = (value: string | null): string[] => {
+  if (!value) return [];
+  try {
+    return migrateWatchlist(JSON.parse(value))?.ids ?? [];
+  } catch {
+    return [];
+  }
+};
+
+export const serializeWatchlist = (ids: string[]): string => JSON.stringify(createWatchlist(ids), null, 2);
+
+/**
+ * Parses a user-supplied export file. Unlike storage reads, failures are reported.
+ */
+export const parseWatchlistImport = (text: string): string[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new WatchlistImportError('File is not valid JSON');
+  }
+  if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+    const { version } = raw as Record<string, unknown>;
+    if (typeof version === 'number' && version > WATCHLIST_SCHEMA_VERSION) {
+      throw new WatchlistImportError(`Watchlist was exported by a newer version (schema v${version})`);
+    }
+  }
+  const watchlist = migrateWatchlist(raw);
+  if (!watchlist) throw new WatchlistImportError('File is not a watchlist export');
+  return watchlist.ids;
+};
@@ -0,0 +1,115 @@
+/**
+ * Replays a synthetic tick stream through the token store and reports how many
+ * commits (i.e. React renders) it produced and how long they took.
+ *
+ *   npm run bench:feed
+ *
+ * Environment:
+ *   TOKENS     number of tokens in the snapshot (default 1000)
+ *   RATE       ticks per second (default 5000)
+ *   DURATION   replay duration in seconds (default 5)
+ *   BATCH      ticks per price_tick frame (default 1, i.e. one frame per tick)
+ *   FRAME_MS   simulated animation frame interval (default 16)
+ */
+import { createMockTokens, randomWalk } from '../lib/mockTokens';
+import { FEED_PROTOCOL_VERSION, type PriceTick, type ServerMessage } from '../lib/feed/protocol';
+import { createTokenStore, timeoutScheduler } from '../lib/tokenStore';
+
+const TOKENS = Number(process.env.TOKENS ?? 1000);
+const RATE = Number(process.env.RATE ?? 5000);
+const DURATION = Number(process.env.DURATION ?? 5);
+const BATCH = Number(process.env.BATCH ?? 1);
+const FRAME_MS = Number(process.env.FRAME_MS ?? 16);
+
+// Replay resolution: frames due in the same 1ms slot are dispatched together
+const SLOT_MS = 1;
+
+const buildStream = (): { at: number; message: ServerMessage }[] => {
+  const tokens = createMockTokens(TOKENS);
+  const prices = tokens.map(token => token.priceUSD);
+  const frames: { at: number; message: ServerMessage }[] = [];
+  const total = RATE * DURATION;
+  // Wall-clock tick timestamps so the store's rolling price history sees a realistic stream
+  const origin = Date.now();
+
+  for (let sent = 0; sent < total; sent += BATCH) {
+    const at = (sent / RATE) * 1000;
+    const ticks: PriceTick[] = [];
+    for (let i = sent; i < Math.min(sent + BATCH, total); i++) {
+      const index = Math.floor(Math.random() * TOKENS);
+      prices[index] = randomWalk(prices[index], 0.02);
+      ticks.push({ id: tokens[index].id, priceUSD: prices[index], ts: origin + at });
+    }
+    frames.push({ at, message: { v: FEED_PROTOCOL_VERSION, type: 'price_tick', ticks } });
+  }
+
+  return [{ at: 0, message: { v: FEED_PROTOCOL_VERSION, type: 'snapshot', tokens, ts: origin } }, ...frames];
+};
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+};
+
+const run = async () => {
+  const stream = buildStream();
+  const store = createTokenStore({ schedule: timeoutScheduler(FRAME_MS) });
+
+  // Track the gap between commits as a subscriber sees them, plus how many tokens changed identity
+  const commitGaps: number[] = [];
+  let changedTokens = 0;
+  let previous = store.getSnapshot().tokens;
+  let lastCommit = performance.now();
+  store.subscribe(() => {
+    const { tokens } = store.getSnapshot();
+    if (tokens !== previous) {
+      const nowMs = performance.now();
+      commitGaps.push(nowMs - lastCommit);
+      lastCommit = nowMs;
+      if (tokens.length === previous.length) {
+        for (let i = 0; i < tokens.length; i++) if (tokens[i] !== previous[i]) changedTokens++;
+      }
+      previous = tokens;
+    }
+  });
+
+  console.log(`[bench-feed] ${TOKENS} tokens, ${RATE} ticks/s for ${DURATION}s, ${BATCH} tick(s) per frame`);
+
+  const started = performance.now();
+  let cursor = 0;
+  await new Promise<void>(resolve => {
+    const pump = () => {
+      const elapsed = performance.now() - started;
+      while (cursor < stream.length && stream[cursor].at <= elapsed) {
+        store.dispatch(stream[cursor].message);
+        cursor++;
+      }
+      if (cursor < stream.length) {
+        setTimeout(pump, SLOT_MS);
+      } else {
+        setTimeout(resolve, FRAME_MS * 2);
+      }
+    };
+    pump();
+  });
+  const wall = performance.now() - started;
+
+  const stats = store.getStats();
+  const seconds = wall / 1000;
+  console.table({
+    'wall time (ms)': Math.round(wall),
+    'frames received': stats.messages,
+    'ticks received': stats.ticks,
+    'ticks / s (achieved)': Math.round(stats.ticks / seconds),
+    commits: stats.commits,
+    'commits / s': Math.round(stats.commits / seconds),
+    'ticks per commit': +(stats.ticks / Math.max(1, stats.commits)).toFixed(1),
+    'changed rows per commit': +(changedTokens / Math.max(1, stats.commits)).toFixed(1),
+    'avg commit (ms)': +(stats.totalCommitMs / Math.max(1, stats.commits)).toFixed(3),
+    'max commit (ms)': +stats.maxCommitMs.toFixed(3),
+    'p95 commit gap (ms)': +percentile(commitGaps, 95).toFixed(1),
+  });
+};
+
+run();
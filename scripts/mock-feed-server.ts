@@ -0,0 +1,99 @@
+/**
+ * Local mock of the Pulse realtime feed. Speaks the same protocol as the live endpoint
+ * (see lib/feed/protocol.ts), so the WebSocket transport can be exercised without a live feed.
+ *
+ *   npm run feed:mock
+ *   NEXT_PUBLIC_FEED_URL=ws://localhost:8787 npm run dev
+ *
+ * Environment:
+ *   PORT           listen port (default 8787)
+ *   TOKENS         number of tokens in the snapshot (default 50)
+ *   TICK_MS        interval between price_tick frames (default 1000)
+ *   CHURN_MS       interval between token_added / token_removed frames, 0 to disable (default 15000)
+ *   DROP_MS        forcibly drop every client on this interval to test reconnects, 0 to disable (default 0)
+ */
+import { WebSocketServer, type WebSocket } from 'ws';
+import { createMockToken, createMockTokens, nextMockTick } from '../lib/mockTokens';
+import {
+  FEED_PROTOCOL_VERSION,
+  applyPriceTick,
+  type ClientMessage,
+  type PriceTick,
+  type ServerMessage,
+} from '../lib/feed/protocol';
+import type { Token } from '../lib/types';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKENS = Number(process.env.TOKENS ?? 50);
+const TICK_MS = Number(process.env.TICK_MS ?? 1000);
+const CHURN_MS = Number(process.env.CHURN_MS ?? 15000);
+const DROP_MS = Number(process.env.DROP_MS ?? 0);
+
+let tokens: Token[] = createMockTokens(TOKENS);
+let nextIndex = TOKENS;
+const subscribers = new Set<WebSocket>();
+
+const broadcast = (message: ServerMessage) => {
+  const frame = JSON.stringify(message);
+  subscribers.forEach(client => client.send(frame));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  socket.on('message', (raw) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(String(raw));
+    } catch {
+      return;
+    }
+    // Valid JSON that isn't an object (null, 1, "x") is ignored like garbage
+    if (!isRecord(payload)) return;
+    const message = payload as ClientMessage;
+    if (message.v !== FEED_PROTOCOL_VERSION) {
+      socket.close(1002, 'Unsupported protocol version');
+      return;
+    }
+    if (message.type === 'subscribe') {
+      subscribers.add(socket);
+      const snapshot: ServerMessage = { v: FEED_PROTOCOL_VERSION, type: 'snapshot', tokens, ts: Date.now() };
+      socket.send(JSON.stringify(snapshot));
+    } else if (message.type === 'unsubscribe') {
+      subscribers.delete(socket);
+    }
+  });
+  socket.on('close', () => subscribers.delete(socket));
+});
+
+setInterval(() => {
+  const ts = Date.now();
+  const ticks: PriceTick[] = tokens.map(token => nextMockTick(token, ts));
+  tokens = tokens.map((token, i) => applyPriceTick(token, ticks[i]));
+  broadcast({ v: FEED_PROTOCOL_VERSION, type: 'price_tick', ticks });
+}, TICK_MS);
+
+if (CHURN_MS > 0) {
+  setInterval(() => {
+    if (Math.random() < 0.5 && tokens.length > 0) {
+      const removed = tokens[Math.floor(Math.random() * tokens.length)];
+      tokens = tokens.filter(token => token.id !== removed.id);
+      broadcast({ v: FEED_PROTOCOL_VERSION, type: 'token_removed', id: removed.id });
+    } else {
+      const token = createMockToken(nextIndex++, 'New pairs');
+      tokens = [...tokens, token];
+      broadcast({ v: FEED_PROTOCOL_VERSION, type: 'token_added', token });
+    }
+  }, CHURN_MS);
+}
+
+if (DROP_MS > 0) {
+  setInterval(() => {
+    server.clients.forEach(client => client.terminate());
+  }, DROP_MS);
+}
+
+console.log(`[mock-feed] ws://localhost:${PORT} - ${TOKENS} tokens, tick every ${TICK_MS}ms`);